@@ -6,6 +6,11 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { useMarketOverview } from "@/hooks/use-market-overview";
+import { useExchangeHealth } from "@/hooks/use-exchange-health";
+import { useCandleCloseAnalysis } from "@/hooks/use-candle-close-analysis";
+import { getPairSymbol, parseVenueSymbol, type TradingPair } from "@/services/instruments";
+import type { Exchange, TradingType, Timeframe, TickerData, HealthStatus, EMABounceSignal } from "@/types/exchange";
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -17,7 +22,9 @@ import {
   AlertTriangle,
   Target,
   Clock,
-  Bell
+  Bell,
+  Wifi,
+  WifiOff
 } from "lucide-react";
 
 interface MarketData {
@@ -28,19 +35,117 @@ interface MarketData {
   volume: string;
 }
 
-const mockMarketData: MarketData[] = [
-  { symbol: "BTCUSDT", price: "43,250.00", change: "+1,250.00", changePercent: "+2.98", volume: "2.5B" },
-  { symbol: "ETHUSDT", price: "2,680.50", change: "+85.30", changePercent: "+3.28", volume: "1.8B" },
-  { symbol: "SOLUSDT", price: "102.45", change: "-2.15", changePercent: "-2.06", volume: "850M" },
-];
+// Kept apart from the market so switching exchange or trading type keeps the
+// pair and only changes its symbol
+const DEFAULT_PAIR: TradingPair = { base: "BTC", quote: "USDT", multiplier: 1 };
+
+// Coin-margined contracts are quoted in USD
+const QUOTE_ASSETS = ["USDT", "USDC", "FDUSD", "BTC", "USD"];
+
+function formatVolume(value: number): string {
+  if (value >= 1e9) return `${(value / 1e9).toFixed(1)}B`;
+  if (value >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  if (value >= 1e3) return `${(value / 1e3).toFixed(1)}K`;
+  return value.toFixed(0);
+}
+
+function toMarketData(ticker: TickerData): MarketData {
+  const change = parseFloat(ticker.priceChange);
+  const changePercent = parseFloat(ticker.priceChangePercent);
+  const sign = change >= 0 ? "+" : "";
+
+  return {
+    symbol: ticker.symbol,
+    price: parseFloat(ticker.price).toLocaleString(undefined, { maximumFractionDigits: 8 }),
+    change: `${sign}${change.toLocaleString(undefined, { maximumFractionDigits: 8 })}`,
+    changePercent: `${sign}${changePercent.toFixed(2)}`,
+    volume: formatVolume(parseFloat(ticker.quoteVolume)),
+  };
+}
+
+function describeSignal(signal: EMABounceSignal | undefined): { label: string; className: string } {
+  if (!signal) return { label: "Waiting for Setup", className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100" };
+
+  const price = signal.price.toLocaleString(undefined, { maximumFractionDigits: 8 });
+  return signal.type === "buy"
+    ? { label: `Buy @ ${price}`, className: "bg-green-100 text-green-800 hover:bg-green-100" }
+    : { label: `Sell @ ${price}`, className: "bg-red-100 text-red-800 hover:bg-red-100" };
+}
+
+const HEALTH_LABELS: Record<HealthStatus, { label: string; className: string }> = {
+  unknown: { label: "Connecting", className: "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300" },
+  healthy: { label: "Live", className: "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300" },
+  degraded: { label: "Degraded", className: "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300" },
+  down: { label: "Offline", className: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300" },
+};
+
+// Data older than this is flagged as stale in the header
+const STALE_AFTER_MS = 15000;
+
+function formatAge(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 60)}m`;
+}
+
+function ConnectionStatus({ exchange, updatedAt }: { exchange: Exchange; updatedAt: number | null }) {
+  const health = useExchangeHealth(exchange);
+  const status = health?.status ?? "unknown";
+  const { label, className } = HEALTH_LABELS[status];
+  // Re-rendered every couple of seconds by the health hook
+  const age = updatedAt === null ? null : Date.now() - updatedAt;
+  const stale = age !== null && age > STALE_AFTER_MS;
+  const lastError = health?.endpoints.find(endpoint => endpoint.lastError && endpoint.state !== "closed")?.lastError;
+
+  return (
+    <Badge
+      variant="outline"
+      className={`gap-1 border-transparent ${className}`}
+      title={lastError ?? (health ? `${(health.errorRate * 100).toFixed(0)}% errors over the last minute` : undefined)}
+    >
+      {status === "down" ? <WifiOff className="h-3 w-3" /> : <Wifi className="h-3 w-3" />}
+      {label}
+      {status !== "unknown" && status !== "down" && health && health.avgLatencyMs > 0 && ` · ${health.avgLatencyMs}ms`}
+      {stale && ` · data ${formatAge(age)} old`}
+    </Badge>
+  );
+}
 
 export default function TradingApp() {
   const [selectedExchange, setSelectedExchange] = useState("binance");
   const [selectedType, setSelectedType] = useState("spot");
-  const [selectedPair, setSelectedPair] = useState("BTCUSDT");
+  const [selectedPair, setSelectedPair] = useState<TradingPair>(DEFAULT_PAIR);
   const [selectedTimeframe, setSelectedTimeframe] = useState("4h");
   const [alertsEnabled, setAlertsEnabled] = useState(true);
   const [autoTrading, setAutoTrading] = useState(false);
+  const [quoteAsset, setQuoteAsset] = useState("USDT");
+
+  const marketOverview = useMarketOverview(
+    selectedExchange as Exchange,
+    selectedType as TradingType,
+    { quoteAssets: [quoteAsset] }
+  );
+  const marketData = marketOverview.tickers.map(toMarketData);
+
+  // Undefined when the exchange has no market for the pair, e.g. a 1000PEPE contract on OKX
+  const pairSymbol = getPairSymbol(selectedExchange as Exchange, selectedType as TradingType, selectedPair);
+  const pairLabel = pairSymbol ?? `${selectedPair.multiplier > 1 ? selectedPair.multiplier : ""}${selectedPair.base}/${selectedPair.quote} (not listed)`;
+
+  const selectSymbol = (symbol: string) => {
+    const instrument = parseVenueSymbol(selectedExchange as Exchange, selectedType as TradingType, symbol);
+    if (!instrument) return;
+    // Coin-margined symbols are all quoted in USD; keep the pair's own quote
+    const quote = selectedType === "inverse" ? selectedPair.quote : instrument.quote;
+    setSelectedPair({ base: instrument.base, quote, multiplier: instrument.multiplier });
+  };
+
+  // Rerun on every confirmed candle close of the selected timeframe
+  const { analysis } = useCandleCloseAnalysis(
+    selectedExchange as Exchange,
+    selectedType as TradingType,
+    pairSymbol ?? null,
+    selectedTimeframe as Timeframe
+  );
+  const lastEmaSignal = describeSignal(analysis?.emaBounceSignals[analysis.emaBounceSignals.length - 1]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
@@ -58,6 +163,7 @@ export default function TradingApp() {
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <ConnectionStatus exchange={selectedExchange as Exchange} updatedAt={marketOverview.updatedAt} />
               <Button variant="ghost" size="sm">
                 <Bell className="h-4 w-4" />
               </Button>
@@ -89,6 +195,7 @@ export default function TradingApp() {
                   <SelectContent>
                     <SelectItem value="binance">Binance</SelectItem>
                     <SelectItem value="bybit">Bybit</SelectItem>
+                    <SelectItem value="okx">OKX</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -100,7 +207,8 @@ export default function TradingApp() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="spot">Spot Trading</SelectItem>
-                    <SelectItem value="futures">Futures Trading</SelectItem>
+                    <SelectItem value="futures">USDⓈ-M Futures</SelectItem>
+                    <SelectItem value="inverse">COIN-M Futures</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -111,18 +219,35 @@ export default function TradingApp() {
         {/* Market Overview */}
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="flex items-center gap-2 text-lg">
-              <Activity className="h-5 w-5" />
-              Market Overview
-            </CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Activity className="h-5 w-5" />
+                Market Overview
+              </CardTitle>
+              <Select value={quoteAsset} onValueChange={setQuoteAsset}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUOTE_ASSETS.map((asset) => (
+                    <SelectItem key={asset} value={asset}>{asset}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </CardHeader>
           <CardContent>
             <div className="grid gap-4">
-              {mockMarketData.map((coin) => (
+              {marketData.length === 0 && (
+                <p className="text-sm text-slate-500">
+                  {marketOverview.loading ? "Loading market data..." : marketOverview.error ?? `No ${quoteAsset} pairs found`}
+                </p>
+              )}
+              {marketData.map((coin) => (
                 <div 
                   key={coin.symbol}
                   className="flex items-center justify-between p-3 rounded-lg bg-slate-50 dark:bg-slate-800 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors cursor-pointer"
-                  onClick={() => setSelectedPair(coin.symbol)}
+                  onClick={() => selectSymbol(coin.symbol)}
                 >
                   <div className="flex flex-col">
                     <span className="font-semibold">{coin.symbol}</span>
@@ -146,7 +271,7 @@ export default function TradingApp() {
           <CardHeader className="pb-3">
             <CardTitle className="flex items-center gap-2 text-lg">
               <Target className="h-5 w-5" />
-              Selected Pair: <Badge variant="secondary">{selectedPair}</Badge>
+              Selected Pair: <Badge variant="secondary">{pairLabel}</Badge>
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -157,9 +282,11 @@ export default function TradingApp() {
                   Timeframe
                 </Label>
                 <Tabs value={selectedTimeframe} onValueChange={setSelectedTimeframe} className="w-full">
-                  <TabsList className="grid w-full grid-cols-4">
+                  <TabsList className="grid w-full grid-cols-6">
                     <TabsTrigger value="1h">1H</TabsTrigger>
+                    <TabsTrigger value="2h">2H</TabsTrigger>
                     <TabsTrigger value="4h">4H</TabsTrigger>
+                    <TabsTrigger value="12h">12H</TabsTrigger>
                     <TabsTrigger value="1d">1D</TabsTrigger>
                     <TabsTrigger value="1w">1W</TabsTrigger>
                   </TabsList>
@@ -179,7 +306,7 @@ export default function TradingApp() {
               <div className="text-center space-y-2">
                 <BarChart3 className="h-12 w-12 mx-auto text-slate-400" />
                 <p className="text-slate-500">Advanced TradingView Chart</p>
-                <p className="text-sm text-slate-400">EMA Lines, VWAP, MACD & Supply/Demand Zones</p>
+                <p className="text-sm text-slate-400">EMA Lines, VWAP, MACD, Volume Delta (CVD) & Supply/Demand Zones</p>
               </div>
             </div>
           </CardContent>
@@ -221,8 +348,8 @@ export default function TradingApp() {
               <div className="pt-2 border-t">
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Last Signal</span>
-                  <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">
-                    Waiting for Setup
+                  <Badge className={lastEmaSignal.className}>
+                    {lastEmaSignal.label}
                   </Badge>
                 </div>
               </div>
@@ -251,6 +378,10 @@ export default function TradingApp() {
                   <span className="text-sm">Reversal Zones (D-B-R)</span>
                   <Badge variant="outline">3 Found</Badge>
                 </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">Order Flow (CVD)</span>
+                  <Badge variant="outline">Active</Badge>
+                </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm">Chain Strategy</span>
                   <Badge variant="outline">Monitoring</Badge>
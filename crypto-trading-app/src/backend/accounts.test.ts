@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AccountClient } from '../services/accountClient';
+import { getAccountClient, type Env } from './accounts';
+
+const env: Env = { BYBIT_API_KEY: 'stand-in-key', BYBIT_API_SECRET: 'stand-in-secret' };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('getAccountClient', () => {
+  it('has no client for an exchange without keys', () => {
+    expect(getAccountClient(env, 'binance')).toBeUndefined();
+  });
+
+  it('shares one client per exchange', async () => {
+    const first = getAccountClient(env, 'bybit');
+
+    expect(getAccountClient(env, 'bybit')).toBe(first);
+    expect((await first!).exchange).toBe('bybit');
+  });
+
+  it('creates the client again after a failed start', async () => {
+    const failure = new Error('Key import failed');
+    const create = vi.spyOn(AccountClient, 'create').mockRejectedValueOnce(failure);
+    const withBinance = { ...env, BINANCE_API_KEY: 'stand-in-key', BINANCE_API_SECRET: 'stand-in-secret' };
+
+    await expect(getAccountClient(withBinance, 'binance')).rejects.toBe(failure);
+    const retried = getAccountClient(withBinance, 'binance');
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect((await retried!).exchange).toBe('binance');
+  });
+});
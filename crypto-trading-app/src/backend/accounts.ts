@@ -0,0 +1,62 @@
+// Exchange API keys for the account routes. They are read from Worker secrets
+// (`wrangler secret put BINANCE_API_SECRET`), imported as non-extractable
+// signing keys and never sent to the browser.
+
+import type { Exchange } from '../types/exchange';
+import { AccountClient } from '../services/accountClient';
+
+export interface Env {
+  // Bearer token every /api/account request must carry; the routes are off without it
+  ACCOUNT_API_TOKEN?: string;
+  BINANCE_API_KEY?: string;
+  BINANCE_API_SECRET?: string;
+  BYBIT_API_KEY?: string;
+  BYBIT_API_SECRET?: string;
+}
+
+// Secret names per exchange with signed account support
+const KEY_NAMES: Partial<Record<Exchange, { apiKey: keyof Env; apiSecret: keyof Env }>> = {
+  binance: { apiKey: 'BINANCE_API_KEY', apiSecret: 'BINANCE_API_SECRET' },
+  bybit: { apiKey: 'BYBIT_API_KEY', apiSecret: 'BYBIT_API_SECRET' }
+};
+
+// Per isolate; secrets only change with a new deployment, which starts fresh isolates
+const clients = new Map<Exchange, Promise<AccountClient>>();
+
+/**
+ * The account client for an exchange, or undefined when its keys are not configured
+ */
+export function getAccountClient(env: Env, exchange: Exchange): Promise<AccountClient> | undefined {
+  const names = KEY_NAMES[exchange];
+  const apiKey = names && env[names.apiKey];
+  const apiSecret = names && env[names.apiSecret];
+  if (!apiKey || !apiSecret) return undefined;
+
+  let client = clients.get(exchange);
+  if (!client) {
+    const pending = AccountClient.create(exchange, { apiKey, apiSecret });
+    clients.set(exchange, pending);
+
+    // Not cached when the keys fail to import, so the next request tries again
+    pending.catch(() => {
+      if (clients.get(exchange) === pending) clients.delete(exchange);
+    });
+    client = pending;
+  }
+  return client;
+}
+
+// Compares every character so the time taken does not reveal the matching prefix
+function constantTimeEqual(a: string, b: string): boolean {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
+
+export function isAuthorized(request: Request, env: Env): boolean {
+  const token = env.ACCOUNT_API_TOKEN;
+  const header = request.headers.get('Authorization') ?? '';
+  return Boolean(token) && constantTimeEqual(header, `Bearer ${token}`);
+}
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { setHttpTransport } from '../services/exchanges/http';
+import { replayFixtures } from '../services/exchanges/fixtures';
+import { readFixtureFile } from './fixtureFiles';
+import { createExchangeError } from '../services/exchanges/errors';
+import { AccountClient } from '../services/accountClient';
+import api from './api';
+
+const NOW = 1718784000000;
+
+function tickerBody(symbol: string) {
+  return {
+    symbol,
+    priceChange: '120.5',
+    priceChangePercent: '0.19',
+    weightedAvgPrice: '65010.2',
+    prevClosePrice: '64880.0',
+    lastPrice: '65000.5',
+    lastQty: '0.01',
+    openPrice: '64880.0',
+    highPrice: '65210.0',
+    lowPrice: '64700.0',
+    volume: '10001.23',
+    quoteVolume: '650123456.78',
+    openTime: NOW - 86400000,
+    closeTime: NOW,
+    firstId: 1,
+    lastId: 2,
+    count: 2
+  };
+}
+
+let transport: ReturnType<typeof vi.fn>;
+
+function getTicker(query: string) {
+  return api.fetch(new Request(`https://api.example.com/api/market/ticker?${query}`));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  transport = vi.fn(async (url: string) => Response.json(tickerBody(new URL(url).searchParams.get('symbol') ?? '')));
+  setHttpTransport(transport);
+});
+
+afterEach(() => {
+  setHttpTransport(null);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('market response cache', () => {
+  it('serves requests with the same parameters from one upstream call', async () => {
+    const first = await getTicker('exchange=binance&tradingType=spot&symbol=ETHUSDT');
+    // Reordered, and with a cache buster
+    const second = await getTicker('symbol=ETHUSDT&_=1718784000&tradingType=spot&exchange=binance');
+
+    expect(first.status).toBe(200);
+    expect(await second.json()).toEqual(await first.json());
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('fetches again once the entry expires', async () => {
+    await getTicker('exchange=binance&symbol=SOLUSDT');
+    vi.setSystemTime(NOW + 1999);
+    await getTicker('exchange=binance&symbol=SOLUSDT');
+    expect(transport).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(NOW + 2000);
+    await getTicker('exchange=binance&symbol=SOLUSDT');
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache failures', async () => {
+    transport.mockResolvedValueOnce(Response.json({ code: -1121, msg: 'Invalid symbol.' }, { status: 400 }));
+
+    expect((await getTicker('exchange=binance&symbol=XRPUSDT')).status).toBe(404);
+    expect((await getTicker('exchange=binance&symbol=XRPUSDT')).status).toBe(200);
+  });
+
+  it('keys on validated parameters, rejecting bad ones before any upstream call', async () => {
+    const response = await getTicker('exchange=binance&tradingType=margin&symbol=BTCUSDT');
+
+    expect(response.status).toBe(400);
+    expect(transport).not.toHaveBeenCalled();
+  });
+});
+
+describe('account error statuses', () => {
+  const env = { ACCOUNT_API_TOKEN: 'token', BINANCE_API_KEY: 'key', BINANCE_API_SECRET: 'secret' };
+  const endpoint = 'https://api.binance.com/api/v3/account';
+
+  function getBalances() {
+    return api.fetch(new Request('https://api.example.com/api/account/balances?exchange=binance', {
+      headers: { Authorization: 'Bearer token' }
+    }), env);
+  }
+
+  it('answers 403 when the exchange refuses the backend\'s keys', async () => {
+    vi.spyOn(AccountClient.prototype, 'getBalances').mockRejectedValue(
+      createExchangeError('binance', endpoint, { kind: 'unauthorized', message: 'Invalid API-key, IP, or permissions for action.', code: -2015 })
+    );
+
+    const response = await getBalances();
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ error: { kind: 'unauthorized', code: -2015 } });
+  });
+
+  it('answers a retryable 503 when the clock is still off after a resync', async () => {
+    vi.spyOn(AccountClient.prototype, 'getBalances').mockRejectedValue(
+      createExchangeError('binance', endpoint, { kind: 'clock-skew', message: 'Timestamp for this request is outside of the recvWindow.', code: -1021 })
+    );
+
+    const response = await getBalances();
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get('Retry-After')).toBe('1');
+  });
+
+  it('keeps 401 for a missing bearer token', async () => {
+    const response = await api.fetch(new Request('https://api.example.com/api/account/balances?exchange=binance'), env);
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('analysis inputs', () => {
+  const STRATEGY_FIXTURES = fileURLToPath(new URL('../services/exchanges/__fixtures__/strategy.json', import.meta.url));
+
+  it('serves klines with taker buy volume', async () => {
+    replayFixtures(await readFixtureFile(STRATEGY_FIXTURES));
+
+    const response = await api.fetch(new Request('https://api.example.com/api/market/orderflow?exchange=binance&symbol=BTCUSDT&timeframe=1h&limit=260'));
+    const { klines } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(klines).toHaveLength(260);
+    expect(klines[0]).toMatchObject({ takerBuyBaseAssetVolume: '62.000', source: { exchange: 'binance', symbol: 'BTCUSDT' } });
+  });
+
+  it('has no funding or open interest for spot markets', async () => {
+    const response = await api.fetch(new Request('https://api.example.com/api/market/derivatives?exchange=binance&tradingType=spot&symbol=BTCUSDT'));
+
+    expect(response.status).toBe(400);
+    expect(transport).not.toHaveBeenCalled();
+  });
+});
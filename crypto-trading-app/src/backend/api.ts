@@ -1,201 +1,409 @@
-// Example API worker for your backend endpoints
-// This runs on Cloudflare Workers at the edge
+// Market data and account API worker
+// This runs on Cloudflare Workers at the edge and calls the exchanges
+// server-side, where CORS does not apply and headers such as User-Agent can be
+// set. Account routes sign requests with keys kept in the Worker's secrets.
 
-// You can import types and utilities (they'll be bundled by esbuild)
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  createdAt: string;
+import { ExchangeAPI, isExchangeError, isValidTimeframe } from "../services/exchangeAPI";
+import { getAccountClient, isAuthorized, type Env } from "./accounts";
+import type {
+  Exchange,
+  TradingType,
+  ContractType,
+  SymbolQuery,
+  MarketErrorBody,
+  ExchangeErrorKind
+} from "../types/exchange";
+
+const TRADING_TYPES: TradingType[] = ["spot", "futures", "inverse"];
+const CONTRACT_TYPES: ContractType[] = ["spot", "perpetual", "delivery"];
+const MAX_KLINE_LIMIT = 5000;
+
+// Seconds a response may be served from cache
+const CACHE_TTL = {
+  klines: 5,
+  ticker: 2,
+  symbols: 60,
+  derivatives: 30
+};
+
+// Rejected query parameters; answered with 400
+class BadRequestError extends Error {}
+
+// Account routes without a valid token (401) or without keys for the exchange (503)
+class AccountAccessError extends Error {
+  constructor(readonly kind: "forbidden" | "not-configured", message: string) {
+    super(message);
+  }
+}
+
+// Entries kept per isolate; the oldest go first beyond this
+const MAX_CACHE_ENTRIES = 500;
+
+interface CacheEntry {
+  // Infinity until the upstream request settles
+  expiresAt: number;
+  body: Promise<unknown>;
 }
 
-interface TodoItem {
-  id: string;
-  userId: string;
-  title: string;
-  completed: boolean;
-  createdAt: string;
+// Per-isolate cache, keyed by the validated request parameters so that their
+// order and unknown ones (cache busters) do not make new entries. Concurrent
+// misses for the same key share one upstream request.
+const responseCache = new Map<string, CacheEntry>();
+
+function cacheKey(route: string, ...parts: unknown[]): string {
+  return JSON.stringify([route, ...parts]);
 }
 
-// Mock data - in production, you'd use a database like D1 or KV
-const mockUsers: User[] = [
-  { id: "1", name: "Alice Johnson", email: "alice@example.com", createdAt: "2024-01-01" },
-  { id: "2", name: "Bob Smith", email: "bob@example.com", createdAt: "2024-01-02" },
-];
+function evictExpired(now: number): void {
+  responseCache.forEach((entry, key) => {
+    if (entry.expiresAt <= now) responseCache.delete(key);
+  });
+}
+
+async function cached(key: string, ttlSeconds: number, load: () => Promise<unknown>): Promise<unknown> {
+  const now = Date.now();
+  const hit = responseCache.get(key);
+  if (hit && hit.expiresAt > now) return hit.body;
+
+  evictExpired(now);
+  // Maps iterate in insertion order, so the first key is the oldest
+  for (const oldest of responseCache.keys()) {
+    if (responseCache.size < MAX_CACHE_ENTRIES) break;
+    responseCache.delete(oldest);
+  }
 
-const mockTodos: TodoItem[] = [
-  { id: "1", userId: "1", title: "Deploy to Cloudflare", completed: true, createdAt: "2024-01-01" },
-  { id: "2", userId: "1", title: "Add authentication", completed: false, createdAt: "2024-01-02" },
-];
+  const entry: CacheEntry = { expiresAt: Infinity, body: load() };
+  responseCache.set(key, entry);
+
+  entry.body.then(
+    () => {
+      entry.expiresAt = Date.now() + ttlSeconds * 1000;
+    },
+    () => {
+      // Do not cache failures
+      if (responseCache.get(key) === entry) responseCache.delete(key);
+    }
+  );
+
+  return entry.body;
+}
 
 // Helper function for CORS headers
 function corsHeaders(origin: string): HeadersInit {
   return {
     "Access-Control-Allow-Origin": origin || "*",
-    "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
     "Access-Control-Allow-Headers": "Content-Type, Authorization",
     "Content-Type": "application/json",
   };
 }
 
+function required(params: URLSearchParams, name: string): string {
+  const value = params.get(name);
+  if (!value) {
+    throw new BadRequestError(`Missing query parameter: ${name}`);
+  }
+  return value;
+}
+
+// Deduplicated and sorted, so that the same set always makes the same cache key
+function parseList(params: URLSearchParams, name: string): string[] | undefined {
+  const value = params.get(name);
+  const items = value ? value.split(",").map(item => item.trim()).filter(Boolean) : [];
+  return items.length > 0 ? Array.from(new Set(items)).sort() : undefined;
+}
+
+function parseNumber(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null) return undefined;
+
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new BadRequestError(`${name} must be a number`);
+  }
+  return number;
+}
+
+function parseMarket(params: URLSearchParams): { exchange: Exchange; tradingType: TradingType } {
+  const exchange = required(params, "exchange") as Exchange;
+  const tradingType = (params.get("tradingType") ?? "spot") as TradingType;
+
+  if (!ExchangeAPI.getSupportedExchanges().includes(exchange)) {
+    throw new BadRequestError(`Unsupported exchange: ${exchange}`);
+  }
+  if (!TRADING_TYPES.includes(tradingType)) {
+    throw new BadRequestError(`Unsupported trading type: ${tradingType}`);
+  }
+  return { exchange, tradingType };
+}
+
+function parseKlineRequest(params: URLSearchParams) {
+  const { exchange, tradingType } = parseMarket(params);
+  const symbol = required(params, "symbol");
+  const timeframe = required(params, "timeframe");
+  const limit = parseNumber(params, "limit") ?? 500;
+
+  if (!isValidTimeframe(timeframe)) {
+    throw new BadRequestError(`Invalid timeframe: ${timeframe}`);
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_KLINE_LIMIT) {
+    throw new BadRequestError(`limit must be a whole number from 1 to ${MAX_KLINE_LIMIT}`);
+  }
+  return { exchange, tradingType, symbol, timeframe, limit };
+}
+
+function parseSymbolQuery(params: URLSearchParams): SymbolQuery | undefined {
+  const contractTypes = parseList(params, "contractTypes") as ContractType[] | undefined;
+  if (contractTypes?.some(type => !CONTRACT_TYPES.includes(type))) {
+    throw new BadRequestError(`contractTypes must be among ${CONTRACT_TYPES.join(", ")}`);
+  }
+
+  const query: SymbolQuery = {
+    quoteAssets: parseList(params, "quoteAssets"),
+    includeBaseAssets: parseList(params, "includeBaseAssets"),
+    excludeBaseAssets: parseList(params, "excludeBaseAssets"),
+    minQuoteVolume: parseNumber(params, "minQuoteVolume"),
+    contractTypes,
+    includeNonTrading: params.get("includeNonTrading") === "true" || undefined
+  };
+
+  // No filters at all means ExchangeAPI's default query
+  return Object.values(query).some(value => value !== undefined) ? query : undefined;
+}
+
+// HTTP status for each kind of exchange failure
+function getErrorStatus(kind: ExchangeErrorKind): number {
+  switch (kind) {
+    case "invalid-symbol":
+      return 404;
+    case "rate-limited":
+    case "banned":
+      return 429;
+    case "exchange-maintenance":
+    case "circuit-open":
+      return 503;
+    case "rejected":
+      return 400;
+    // The exchange refused the backend's own keys; 401 stays for a bad bearer token
+    case "unauthorized":
+      return 403;
+    // Already resynced and retried once; the next request usually succeeds
+    case "clock-skew":
+      return 503;
+    default:
+      return 502;
+  }
+}
+
+// Seconds a client should wait before retrying each kind, when the exchange did not say
+const RETRY_AFTER: Partial<Record<ExchangeErrorKind, number>> = {
+  "clock-skew": 1
+};
+
+/**
+ * Every failure is answered with the same shape, so the client can rebuild
+ * exchange errors and describe them like local ones
+ */
+function errorResponse(error: unknown, origin: string): Response {
+  let status: number;
+  let body: MarketErrorBody;
+
+  if (isExchangeError(error)) {
+    status = getErrorStatus(error.kind);
+    body = { error };
+  } else if (error instanceof BadRequestError) {
+    status = 400;
+    body = { error: { kind: "bad-request", message: error.message } };
+  } else if (error instanceof AccountAccessError) {
+    status = error.kind === "forbidden" ? 401 : 503;
+    body = { error: { kind: error.kind, message: error.message } };
+  } else {
+    console.error("API Error:", error);
+    status = 500;
+    body = { error: { kind: "internal", message: error instanceof Error ? error.message : "Internal Server Error" } };
+  }
+
+  const headers = new Headers(corsHeaders(origin));
+  if (isExchangeError(error)) {
+    const retryAfter = error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : RETRY_AFTER[error.kind];
+    if (retryAfter !== undefined) headers.set("Retry-After", String(retryAfter));
+  }
+
+  return Response.json(body, { status, headers });
+}
+
+function cachedResponse(body: unknown, ttlSeconds: number, origin: string): Response {
+  return Response.json(body, {
+    headers: { ...corsHeaders(origin), "Cache-Control": `public, max-age=${ttlSeconds}` }
+  });
+}
+
+/**
+ * Balances, positions or open orders of the backend's own exchange account.
+ * Never cached: the body is private and changes with every fill.
+ */
+async function accountResponse(route: string, request: Request, env: Env, params: URLSearchParams, origin: string): Promise<Response> {
+  if (!env.ACCOUNT_API_TOKEN) {
+    throw new AccountAccessError("not-configured", "Account routes are disabled: ACCOUNT_API_TOKEN is not set");
+  }
+  if (!isAuthorized(request, env)) {
+    throw new AccountAccessError("forbidden", "Missing or invalid bearer token");
+  }
+
+  const { exchange, tradingType } = parseMarket(params);
+  const client = getAccountClient(env, exchange);
+  if (!client) {
+    throw new AccountAccessError("not-configured", `No API keys configured for ${exchange}`);
+  }
+
+  let body: unknown;
+  switch (route) {
+    case "balances":
+      body = { balances: await (await client).getBalances(tradingType) };
+      break;
+    case "positions":
+      body = { positions: await (await client).getPositions(tradingType) };
+      break;
+    case "orders":
+      body = { orders: await (await client).getOpenOrders(tradingType, params.get("symbol") ?? undefined) };
+      break;
+    default:
+      return Response.json(
+        { error: { kind: "not-found", message: `No route for /api/account/${route}` } },
+        { status: 404, headers: corsHeaders(origin) }
+      );
+  }
+
+  return Response.json(body, {
+    headers: { ...corsHeaders(origin), "Cache-Control": "private, no-store" }
+  });
+}
+
 // Main worker handler
 export default {
-  async fetch(request: Request): Promise<Response> {
+  async fetch(request: Request, env: Env = {}): Promise<Response> {
     const url = new URL(request.url);
     const method = request.method;
     const origin = request.headers.get("Origin") || "*";
-    
+    const params = url.searchParams;
+
     // Handle CORS preflight
     if (method === "OPTIONS") {
       return new Response(null, { headers: corsHeaders(origin) });
     }
-    
+
     // Router - match paths and methods
     try {
       // GET /api/health - Health check endpoint
       if (url.pathname === "/api/health" && method === "GET") {
         return Response.json(
-          { 
-            status: "healthy", 
+          {
+            status: "healthy",
             timestamp: new Date().toISOString(),
             version: "1.0.0"
           },
           { headers: corsHeaders(origin) }
         );
       }
-      
-      // GET /api/users - List all users
-      if (url.pathname === "/api/users" && method === "GET") {
-        return Response.json(
-          { users: mockUsers },
-          { headers: corsHeaders(origin) }
+
+      // GET /api/market/klines?exchange=&tradingType=&symbol=&timeframe=&limit=
+      if (url.pathname === "/api/market/klines" && method === "GET") {
+        const { exchange, tradingType, symbol, timeframe, limit } = parseKlineRequest(params);
+
+        const key = cacheKey("klines", exchange, tradingType, symbol, timeframe, limit);
+        const series = await cached(key, CACHE_TTL.klines, () =>
+          ExchangeAPI.getKlineSeries(exchange, tradingType, symbol, timeframe, limit)
         );
+        return cachedResponse(series, CACHE_TTL.klines, origin);
       }
-      
-      // GET /api/users/:id - Get specific user
-      const userMatch = url.pathname.match(/^\/api\/users\/(\d+)$/);
-      if (userMatch && method === "GET") {
-        const userId = userMatch[1];
-        const user = mockUsers.find(u => u.id === userId);
-        
-        if (!user) {
-          return Response.json(
-            { error: "User not found" },
-            { status: 404, headers: corsHeaders(origin) }
-          );
-        }
-        
-        return Response.json(
-          { user },
-          { headers: corsHeaders(origin) }
-        );
+
+      // GET /api/market/orderflow?exchange=&tradingType=&symbol=&timeframe=&limit=
+      // - Klines with taker buy volume, filled from trades where the exchange lacks it
+      if (url.pathname === "/api/market/orderflow" && method === "GET") {
+        const { exchange, tradingType, symbol, timeframe, limit } = parseKlineRequest(params);
+
+        const key = cacheKey("orderflow", exchange, tradingType, symbol, timeframe, limit);
+        const body = await cached(key, CACHE_TTL.klines, async () => ({
+          klines: await ExchangeAPI.getOrderFlowKlines(exchange, tradingType, symbol, timeframe, limit)
+        }));
+        return cachedResponse(body, CACHE_TTL.klines, origin);
       }
-      
-      // POST /api/users - Create new user
-      if (url.pathname === "/api/users" && method === "POST") {
-        const body = await request.json() as Partial<User>;
-        
-        // Validate input
-        if (!body.name || !body.email) {
-          return Response.json(
-            { error: "Name and email are required" },
-            { status: 400, headers: corsHeaders(origin) }
-          );
-        }
-        
-        const newUser: User = {
-          id: String(mockUsers.length + 1),
-          name: body.name,
-          email: body.email,
-          createdAt: new Date().toISOString(),
-        };
-        
-        // In production, you'd save to database here
-        mockUsers.push(newUser);
-        
-        return Response.json(
-          { user: newUser },
-          { status: 201, headers: corsHeaders(origin) }
+
+      // GET /api/market/ticker?exchange=&tradingType=&symbol= for one ticker,
+      // or &symbols=A,B for several (every available symbol when omitted)
+      if (url.pathname === "/api/market/ticker" && method === "GET") {
+        const { exchange, tradingType } = parseMarket(params);
+        const symbol = params.get("symbol");
+        const symbols = symbol ? undefined : parseList(params, "symbols");
+
+        const key = cacheKey("ticker", exchange, tradingType, symbol, symbols);
+        const body = await cached(key, CACHE_TTL.ticker, async () => symbol
+          ? { ticker: await ExchangeAPI.getTickerData(exchange, tradingType, symbol) }
+          : { tickers: await ExchangeAPI.getAllTickers(exchange, tradingType, symbols) }
         );
+        return cachedResponse(body, CACHE_TTL.ticker, origin);
       }
-      
-      // GET /api/todos - List todos with optional filtering
-      if (url.pathname === "/api/todos" && method === "GET") {
-        const userId = url.searchParams.get("userId");
-        const completed = url.searchParams.get("completed");
-        
-        let filteredTodos = mockTodos;
-        
-        if (userId) {
-          filteredTodos = filteredTodos.filter(t => t.userId === userId);
-        }
-        
-        if (completed !== null) {
-          filteredTodos = filteredTodos.filter(t => t.completed === (completed === "true"));
-        }
-        
-        return Response.json(
-          { todos: filteredTodos },
-          { headers: corsHeaders(origin) }
-        );
+
+      // GET /api/market/symbols?exchange=&tradingType= plus SymbolQuery filters,
+      // lists as comma-separated values
+      if (url.pathname === "/api/market/symbols" && method === "GET") {
+        const { exchange, tradingType } = parseMarket(params);
+        const query = parseSymbolQuery(params);
+
+        const key = cacheKey("symbols", exchange, tradingType, query);
+        const body = await cached(key, CACHE_TTL.symbols, async () => ({
+          symbols: await ExchangeAPI.querySymbols(exchange, tradingType, query)
+        }));
+        return cachedResponse(body, CACHE_TTL.symbols, origin);
       }
-      
-      // PUT /api/todos/:id - Update todo
-      const todoMatch = url.pathname.match(/^\/api\/todos\/(\d+)$/);
-      if (todoMatch && method === "PUT") {
-        const todoId = todoMatch[1];
-        const body = await request.json() as Partial<TodoItem>;
-        
-        const todoIndex = mockTodos.findIndex(t => t.id === todoId);
-        if (todoIndex === -1) {
-          return Response.json(
-            { error: "Todo not found" },
-            { status: 404, headers: corsHeaders(origin) }
-          );
+
+      // GET /api/market/derivatives?exchange=&tradingType=&symbol= - Funding and open interest change
+      if (url.pathname === "/api/market/derivatives" && method === "GET") {
+        const { exchange, tradingType } = parseMarket(params);
+        const symbol = required(params, "symbol");
+
+        if (!ExchangeAPI.hasDerivativesData(exchange, tradingType)) {
+          throw new BadRequestError(`No funding or open interest data for ${exchange} ${tradingType}`);
         }
-        
-        // Update todo
-        mockTodos[todoIndex] = { ...mockTodos[todoIndex], ...body };
-        
+
+        const key = cacheKey("derivatives", exchange, tradingType, symbol);
+        const body = await cached(key, CACHE_TTL.derivatives, async () => ({
+          context: await ExchangeAPI.getDerivativesContext(exchange, tradingType, symbol)
+        }));
+        return cachedResponse(body, CACHE_TTL.derivatives, origin);
+      }
+
+      // GET /api/market/time?exchange=&tradingType= - The exchange's clock, for the browser to sync to
+      if (url.pathname === "/api/market/time" && method === "GET") {
+        const { exchange, tradingType } = parseMarket(params);
         return Response.json(
-          { todo: mockTodos[todoIndex] },
-          { headers: corsHeaders(origin) }
+          { serverTime: await ExchangeAPI.getServerTime(exchange, tradingType) },
+          { headers: { ...corsHeaders(origin), "Cache-Control": "no-store" } }
         );
       }
-      
-      // POST /api/echo - Echo endpoint for testing
-      if (url.pathname === "/api/echo" && method === "POST") {
-        const body = await request.json();
+
+      // GET /api/market/health - Circuit state and latency of this worker's exchange requests
+      if (url.pathname === "/api/market/health" && method === "GET") {
         return Response.json(
-          { 
-            echo: body,
-            headers: Object.fromEntries(request.headers.entries()),
-            timestamp: new Date().toISOString()
-          },
+          { exchanges: ExchangeAPI.getHealth() },
           { headers: corsHeaders(origin) }
         );
       }
-      
+
+      // GET /api/account/balances|positions|orders?exchange=&tradingType=[&symbol=]
+      // with Authorization: Bearer <ACCOUNT_API_TOKEN>
+      if (url.pathname.startsWith("/api/account/") && method === "GET") {
+        return await accountResponse(url.pathname.slice("/api/account/".length), request, env, params, origin);
+      }
+
       // 404 for unmatched routes
       return Response.json(
-        { error: "Not Found", path: url.pathname },
+        { error: { kind: "not-found", message: `No route for ${url.pathname}` } },
         { status: 404, headers: corsHeaders(origin) }
       );
-      
+
     } catch (error) {
-      console.error("API Error:", error);
-      return Response.json(
-        { error: "Internal Server Error" },
-        { status: 500, headers: corsHeaders(origin) }
-      );
+      return errorResponse(error, origin);
     }
   }
 };
-
-// You can also define environment bindings interface for type safety
-// interface Env {
-//   DB: D1Database;           // For SQL database
-//   KV: KVNamespace;          // For key-value storage
-//   BUCKET: R2Bucket;         // For file storage
-//   API_KEY: string;          // For secrets
-// } 
\ No newline at end of file
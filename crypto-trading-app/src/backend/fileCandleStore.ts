@@ -0,0 +1,41 @@
+// Server-side candle store: one JSON file per series under a cache directory.
+// Runs under Node or Deno with a writable filesystem (not on Workers).
+
+import { mkdir, readFile, rm, writeFile, rename } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CandleCacheKey, CandleStore, KlineData } from '../types/exchange';
+import { getCandleCacheKey } from '../services/candleStores';
+
+export class FileCandleStore implements CandleStore {
+  constructor(private readonly directory: string = './.cache/candles') {}
+
+  async get(key: CandleCacheKey): Promise<KlineData[] | undefined> {
+    try {
+      const contents = await readFile(this.getPath(key), 'utf8');
+      return JSON.parse(contents) as KlineData[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async set(key: CandleCacheKey, klines: KlineData[]): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    
+    // Write then rename so readers never see a half-written file
+    const path = this.getPath(key);
+    const tempPath = `${path}.${Date.now()}.tmp`;
+    await writeFile(tempPath, JSON.stringify(klines));
+    await rename(tempPath, path);
+  }
+
+  async delete(key: CandleCacheKey): Promise<void> {
+    await rm(this.getPath(key), { force: true });
+  }
+
+  // Hex keeps 1m and 1M apart on case-insensitive filesystems
+  private getPath(key: CandleCacheKey): string {
+    const fileName = Buffer.from(getCandleCacheKey(key)).toString('hex');
+    return join(this.directory, `${fileName}.json`);
+  }
+}
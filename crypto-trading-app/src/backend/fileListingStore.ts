@@ -0,0 +1,59 @@
+// Server-side listing history: one JSON file per market snapshot and an
+// append-only JSON Lines event log under a directory.
+// Runs under Node or Deno with a writable filesystem (not on Workers).
+
+import { appendFile, mkdir, readFile, writeFile, rename } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ListingKey, ListingEvent, ListingHistoryStore, InstrumentSnapshot } from '../types/exchange';
+import { getListingKey, matchesListingFilter } from '../services/listingStores';
+
+async function readOptional(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+export class FileListingStore implements ListingHistoryStore {
+  constructor(private readonly directory: string = './.cache/listings') {}
+
+  async getSnapshot(key: ListingKey): Promise<InstrumentSnapshot | undefined> {
+    const contents = await readOptional(this.getSnapshotPath(key));
+    return contents === undefined ? undefined : JSON.parse(contents) as InstrumentSnapshot;
+  }
+
+  async setSnapshot(snapshot: InstrumentSnapshot): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    // Write then rename so readers never see a half-written file
+    const path = this.getSnapshotPath(snapshot);
+    const tempPath = `${path}.${Date.now()}.tmp`;
+    await writeFile(tempPath, JSON.stringify(snapshot));
+    await rename(tempPath, path);
+  }
+
+  async appendEvents(events: ListingEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    await mkdir(this.directory, { recursive: true });
+    await appendFile(this.getEventsPath(), events.map(event => `${JSON.stringify(event)}\n`).join(''));
+  }
+
+  async getEvents(key?: ListingKey, since?: number): Promise<ListingEvent[]> {
+    const contents = await readOptional(this.getEventsPath()) ?? '';
+    return contents
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line) as ListingEvent)
+      .filter(event => matchesListingFilter(event, key, since));
+  }
+
+  private getSnapshotPath(key: ListingKey): string {
+    return join(this.directory, `${getListingKey(key).replace(':', '-')}.json`);
+  }
+
+  private getEventsPath(): string {
+    return join(this.directory, 'events.jsonl');
+  }
+}
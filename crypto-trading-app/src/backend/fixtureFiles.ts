@@ -0,0 +1,28 @@
+// Fixture files on disk, for recording live exchange responses and replaying
+// them in development and tests. Runs under Node or Deno (not on Workers).
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { FixtureSet } from '../types/exchange';
+import { parseFixtureSet, recordFixtures } from '../services/exchanges/fixtures';
+
+export async function readFixtureFile(path: string): Promise<FixtureSet> {
+  return parseFixtureSet(JSON.parse(await readFile(path, 'utf8')));
+}
+
+export async function writeFixtureFile(path: string, fixtures: FixtureSet): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(fixtures, null, 2));
+}
+
+/**
+ * Run `run` against the live exchanges and save every response it triggered,
+ * e.g. `recordFixtureFile('public/fixtures/market.json', () => ExchangeAPI.getKlineData(...))`
+ */
+export async function recordFixtureFile(path: string, run: () => Promise<unknown>): Promise<FixtureSet> {
+  const fixtures = await recordFixtures(async () => {
+    await run();
+  });
+  await writeFixtureFile(path, fixtures);
+  return fixtures;
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { ExchangeAPI, describeExchangeError } from "@/services/exchangeAPI";
+import { MarketDataClient } from "@/services/marketDataClient";
+import { CandleCloseScheduler } from "@/services/candleScheduler";
+import { TechnicalAnalysisService } from "@/services/technicalAnalysis";
+import type { Exchange, TradingType, Timeframe, CustomTimeframe } from "@/types/exchange";
+
+// The exchange may publish the final candle a moment after the close, and
+// proxied responses may be cached for a few seconds
+const CONFIRM_RETRIES = 5;
+const CONFIRM_RETRY_DELAY = 2000;
+
+export type CandleCloseAnalysis = ReturnType<typeof TechnicalAnalysisService.analyzeData>;
+
+// Tick size and funding refine the analysis; it goes ahead without them
+function optional<T>(input: Promise<T>, description: string, symbol: string): Promise<T | undefined> {
+  return input.catch(err => {
+    console.warn(`Analyzing without ${description}: ${describeExchangeError(err, symbol)}`);
+    return undefined;
+  });
+}
+
+/**
+ * Technical analysis over closed candles only, rerun each time a candle
+ * closes on the exchange's clock rather than on a polling interval. A null
+ * symbol (a pair the exchange does not list) analyzes nothing.
+ */
+export function useCandleCloseAnalysis(
+  exchange: Exchange,
+  tradingType: TradingType,
+  symbol: string | null,
+  timeframe: Timeframe | CustomTimeframe,
+  limit: number = 500
+) {
+  const [analysis, setAnalysis] = useState<CandleCloseAnalysis | null>(null);
+  const [lastCloseTime, setLastCloseTime] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (symbol === null) {
+      setAnalysis(null);
+      setLastCloseTime(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const clock = MarketDataClient.getClock(exchange, tradingType);
+    const scheduler = new CandleCloseScheduler(clock);
+    // Resolved once; each run waits for it
+    const instrument = MarketDataClient.getInstrument(exchange, tradingType, symbol);
+
+    // Waits until the candle that just closed shows up as closed
+    const run = async (closedOpenTime?: number) => {
+      try {
+        const resolved = await instrument;
+        if (cancelled) return;
+
+        for (let attempt = 1; ; attempt++) {
+          // With taker buy volume, which the volume delta reads
+          const klines = await MarketDataClient.getOrderFlowKlines(exchange, tradingType, symbol, timeframe, limit);
+          if (cancelled) return;
+
+          const now = clock.now();
+          const closed = klines.filter(kline => kline.isClosed !== false && kline.closeTime < now);
+          const last = closed[closed.length - 1];
+          const confirmed = closedOpenTime === undefined || (last !== undefined && last.openTime >= closedOpenTime);
+
+          if (confirmed || attempt >= CONFIRM_RETRIES) {
+            // After a failover, tick size and funding belong to the market that served the candles
+            const source = last?.source ?? { exchange, tradingType, symbol };
+            const [symbolInfo, derivatives] = await Promise.all([
+              optional(MarketDataClient.getSymbolInfo(source.exchange, source.tradingType, source.symbol), "symbol info", source.symbol),
+              ExchangeAPI.hasDerivativesData(source.exchange, source.tradingType)
+                ? optional(MarketDataClient.getDerivativesContext(source.exchange, source.tradingType, source.symbol), "funding and open interest", source.symbol)
+                : undefined
+            ]);
+            if (cancelled) return;
+
+            setAnalysis(TechnicalAnalysisService.analyzeData(resolved, timeframe, closed, symbolInfo, derivatives));
+            setLastCloseTime(last?.closeTime ?? null);
+            setError(null);
+            return;
+          }
+
+          await new Promise(resolve => setTimeout(resolve, CONFIRM_RETRY_DELAY));
+          if (cancelled) return;
+        }
+      } catch (err) {
+        if (!cancelled) setError(describeExchangeError(err, symbol));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    setLoading(true);
+    run();
+    const unsubscribe = scheduler.onClose(timeframe, close => run(close.openTime));
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      scheduler.stop();
+    };
+  }, [exchange, tradingType, symbol, timeframe, limit]);
+
+  return { analysis, lastCloseTime, loading, error };
+}
@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+import { MarketDataClient } from "@/services/marketDataClient";
+import type { Exchange, ExchangeHealth } from "@/types/exchange";
+
+const REFRESH_INTERVAL = 2000;
+
+/**
+ * Health snapshot for one exchange, re-read every couple of seconds
+ */
+export function useExchangeHealth(exchange: Exchange): ExchangeHealth | undefined {
+  const [health, setHealth] = useState<ExchangeHealth | undefined>();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const read = async () => {
+      try {
+        const snapshot = await MarketDataClient.getHealth();
+        if (!cancelled) setHealth(snapshot.find(h => h.exchange === exchange));
+      } catch {
+        // Keep the last snapshot; the market data hooks report the failure
+      }
+    };
+
+    read();
+    const interval = setInterval(read, REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [exchange]);
+
+  return health;
+}
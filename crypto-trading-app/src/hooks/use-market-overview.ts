@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { describeExchangeError } from "@/services/exchangeAPI";
+import { MarketDataClient } from "@/services/marketDataClient";
+import type { Exchange, TradingType, TickerData, SymbolQuery } from "@/types/exchange";
+
+const REFRESH_INTERVAL = 5000;
+
+/**
+ * Most traded symbols matching a query, refreshed every few seconds
+ */
+export function useMarketOverview(
+  exchange: Exchange,
+  tradingType: TradingType,
+  query: SymbolQuery,
+  limit: number = 10
+) {
+  const [tickers, setTickers] = useState<TickerData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+
+  // Callers usually pass a fresh object each render; compare by value
+  const queryKey = JSON.stringify(query);
+
+  useEffect(() => {
+    let cancelled = false;
+    const symbolQuery = JSON.parse(queryKey) as SymbolQuery;
+
+    const load = async () => {
+      try {
+        const symbols = await MarketDataClient.querySymbols(exchange, tradingType, symbolQuery);
+        const result = await MarketDataClient.getTickers(exchange, tradingType, symbols.map(s => s.symbol));
+        if (cancelled) return;
+
+        setTickers(
+          result
+            .sort((a, b) => parseFloat(b.quoteVolume) - parseFloat(a.quoteVolume))
+            .slice(0, limit)
+        );
+        setError(null);
+        setUpdatedAt(Date.now());
+      } catch (err) {
+        if (cancelled) return;
+        setError(describeExchangeError(err));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    setLoading(true);
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [exchange, tradingType, queryKey, limit]);
+
+  return { tickers, loading, error, updatedAt };
+}
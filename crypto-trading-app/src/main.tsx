@@ -2,9 +2,33 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { ExchangeAPI } from './services/exchangeAPI'
+import { IndexedDBCandleStore } from './services/candleStores'
+import { loadFixtures } from './services/exchanges/fixtures'
+import { MarketDataClient } from './services/marketDataClient'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// VITE_EXCHANGE_FIXTURES=/fixtures/market.json replays recorded responses instead of calling the exchanges
+const fixturesUrl = import.meta.env.VITE_EXCHANGE_FIXTURES
+
+// Market data goes through the backend unless fixtures are replayed or VITE_MARKET_DATA=direct
+const direct = Boolean(fixturesUrl) || import.meta.env.VITE_MARKET_DATA === 'direct'
+MarketDataClient.setMode(direct ? 'direct' : 'proxy', import.meta.env.VITE_MARKET_API_URL)
+
+if (fixturesUrl) {
+  // Cached candles would hide what the fixtures contain
+  ExchangeAPI.setCandleStore(null)
+} else if (direct && typeof indexedDB !== 'undefined') {
+  ExchangeAPI.setCandleStore(new IndexedDBCandleStore())
+}
+
+const ready = fixturesUrl
+  ? loadFixtures(fixturesUrl).catch(error => console.error('Failed to load exchange fixtures:', error))
+  : Promise.resolve()
+
+ready.then(() => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>,
+  )
+})
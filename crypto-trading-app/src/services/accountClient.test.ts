@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHmac } from 'node:crypto';
+import type { ApiKeyPair, HttpTransport } from '../types/exchange';
+import { AccountClient } from './accountClient';
+import { setHttpTransport } from './exchanges/http';
+import { SignedEndpointStandIn, type SignedStandInOptions } from './exchanges/signedStandIn';
+import { hmacSha256Hex, importSigningKey } from './exchanges/signing';
+import { getExchangeClock } from './exchangeClock';
+
+const NOW = 1718784000000;
+
+// The example key pair from the Binance API docs
+const keys: ApiKeyPair = {
+  apiKey: 'vmPUZE6mv9SD5VNHk4HlWFsOr6aKE2zvsw0MuIgwCIPy6utIco14y7Ju91duEh8A',
+  apiSecret: 'NhqPtmdSJYdKjVHjA7PZj4Mge3R5YNiP1e3UZjInClVN65XAbvqqM6A7H5fATj0j'
+};
+
+// Zero balances are left out, as asked with omitZeroBalances
+const BINANCE_ACCOUNT = {
+  balances: [{ asset: 'BTC', free: '0.5', locked: '0.1' }],
+  updateTime: NOW
+};
+
+const BYBIT_WALLET = {
+  retCode: 0,
+  retMsg: 'OK',
+  result: {
+    list: [{
+      accountType: 'UNIFIED',
+      coin: [{ coin: 'USDT', walletBalance: '1000', locked: '0', totalOrderIM: '50', totalPositionIM: '150', unrealisedPnl: '12.5' }]
+    }]
+  },
+  time: NOW
+};
+
+interface SentRequest {
+  url: URL;
+  headers: Headers;
+}
+
+let sent: SentRequest[];
+let standIn: SignedEndpointStandIn;
+
+// Serve through a fresh stand-in, keeping every request as the exchange received it
+function serve(options: Omit<SignedStandInOptions, 'keys'>): void {
+  sent = [];
+  standIn = new SignedEndpointStandIn({ keys, ...options });
+  const transport: HttpTransport = (url, init) => {
+    sent.push({ url: new URL(url), headers: new Headers(init.headers) });
+    return standIn.transport(url, init);
+  };
+  setHttpTransport(transport);
+}
+
+function hmac(payload: string): string {
+  return createHmac('sha256', keys.apiSecret).update(payload).digest('hex');
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setHttpTransport(null);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('request signatures', () => {
+  it('matches the signature in the Binance API docs', async () => {
+    const query = 'symbol=LTCBTC&side=BUY&type=LIMIT&timeInForce=GTC&quantity=1&price=0.1&recvWindow=5000&timestamp=1499827319559';
+
+    expect(await hmacSha256Hex(await importSigningKey(keys.apiSecret), query))
+      .toBe('c8db56825ae71d6d79447849e617115f4a920fa2acdcab2b053c4b2838bd6b71');
+  });
+
+  it('signs Binance requests over the query with recvWindow and the exchange timestamp', async () => {
+    serve({ exchange: 'binance', responses: { '/api/v3/account': BINANCE_ACCOUNT }, clockOffsetMs: 250 });
+    const client = await AccountClient.create('binance', keys);
+
+    const balances = await client.getBalances('spot');
+
+    const request = sent.find(({ url }) => url.pathname === '/api/v3/account')!;
+    const [payload, signature] = request.url.search.slice(1).split('&signature=');
+    expect(payload).toBe(`omitZeroBalances=true&recvWindow=5000&timestamp=${NOW + 250}`);
+    expect(signature).toBe(hmac(payload));
+    expect(request.headers.get('X-MBX-APIKEY')).toBe(keys.apiKey);
+    expect(balances).toEqual([{ asset: 'BTC', free: '0.5', locked: '0.1', total: '0.6' }]);
+  });
+
+  it('signs Bybit requests over timestamp, key, recvWindow and query in headers', async () => {
+    serve({ exchange: 'bybit', responses: { '/v5/account/wallet-balance': BYBIT_WALLET }, clockOffsetMs: -400 });
+    const client = await AccountClient.create('bybit', keys);
+
+    const [usdt] = await client.getBalances('futures');
+
+    const request = sent.find(({ url }) => url.pathname === '/v5/account/wallet-balance')!;
+    const timestamp = String(NOW - 400);
+    expect(request.url.search).toBe('?accountType=UNIFIED');
+    expect(request.headers.get('X-BAPI-TIMESTAMP')).toBe(timestamp);
+    expect(request.headers.get('X-BAPI-RECV-WINDOW')).toBe('5000');
+    expect(request.headers.get('X-BAPI-SIGN')).toBe(hmac(`${timestamp}${keys.apiKey}5000accountType=UNIFIED`));
+    expect(usdt).toMatchObject({ asset: 'USDT', locked: '200', free: '800', total: '1000', unrealizedPnl: '12.5' });
+  });
+
+  it('reports keys the exchange does not know as unauthorized', async () => {
+    serve({ exchange: 'binance', responses: { '/fapi/v2/balance': [] } });
+    const client = await AccountClient.create('binance', { ...keys, apiKey: 'unknown' });
+
+    await expect(client.getBalances('futures')).rejects.toMatchObject({ kind: 'unauthorized', code: -2015 });
+  });
+});
+
+describe('clock skew', () => {
+  it('resyncs the clock and retries once when the exchange rejects the timestamp', async () => {
+    serve({ exchange: 'binance', responses: { '/dapi/v1/balance': [] } });
+    const client = await AccountClient.create('binance', keys);
+    await client.getBalances('inverse');
+    expect(getExchangeClock('binance', 'inverse').getOffset()).toBe(0);
+
+    // The exchange's clock jumps ahead past recvWindow
+    serve({ exchange: 'binance', responses: { '/dapi/v1/balance': [] }, clockOffsetMs: 8000 });
+    await expect(client.getBalances('inverse')).resolves.toEqual([]);
+
+    expect(standIn.received).toEqual(['/dapi/v1/balance', '/dapi/v1/time', '/dapi/v1/time', '/dapi/v1/time', '/dapi/v1/balance']);
+    const timestamps = sent
+      .filter(({ url }) => url.pathname === '/dapi/v1/balance')
+      .map(({ url }) => Number(url.searchParams.get('timestamp')));
+    expect(timestamps).toEqual([NOW, NOW + 8000]);
+    expect(getExchangeClock('binance', 'inverse').getOffset()).toBe(8000);
+  });
+
+  it('gives up after one retry when the clock stays off', async () => {
+    // Timestamps older than the window fail however the clock is synced
+    serve({ exchange: 'bybit', responses: { '/v5/account/wallet-balance': BYBIT_WALLET } });
+    const client = new AccountClient('bybit', { apiKey: keys.apiKey, signingKey: await importSigningKey(keys.apiSecret) }, { recvWindow: -1 });
+
+    await expect(client.getBalances('spot')).rejects.toMatchObject({ kind: 'clock-skew', code: 10002 });
+    expect(standIn.received.filter(path => path === '/v5/account/wallet-balance')).toHaveLength(2);
+  });
+});
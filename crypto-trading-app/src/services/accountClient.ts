@@ -0,0 +1,86 @@
+import type {
+  Exchange,
+  TradingType,
+  ExchangeAdapter,
+  AccountDataAdapter,
+  AccountCredentials,
+  ApiKeyPair,
+  SigningContext,
+  AccountBalance,
+  Position,
+  OpenOrder
+} from '../types/exchange';
+import { getExchangeAdapter } from './exchanges/registry';
+import { isExchangeError } from './exchanges/errors';
+import { importCredentials } from './exchanges/signing';
+import { getExchangeClock } from './exchangeClock';
+
+export interface AccountClientOptions {
+  // Overrides the adapter's default recvWindow
+  recvWindow?: number;
+}
+
+/**
+ * Signed account data for one exchange, for server-side use only. Request
+ * timestamps come from the shared ExchangeClock so they land inside
+ * recvWindow; the clock is resynced when the exchange rejects one.
+ */
+export class AccountClient {
+  private readonly adapter: ExchangeAdapter;
+  private readonly account: AccountDataAdapter;
+  private readonly recvWindow: number;
+
+  constructor(
+    readonly exchange: Exchange,
+    private readonly credentials: AccountCredentials,
+    options: AccountClientOptions = {}
+  ) {
+    this.adapter = getExchangeAdapter(exchange);
+    if (!this.adapter.account || !this.adapter.getServerTime) {
+      throw new Error(`${this.adapter.name} does not support account data`);
+    }
+    this.account = this.adapter.account;
+    this.recvWindow = options.recvWindow ?? this.account.recvWindow;
+  }
+
+  /**
+   * Client for a raw key pair. The secret is imported as a non-extractable
+   * signing key and not kept.
+   */
+  static async create(exchange: Exchange, keys: ApiKeyPair, options: AccountClientOptions = {}): Promise<AccountClient> {
+    return new AccountClient(exchange, await importCredentials(keys), options);
+  }
+
+  getBalances(tradingType: TradingType): Promise<AccountBalance[]> {
+    return this.signed(tradingType, context => this.account.getBalances(context, tradingType));
+  }
+
+  getPositions(tradingType: TradingType): Promise<Position[]> {
+    return this.signed(tradingType, context => this.account.getPositions(context, tradingType));
+  }
+
+  getOpenOrders(tradingType: TradingType, symbol?: string): Promise<OpenOrder[]> {
+    return this.signed(tradingType, context => this.account.getOpenOrders(context, tradingType, symbol));
+  }
+
+  private async signed<T>(tradingType: TradingType, request: (context: SigningContext) => Promise<T>): Promise<T> {
+    const clock = getExchangeClock(this.exchange, tradingType);
+    await clock.ensureSynced();
+
+    const context: SigningContext = {
+      ...this.credentials,
+      now: () => clock.now(),
+      recvWindow: this.recvWindow
+    };
+
+    try {
+      return await request(context);
+    } catch (error) {
+      if (!isExchangeError(error) || error.kind !== 'clock-skew') throw error;
+
+      console.warn(`${this.adapter.name} rejected a request timestamp, resyncing the clock`);
+      await clock.sync();
+      return request(context);
+    }
+  }
+}
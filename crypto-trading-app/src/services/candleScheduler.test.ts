@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CandleClose } from './candleScheduler';
+import { CandleCloseScheduler } from './candleScheduler';
+import { ExchangeClock } from './exchangeClock';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2024, 5, 19, 8, 0, 30);
+
+// An exchange clock whose offset the test can move; syncs take no time
+function clockAhead(offsets: number[], maxAgeMs?: number) {
+  const readServerTime = vi.fn(async () => Date.now() + (offsets.length > 1 ? offsets.shift()! : offsets[0]));
+  return new ExchangeClock('Test', readServerTime, { samples: 1, maxAgeMs });
+}
+
+function listen(scheduler: CandleCloseScheduler, timeframe: '1m' | '1h' = '1m') {
+  const closes: CandleClose[] = [];
+  scheduler.onClose(timeframe, close => closes.push(close));
+  return closes;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(START);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('CandleCloseScheduler', () => {
+  it('reports each close once, with the candle that closed', async () => {
+    const scheduler = new CandleCloseScheduler(clockAhead([0]));
+    const closes = listen(scheduler);
+
+    await vi.advanceTimersByTimeAsync(29999);
+    expect(closes).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    expect(closes).toEqual([
+      { timeframe: '1m', openTime: Date.UTC(2024, 5, 19, 8, 0), closeTime: Date.UTC(2024, 5, 19, 8, 1) - 1 },
+      { timeframe: '1m', openTime: Date.UTC(2024, 5, 19, 8, 1), closeTime: Date.UTC(2024, 5, 19, 8, 2) - 1 }
+    ]);
+    scheduler.stop();
+  });
+
+  it('fires on the exchange\'s clock rather than the local one', async () => {
+    // The exchange is five seconds ahead
+    const scheduler = new CandleCloseScheduler(clockAhead([5000]));
+    const closes = listen(scheduler);
+    await vi.advanceTimersByTimeAsync(0);
+
+    await vi.advanceTimersByTimeAsync(24999);
+    expect(closes).toHaveLength(0);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(closes).toHaveLength(1);
+    scheduler.stop();
+  });
+
+  it('waits the configured delay after the close', async () => {
+    const scheduler = new CandleCloseScheduler(clockAhead([0]), { delayMs: 2000 });
+    const closes = listen(scheduler);
+
+    await vi.advanceTimersByTimeAsync(31999);
+    expect(closes).toHaveLength(0);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(closes).toEqual([
+      { timeframe: '1m', openTime: Date.UTC(2024, 5, 19, 8, 0), closeTime: Date.UTC(2024, 5, 19, 8, 1) - 1 }
+    ]);
+    scheduler.stop();
+  });
+
+  it('reports closes missed while timers were suspended once, for the latest candle', async () => {
+    const scheduler = new CandleCloseScheduler(clockAhead([0]));
+    const closes = listen(scheduler);
+    await vi.advanceTimersByTimeAsync(0);
+
+    // The machine sleeps through three closes; the pending timer fires late
+    vi.setSystemTime(Date.UTC(2024, 5, 19, 8, 3, 40));
+    await vi.advanceTimersByTimeAsync(30000);
+
+    expect(closes).toEqual([
+      { timeframe: '1m', openTime: Date.UTC(2024, 5, 19, 8, 3), closeTime: Date.UTC(2024, 5, 19, 8, 4) - 1 }
+    ]);
+
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    expect(closes.map(close => close.openTime)).toEqual([Date.UTC(2024, 5, 19, 8, 3), Date.UTC(2024, 5, 19, 8, 4)]);
+    scheduler.stop();
+  });
+
+  it('never reports a close twice when a resync moves the clock back', async () => {
+    // In step at first; the resync after the first close finds the exchange two seconds behind
+    const scheduler = new CandleCloseScheduler(clockAhead([0, -2000], 0));
+    const closes = listen(scheduler);
+
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(closes).toHaveLength(1);
+
+    // The exchange's clock reads 08:00:59 again, still in the candle just reported
+    await vi.advanceTimersByTimeAsync(MINUTE + 1999);
+    expect(closes).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(closes.map(close => close.openTime)).toEqual([Date.UTC(2024, 5, 19, 8, 0), Date.UTC(2024, 5, 19, 8, 1)]);
+    scheduler.stop();
+  });
+
+  it('re-arms earlier when a resync moves the clock forward', async () => {
+    const scheduler = new CandleCloseScheduler(clockAhead([0, 10000], 0));
+    const closes = listen(scheduler);
+
+    await vi.advanceTimersByTimeAsync(30000);
+    await vi.advanceTimersByTimeAsync(MINUTE - 10000);
+
+    expect(closes.map(close => close.openTime)).toEqual([Date.UTC(2024, 5, 19, 8, 0), Date.UTC(2024, 5, 19, 8, 1)]);
+    scheduler.stop();
+  });
+
+  it('stops reporting once the last listener unsubscribes', async () => {
+    const scheduler = new CandleCloseScheduler(clockAhead([0]));
+    const listener = vi.fn();
+    const unsubscribe = scheduler.onClose('1h', listener);
+
+    expect(scheduler.getNextClose('1h')).toBe(Date.UTC(2024, 5, 19, 9));
+    unsubscribe();
+    await vi.advanceTimersByTimeAsync(60 * MINUTE);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,120 @@
+import type { Timeframe, CustomTimeframe } from '../types/exchange';
+import type { ExchangeClock } from './exchangeClock';
+import { getOpenTime, getNextOpenTime, shiftOpenTime } from './timeframes';
+
+export interface CandleClose {
+  timeframe: Timeframe | CustomTimeframe;
+  // The candle that just closed
+  openTime: number;
+  closeTime: number;
+}
+
+export interface CandleSchedulerOptions {
+  // Fire this long after the close, giving the exchange time to publish the final candle
+  delayMs?: number;
+}
+
+type CloseListener = (close: CandleClose) => void;
+
+interface Schedule {
+  listeners: Set<CloseListener>;
+  timer: ReturnType<typeof setTimeout> | null;
+  // Exchange time of the close to report next
+  nextClose: number;
+  // Of the last close reported, so a clock correction cannot report it twice
+  lastClose?: number;
+}
+
+// setTimeout holds at most a signed 32-bit delay; longer waits (monthly candles) are chained
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Calls listeners when a candle of a timeframe closes, timed by the
+ * exchange's clock rather than the local one. A close missed while timers
+ * were suspended (a sleeping laptop, a background tab) is reported once, for
+ * the latest candle, when they run again.
+ */
+export class CandleCloseScheduler {
+  private readonly schedules = new Map<Timeframe | CustomTimeframe, Schedule>();
+  private readonly delayMs: number;
+
+  constructor(private readonly clock: ExchangeClock, options: CandleSchedulerOptions = {}) {
+    this.delayMs = options.delayMs ?? 0;
+  }
+
+  onClose(timeframe: Timeframe | CustomTimeframe, listener: CloseListener): () => void {
+    let schedule = this.schedules.get(timeframe);
+    if (!schedule) {
+      schedule = { listeners: new Set(), timer: null, nextClose: this.getNextClose(timeframe) };
+      this.schedules.set(timeframe, schedule);
+      this.arm(timeframe);
+      this.resync();
+    }
+    schedule.listeners.add(listener);
+
+    return () => {
+      const current = this.schedules.get(timeframe);
+      if (!current) return;
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0) {
+        if (current.timer) clearTimeout(current.timer);
+        this.schedules.delete(timeframe);
+      }
+    };
+  }
+
+  /**
+   * Exchange time at which the current candle closes, i.e. the next one opens
+   */
+  getNextClose(timeframe: Timeframe | CustomTimeframe): number {
+    return getNextOpenTime(getOpenTime(this.clock.now() - this.delayMs, timeframe), timeframe);
+  }
+
+  stop(): void {
+    this.schedules.forEach(schedule => {
+      if (schedule.timer) clearTimeout(schedule.timer);
+    });
+    this.schedules.clear();
+  }
+
+  private arm(timeframe: Timeframe | CustomTimeframe): void {
+    const schedule = this.schedules.get(timeframe);
+    if (!schedule) return;
+    if (schedule.timer) clearTimeout(schedule.timer);
+
+    const wait = schedule.nextClose + this.delayMs - this.clock.now();
+    if (wait > 0) {
+      // Timers may fire early, or the clock may be resynced meanwhile; arm checks again
+      schedule.timer = setTimeout(() => this.arm(timeframe), Math.min(wait, MAX_TIMER_DELAY_MS));
+      return;
+    }
+
+    schedule.timer = null;
+    const currentOpen = getOpenTime(this.clock.now() - this.delayMs, timeframe);
+    const close: CandleClose = {
+      timeframe,
+      openTime: shiftOpenTime(currentOpen, timeframe, -1),
+      closeTime: currentOpen - 1
+    };
+
+    schedule.lastClose = currentOpen;
+    schedule.nextClose = getNextOpenTime(currentOpen, timeframe);
+    this.arm(timeframe);
+    schedule.listeners.forEach(listener => listener(close));
+    this.resync();
+  }
+
+  // Keep the clock fresh. A new offset can move the next close either way,
+  // so every timer is re-armed against it.
+  private resync(): void {
+    this.clock.ensureSynced()
+      .then(() => this.schedules.forEach((schedule, timeframe) => {
+        const nextClose = this.getNextClose(timeframe);
+        schedule.nextClose = schedule.lastClose !== undefined && nextClose <= schedule.lastClose
+          ? getNextOpenTime(schedule.lastClose, timeframe)
+          : nextClose;
+        this.arm(timeframe);
+      }))
+      .catch(error => console.warn(`Could not sync the ${this.clock.name} clock:`, error));
+  }
+}
@@ -0,0 +1,78 @@
+import type { CandleCacheKey, CandleStore, KlineData } from '../types/exchange';
+
+export function getCandleCacheKey(key: CandleCacheKey): string {
+  return `${key.exchange}:${key.tradingType}:${key.symbol}:${key.timeframe}`;
+}
+
+/**
+ * In-process store; lost on reload
+ */
+export class MemoryCandleStore implements CandleStore {
+  private readonly entries = new Map<string, KlineData[]>();
+
+  async get(key: CandleCacheKey): Promise<KlineData[] | undefined> {
+    return this.entries.get(getCandleCacheKey(key));
+  }
+
+  async set(key: CandleCacheKey, klines: KlineData[]): Promise<void> {
+    this.entries.set(getCandleCacheKey(key), klines);
+  }
+
+  async delete(key: CandleCacheKey): Promise<void> {
+    this.entries.delete(getCandleCacheKey(key));
+  }
+}
+
+const DB_VERSION = 1;
+const STORE_NAME = 'candles';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Browser store backed by IndexedDB, one record per series
+ */
+export class IndexedDBCandleStore implements CandleStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = 'crypto-signals') {}
+
+  async get(key: CandleCacheKey): Promise<KlineData[] | undefined> {
+    const store = await this.getStore('readonly');
+    return promisify<KlineData[] | undefined>(store.get(getCandleCacheKey(key)));
+  }
+
+  async set(key: CandleCacheKey, klines: KlineData[]): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisify(store.put(klines, getCandleCacheKey(key)));
+  }
+
+  async delete(key: CandleCacheKey): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisify(store.delete(getCandleCacheKey(key)));
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      this.db = promisify(request);
+      // Allow a retry after a failed open
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,315 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import type { Exchange, KlineData } from '../types/exchange';
+import { readFixtureFile } from '../backend/fixtureFiles';
+import { replayFixtures } from './exchanges/fixtures';
+import { ExchangeAPI } from './exchangeAPI';
+import { MemoryCandleStore } from './candleStores';
+import { isCrowdedLong } from './technicalAnalysis';
+
+const MINUTE = 60 * 1000;
+const NOW = Date.UTC(2024, 5, 19, 8, 0, 30);
+const FORMING = Date.UTC(2024, 5, 19, 8);
+
+// A venue with a 1m candle at every minute up to the forming one. Ranged
+// requests also get the candle before the range, as exchanges repeat the
+// boundary candle, so consecutive pages overlap.
+function venue(exchange: Exchange) {
+  const requests: URLSearchParams[] = [];
+  const urls: string[] = [];
+
+  const candle = (openTime: number) => {
+    const price = (60000 + (openTime / MINUTE) % 50).toFixed(1);
+    return { openTime, price };
+  };
+
+  const select = (from: number | undefined, to: number | undefined, limit: number) => {
+    const latest = Math.min(to ?? Infinity, Date.now());
+    const last = Math.floor(latest / MINUTE) * MINUTE;
+    const first = from !== undefined ? Math.ceil(from / MINUTE) * MINUTE - MINUTE : last - (limit - 1) * MINUTE;
+    const candles: Array<{ openTime: number; price: string }> = [];
+    for (let openTime = Math.max(first, last - limit * MINUTE); openTime <= last; openTime += MINUTE) {
+      candles.push(candle(openTime));
+    }
+    return candles;
+  };
+
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    urls.push(url);
+    const params = new URL(url).searchParams;
+    requests.push(params);
+    const limit = parseInt(params.get('limit')!);
+
+    if (exchange === 'binance') {
+      const start = params.get('startTime');
+      const end = params.get('endTime');
+      const candles = select(start ? parseInt(start) : undefined, end ? parseInt(end) : undefined, limit);
+      return Response.json(candles.map(({ openTime, price }) => [
+        openTime, price, price, price, price, '1.000', openTime + MINUTE - 1, price, 10, '0.500', '0', '0'
+      ]));
+    }
+
+    if (exchange === 'bybit') {
+      const start = params.get('start');
+      const end = params.get('end');
+      const candles = select(start ? parseInt(start) : undefined, end ? parseInt(end) : undefined, limit).reverse();
+      return Response.json({
+        retCode: 0,
+        retMsg: 'OK',
+        result: {
+          symbol: params.get('symbol'),
+          category: params.get('category'),
+          list: candles.map(({ openTime, price }) => [`${openTime}`, price, price, price, price, '1', price])
+        }
+      });
+    }
+
+    // OKX bounds are exclusive
+    const after = params.get('after');
+    const before = params.get('before');
+    const candles = select(before ? parseInt(before) + 1 : undefined, after ? parseInt(after) - 1 : undefined, limit).reverse();
+    return Response.json({
+      code: '0',
+      msg: '',
+      data: candles.map(({ openTime, price }) => [
+        `${openTime}`, price, price, price, price, '1', '1', price, openTime + MINUTE <= Date.now() ? '1' : '0'
+      ])
+    });
+  }));
+
+  return { requests, urls };
+}
+
+function expectContiguous(klines: KlineData[], from: number, to: number) {
+  expect(klines[0].openTime).toBe(from);
+  expect(klines[klines.length - 1].openTime).toBe(to);
+  expect(klines).toHaveLength((to - from) / MINUTE + 1);
+  klines.forEach((kline, i) => expect(kline.openTime).toBe(from + i * MINUTE));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  ExchangeAPI.setCandleStore(null);
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('getKlineRange', () => {
+  const start = FORMING - 2499 * MINUTE;
+  const end = FORMING - 100 * MINUTE;
+
+  it('pages through Binance 1000 candles at a time', async () => {
+    const { requests } = venue('binance');
+
+    const klines = await ExchangeAPI.getKlineRange('binance', 'spot', 'BTCUSDT', '1m', start, end);
+
+    expectContiguous(klines, start, end);
+    expect(requests.map(params => [params.get('startTime'), params.get('endTime'), params.get('limit')])).toEqual([
+      [`${start}`, `${start + 1000 * MINUTE - 1}`, '1000'],
+      [`${start + 1000 * MINUTE}`, `${start + 2000 * MINUTE - 1}`, '1000'],
+      [`${start + 2000 * MINUTE}`, `${end}`, '1000']
+    ]);
+  });
+
+  it('pages through Bybit, which answers newest first', async () => {
+    const { requests } = venue('bybit');
+
+    const klines = await ExchangeAPI.getKlineRange('bybit', 'futures', 'BTCUSDT', '1m', start, end);
+
+    expectContiguous(klines, start, end);
+    expect(requests.map(params => [params.get('start'), params.get('end')])).toEqual([
+      [`${start}`, `${start + 1000 * MINUTE - 1}`],
+      [`${start + 1000 * MINUTE}`, `${start + 2000 * MINUTE - 1}`],
+      [`${start + 2000 * MINUTE}`, `${end}`]
+    ]);
+  });
+
+  it('pages through OKX history 100 candles at a time with exclusive bounds', async () => {
+    const { urls } = venue('okx');
+    const okxStart = FORMING - 349 * MINUTE;
+
+    const klines = await ExchangeAPI.getKlineRange('okx', 'spot', 'BTC-USDT', '1m', okxStart, end);
+
+    expectContiguous(klines, okxStart, end);
+    expect(urls).toEqual([
+      `https://www.okx.com/api/v5/market/history-candles?instId=BTC-USDT&bar=1m&limit=100&after=${okxStart + 100 * MINUTE}&before=${okxStart - 1}`,
+      `https://www.okx.com/api/v5/market/history-candles?instId=BTC-USDT&bar=1m&limit=100&after=${okxStart + 200 * MINUTE}&before=${okxStart + 100 * MINUTE - 1}`,
+      `https://www.okx.com/api/v5/market/history-candles?instId=BTC-USDT&bar=1m&limit=100&after=${end + 1}&before=${okxStart + 200 * MINUTE - 1}`
+    ]);
+  });
+
+  it('drops the candles an exchange returns outside the range', async () => {
+    venue('binance');
+
+    const klines = await ExchangeAPI.getKlineRange('binance', 'spot', 'BTCUSDT', '1m', end - 10 * MINUTE, end);
+
+    expectContiguous(klines, end - 10 * MINUTE, end);
+  });
+});
+
+describe('getKlineData with a candle store', () => {
+  const key = { exchange: 'binance' as const, tradingType: 'spot' as const, symbol: 'BTCUSDT', timeframe: '1m' as const };
+  let store: MemoryCandleStore;
+
+  beforeEach(() => {
+    store = new MemoryCandleStore();
+    ExchangeAPI.setCandleStore(store);
+  });
+
+  it('fetches the latest candles when the cache is cold and stores the closed ones', async () => {
+    const { urls } = venue('binance');
+
+    const klines = await ExchangeAPI.getKlineData('binance', 'spot', 'BTCUSDT', '1m', 100);
+
+    expectContiguous(klines, FORMING - 99 * MINUTE, FORMING);
+    expect(klines[99].isClosed).toBe(false);
+    expect(urls).toEqual(['https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1m&limit=100']);
+
+    const cached = await store.get(key);
+    expectContiguous(cached!, FORMING - 99 * MINUTE, FORMING - MINUTE);
+    expect(cached!.every(kline => kline.isClosed)).toBe(true);
+  });
+
+  it('tops up a warm cache with only the candles after its last close', async () => {
+    const { requests } = venue('binance');
+    await ExchangeAPI.getKlineData('binance', 'spot', 'BTCUSDT', '1m', 100);
+    vi.setSystemTime(NOW + 5 * MINUTE);
+
+    const klines = await ExchangeAPI.getKlineData('binance', 'spot', 'BTCUSDT', '1m', 100);
+
+    expectContiguous(klines, FORMING - 94 * MINUTE, FORMING + 5 * MINUTE);
+    expect(requests[1].get('startTime')).toBe(`${FORMING}`);
+    expect(requests[1].get('endTime')).toBe(`${NOW + 5 * MINUTE}`);
+    expectContiguous((await store.get(key))!, FORMING - 99 * MINUTE, FORMING + 4 * MINUTE);
+  });
+
+  it('fetches everything again when the cache is too stale to top up', async () => {
+    const { urls } = venue('binance');
+    await ExchangeAPI.getKlineData('binance', 'spot', 'BTCUSDT', '1m', 100);
+    vi.setSystemTime(NOW + 101 * MINUTE);
+
+    const klines = await ExchangeAPI.getKlineData('binance', 'spot', 'BTCUSDT', '1m', 100);
+
+    expectContiguous(klines, FORMING + 2 * MINUTE, FORMING + 101 * MINUTE);
+    expect(urls[1]).toBe('https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1m&limit=100');
+  });
+
+  it('fetches everything again when the cache holds too few candles', async () => {
+    const { urls } = venue('binance');
+    await ExchangeAPI.getKlineData('binance', 'spot', 'BTCUSDT', '1m', 100);
+    vi.setSystemTime(NOW + MINUTE);
+
+    const klines = await ExchangeAPI.getKlineData('binance', 'spot', 'BTCUSDT', '1m', 500);
+
+    expect(klines).toHaveLength(500);
+    expect(urls[1]).toBe('https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1m&limit=500');
+  });
+
+  it('tops up when cache and new candles just fill the request', async () => {
+    const { urls } = venue('binance');
+    await ExchangeAPI.getKlineData('binance', 'spot', 'BTCUSDT', '1m', 100);
+    vi.setSystemTime(NOW + MINUTE);
+
+    // 99 cached and 2 missing cover 101
+    await ExchangeAPI.getKlineData('binance', 'spot', 'BTCUSDT', '1m', 101);
+    expect(new URL(urls[1]).searchParams.get('startTime')).toBe(`${FORMING}`);
+
+    // The same cache falls one short of 103
+    await ExchangeAPI.getKlineData('binance', 'spot', 'BTCUSDT', '1m', 103);
+    expect(urls[2]).toBe('https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1m&limit=103');
+  });
+
+  it('keeps at most 5000 closed candles per series', async () => {
+    venue('binance');
+
+    const klines = await ExchangeAPI.getKlineData('binance', 'spot', 'BTCUSDT', '1m', 6000);
+
+    expect(klines).toHaveLength(6000);
+    expectContiguous((await store.get(key))!, FORMING - 5000 * MINUTE, FORMING - MINUTE);
+  });
+});
+
+describe('derivatives data', () => {
+  // BTCUSDT perpetuals on Binance and Bybit: three funding settlements up to
+  // 08:00 and hourly open interest from 06:00
+  const FIXTURES = fileURLToPath(new URL('./exchanges/__fixtures__/derivatives.json', import.meta.url));
+  const HOUR = 60 * 60 * 1000;
+  let restore: () => void;
+
+  beforeAll(async () => {
+    restore = replayFixtures(await readFixtureFile(FIXTURES));
+  });
+
+  afterAll(() => restore());
+
+  it('offers funding and open interest on derivatives markets only', () => {
+    expect(ExchangeAPI.hasDerivativesData('binance', 'futures')).toBe(true);
+    expect(ExchangeAPI.hasDerivativesData('bybit', 'inverse')).toBe(true);
+    expect(ExchangeAPI.hasDerivativesData('binance', 'spot')).toBe(false);
+    expect(ExchangeAPI.hasDerivativesData('okx', 'futures')).toBe(false);
+  });
+
+  it('lists settled funding oldest first on both exchanges', async () => {
+    const binance = await ExchangeAPI.getFundingRateHistory('binance', 'futures', 'BTCUSDT', 3);
+    const bybit = await ExchangeAPI.getFundingRateHistory('bybit', 'futures', 'BTCUSDT', 3);
+
+    expect(binance).toEqual([
+      { symbol: 'BTCUSDT', fundingTime: FORMING - 16 * HOUR, fundingRate: '0.00010000', markPrice: undefined },
+      { symbol: 'BTCUSDT', fundingTime: FORMING - 8 * HOUR, fundingRate: '0.00025000', markPrice: '65210.40000000' },
+      { symbol: 'BTCUSDT', fundingTime: FORMING, fundingRate: '0.00040000', markPrice: '65480.10000000' }
+    ]);
+    expect(bybit.map(rate => [rate.fundingTime, rate.fundingRate])).toEqual([
+      [FORMING - 16 * HOUR, '-0.00002'],
+      [FORMING - 8 * HOUR, '0.00008'],
+      [FORMING, '0.0001']
+    ]);
+  });
+
+  it('reads the predicted rate for the next settlement', async () => {
+    await expect(ExchangeAPI.getPredictedFunding('binance', 'futures', 'BTCUSDT')).resolves.toEqual({
+      symbol: 'BTCUSDT',
+      fundingRate: '0.00061000',
+      nextFundingTime: FORMING + 8 * HOUR,
+      markPrice: '65502.30000000',
+      indexPrice: '65470.12000000',
+      timestamp: FORMING + MINUTE
+    });
+    await expect(ExchangeAPI.getPredictedFunding('bybit', 'futures', 'BTCUSDT')).resolves.toMatchObject({
+      fundingRate: '0.0001',
+      nextFundingTime: FORMING + 8 * HOUR
+    });
+  });
+
+  it('lists open interest oldest first on both exchanges', async () => {
+    const binance = await ExchangeAPI.getOpenInterestHistory('binance', 'futures', 'BTCUSDT', '1h', 25);
+    const bybit = await ExchangeAPI.getOpenInterestHistory('bybit', 'futures', 'BTCUSDT', '1h', 25);
+
+    expect(binance[0]).toEqual({ symbol: 'BTCUSDT', timestamp: FORMING - 2 * HOUR, openInterest: '80000.000', openInterestValue: '5200000000.00' });
+    expect(bybit.map(point => [point.timestamp, point.openInterest])).toEqual([
+      [FORMING - 2 * HOUR, '48000.000'],
+      [FORMING - HOUR, '52000.000'],
+      [FORMING, '50000.000']
+    ]);
+  });
+
+  it('sums up funding and the open interest change for the crowded-long veto', async () => {
+    const binance = await ExchangeAPI.getDerivativesContext('binance', 'futures', 'BTCUSDT');
+    const bybit = await ExchangeAPI.getDerivativesContext('bybit', 'futures', 'BTCUSDT');
+
+    expect(binance).toEqual({ fundingRate: 0.00061, openInterestChange: 0.125 });
+    expect(isCrowdedLong(binance)).toBe(true);
+    expect(bybit.fundingRate).toBe(0.0001);
+    expect(bybit.openInterestChange).toBeCloseTo(2000 / 48000);
+    expect(isCrowdedLong(bybit)).toBe(false);
+  });
+
+  it('has no derivatives data for spot markets', async () => {
+    await expect(ExchangeAPI.getFundingRateHistory('binance', 'spot', 'BTCUSDT')).rejects.toThrow('Binance has no spot funding, open interest or mark price data');
+  });
+});
@@ -2,313 +2,454 @@ import type {
   Exchange,
   TradingType,
   Timeframe,
-  ExchangeConfig,
+  CustomTimeframe,
+  ExchangeAdapter,
   KlineData,
+  KlineRange,
+  KlineSeries,
   TickerData,
   SymbolInfo,
-  BinanceKlineResponse,
-  BybitKlineResponse,
-  BinanceTickerResponse,
-  BybitTickerResponse,
-  ExchangeError
+  SymbolQuery,
+  Instrument,
+  CandleStore,
+  CandleCacheKey,
+  ListingHistoryStore,
+  ExchangeHealth,
+  ExchangeErrorKind,
+  FailoverPolicy,
+  KlineSource,
+  DerivativesDataAdapter,
+  DerivativesContext,
+  FundingRate,
+  PredictedFunding,
+  OpenInterest,
+  OpenInterestPeriod,
+  PriceKlineType,
+  OrderBookSnapshot,
+  Trade
 } from '../types/exchange';
+import {
+  getExchangeAdapter,
+  getRegisteredExchanges,
+  registerExchangeAdapter,
+  unregisterExchangeAdapter
+} from './exchanges/registry';
+import {
+  getTimeframeMs,
+  getOpenTime,
+  getNextOpenTime,
+  shiftOpenTime,
+  countCandles,
+  canResample,
+  isValidTimeframe
+} from './timeframes';
+import { MarketStream, type MarketStreamOptions } from './marketStream';
+import { OrderBookKeeper, type OrderBookOptions } from './orderBook';
+import { ExchangeClock, getExchangeClock } from './exchangeClock';
+import { CandleCloseScheduler, type CandleSchedulerOptions } from './candleScheduler';
+import { ListingMonitor, type ListingMonitorOptions } from './listingMonitor';
+import { MemoryListingStore } from './listingStores';
+import { normalizeKlines, detectGaps } from './klineNormalizer';
+import { resampleKlines } from './klineResampler';
+import { applyTradeFlow } from './tradeFlow';
+import { describeExchangeError, isExchangeError } from './exchanges/errors';
+import { getExchangeHealth } from './exchanges/circuitBreaker';
+import {
+  formatInstrumentId,
+  parseInstrumentId,
+  getTradingType,
+  instrumentFromSymbolInfo,
+  parseVenueSymbol
+} from './instruments';
 
-// Exchange configurations
-const EXCHANGE_CONFIGS: Record<Exchange, Record<TradingType, ExchangeConfig>> = {
-  binance: {
-    spot: {
-      exchange: 'binance',
-      tradingType: 'spot',
-      baseUrl: 'https://api.binance.com/api/v3',
-      endpoints: {
-        klines: '/klines',
-        ticker: '/ticker/24hr',
-        symbols: '/exchangeInfo'
-      }
-    },
-    futures: {
-      exchange: 'binance',
-      tradingType: 'futures',
-      baseUrl: 'https://fapi.binance.com/fapi/v1',
-      endpoints: {
-        klines: '/klines',
-        ticker: '/ticker/24hr',
-        symbols: '/exchangeInfo'
-      }
-    }
-  },
-  bybit: {
-    spot: {
-      exchange: 'bybit',
-      tradingType: 'spot',
-      baseUrl: 'https://api.bybit.com/v5',
-      endpoints: {
-        klines: '/market/kline',
-        ticker: '/market/tickers',
-        symbols: '/market/instruments-info'
-      }
-    },
-    futures: {
-      exchange: 'bybit',
-      tradingType: 'futures',
-      baseUrl: 'https://api.bybit.com/v5',
-      endpoints: {
-        klines: '/market/kline',
-        ticker: '/market/tickers',
-        symbols: '/market/instruments-info'
-      }
-    }
+// Resolve the adapter for an exchange and check it supports the trading type
+function getAdapter(exchange: Exchange, tradingType: TradingType): ExchangeAdapter {
+  const adapter = getExchangeAdapter(exchange);
+  if (!adapter.capabilities.tradingTypes.includes(tradingType)) {
+    throw new Error(`${adapter.name} does not support ${tradingType} trading`);
   }
-};
+  return adapter;
+}
 
-// Timeframe mapping for different exchanges
-const TIMEFRAME_MAPPING = {
-  binance: {
-    '1m': '1m',
-    '5m': '5m',
-    '15m': '15m',
-    '30m': '30m',
-    '1h': '1h',
-    '4h': '4h',
-    '1d': '1d',
-    '1w': '1w',
-    '1M': '1M'
-  },
-  bybit: {
-    '1m': '1',
-    '5m': '5',
-    '15m': '15',
-    '30m': '30',
-    '1h': '60',
-    '4h': '240',
-    '1d': 'D',
-    '1w': 'W',
-    '1M': 'M'
+// Resolve funding/open interest/mark price support for a derivatives market
+function getDerivativesAdapter(exchange: Exchange, tradingType: TradingType): DerivativesDataAdapter {
+  const adapter = getAdapter(exchange, tradingType);
+  if (tradingType === 'spot' || !adapter.derivatives) {
+    throw new Error(`${adapter.name} has no ${tradingType} funding, open interest or mark price data`);
   }
-};
+  return adapter.derivatives;
+}
 
-// Utility function for making API calls with error handling and retry
-async function makeAPICall<T>(url: string, exchange: Exchange): Promise<T> {
-  const maxRetries = 3;
-  const retryDelay = 1000; // 1 second
+// Normalize timeframe for specific exchange
+function normalizeTimeframe(exchange: Exchange, timeframe: Timeframe): string {
+  const adapter = getExchangeAdapter(exchange);
+  const interval = adapter.timeframes[timeframe];
+  if (!interval) {
+    throw new Error(`${adapter.name} does not support the ${timeframe} timeframe`);
+  }
+  return interval;
+}
 
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`API Call (attempt ${attempt}):`, url);
-      
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'CryptoSignals/1.0'
-        }
-      });
+/**
+ * The native timeframe to fetch for `timeframe`: itself when the exchange
+ * offers it, otherwise the largest native one it can be resampled from
+ */
+function getBaseTimeframe(adapter: ExchangeAdapter, timeframe: Timeframe | CustomTimeframe): Timeframe {
+  if (adapter.timeframes[timeframe as Timeframe]) {
+    return timeframe as Timeframe;
+  }
+  
+  const base = (Object.keys(adapter.timeframes) as Timeframe[])
+    .filter(native => canResample(native, timeframe))
+    .sort((a, b) => getTimeframeMs(b) - getTimeframeMs(a))[0];
+  
+  if (!base) {
+    throw new Error(`${adapter.name} has no timeframe to build ${timeframe} candles from`);
+  }
+  return base;
+}
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+// Instrument metadata changes rarely; cache it per exchange and trading type
+const INSTRUMENT_CACHE_TTL = 60 * 60 * 1000; // 1 hour
 
-      const data = await response.json();
-      return data as T;
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      
-      if (attempt === maxRetries) {
-        const exchangeError: ExchangeError = {
-          exchange,
-          endpoint: url,
-          message: `Failed after ${maxRetries} attempts: ${errorMsg}`,
-          timestamp: Date.now()
-        };
-        throw exchangeError;
-      }
+const instrumentCache = new Map<string, { fetchedAt: number; instruments: Promise<SymbolInfo[]> }>();
 
-      // Wait before retry
-      await new Promise(resolve => setTimeout(resolve, retryDelay * attempt));
-    }
-  }
+// Optional persistent candle cache; see setCandleStore
+let candleStore: CandleStore | null = null;
 
-  throw new Error('Unexpected error in makeAPICall');
-}
+// Closed candles kept per cached series
+const MAX_CACHED_CANDLES = 5000;
 
-// Get exchange configuration
-function getConfig(exchange: Exchange, tradingType: TradingType): ExchangeConfig {
-  return EXCHANGE_CONFIGS[exchange][tradingType];
-}
+// Optional cross-exchange failover for market data; see setFailoverPolicy
+let failoverPolicy: FailoverPolicy | null = null;
 
-// Normalize timeframe for specific exchange
-function normalizeTimeframe(exchange: Exchange, timeframe: Timeframe): string {
-  return TIMEFRAME_MAPPING[exchange][timeframe];
+// Outages, as opposed to problems with the request itself
+const DEFAULT_FAILOVER_ERRORS: ExchangeErrorKind[] = [
+  'network',
+  'exchange-maintenance',
+  'circuit-open',
+  'rate-limited',
+  'banned'
+];
+
+// What getAvailableSymbols has always returned: trading USDT pairs
+const DEFAULT_SYMBOL_QUERY: SymbolQuery = { quoteAssets: ['USDT'] };
+
+// Filters that only need instrument metadata
+function matchesSymbolQuery(info: SymbolInfo, query: SymbolQuery): boolean {
+  if (!query.includeNonTrading && !info.isTrading) return false;
+  if (query.quoteAssets && !query.quoteAssets.includes(info.quoteAsset)) return false;
+  if (query.includeBaseAssets && !query.includeBaseAssets.includes(info.baseAsset)) return false;
+  if (query.excludeBaseAssets?.includes(info.baseAsset)) return false;
+  if (query.contractTypes && (!info.contractType || !query.contractTypes.includes(info.contractType))) return false;
+  return true;
 }
 
-// Binance API functions
-async function getBinanceKlines(
+// Split [start, end] into windows that each fit in one request. Every window is
+// requested with both bounds, so the result does not depend on whether the
+// exchange pages oldest-first (Binance) or newest-first (Bybit, OKX).
+async function fetchKlineRange(
+  adapter: ExchangeAdapter,
+  tradingType: TradingType,
   symbol: string,
   timeframe: Timeframe,
-  tradingType: TradingType,
-  limit: number = 500
+  start: number,
+  end: number
 ): Promise<KlineData[]> {
-  const config = getConfig('binance', tradingType);
-  const interval = normalizeTimeframe('binance', timeframe);
+  const perRequest = adapter.capabilities.maxKlineRangeLimit ?? adapter.capabilities.maxKlineLimit;
+  const candles: KlineData[] = [];
   
-  const url = `${config.baseUrl}${config.endpoints.klines}?symbol=${symbol}&interval=${interval}&limit=${limit}`;
-  
-  const response = await makeAPICall<BinanceKlineResponse[]>(url, 'binance');
+  for (let windowStart = start; windowStart <= end; ) {
+    const windowEnd = Math.min(shiftOpenTime(getOpenTime(windowStart, timeframe), timeframe, perRequest) - 1, end);
+    const batch = await adapter.getKlines(symbol, timeframe, tradingType, perRequest, {
+      startTime: windowStart,
+      endTime: windowEnd
+    });
+    
+    // Inclusive bounds can repeat a candle at window edges; normalization dedupes
+    candles.push(...batch.filter(kline => kline.openTime >= start && kline.openTime <= end));
+    windowStart = windowEnd + 1;
+  }
   
-  return response.map(item => ({
-    openTime: item[0],
-    open: item[1],
-    high: item[2],
-    low: item[3],
-    close: item[4],
-    volume: item[5],
-    closeTime: item[6],
-    quoteAssetVolume: item[7],
-    numberOfTrades: item[8],
-    takerBuyBaseAssetVolume: item[9],
-    takerBuyQuoteAssetVolume: item[10]
-  }));
+  return candles;
 }
 
-async function getBinanceTicker(symbol: string, tradingType: TradingType): Promise<TickerData> {
-  const config = getConfig('binance', tradingType);
-  const url = `${config.baseUrl}${config.endpoints.ticker}?symbol=${symbol}`;
-  
-  const response = await makeAPICall<BinanceTickerResponse>(url, 'binance');
+// The most recent `limit` candles, normalized
+async function fetchKlines(
+  adapter: ExchangeAdapter,
+  tradingType: TradingType,
+  symbol: string,
+  timeframe: Timeframe,
+  limit: number
+): Promise<KlineData[]> {
+  if (limit <= adapter.capabilities.maxKlineLimit) {
+    const klines = await adapter.getKlines(symbol, timeframe, tradingType, limit);
+    return normalizeKlines(klines, timeframe).klines;
+  }
   
-  return {
-    symbol: response.symbol,
-    price: response.lastPrice,
-    priceChange: response.priceChange,
-    priceChangePercent: response.priceChangePercent,
-    highPrice: response.highPrice,
-    lowPrice: response.lowPrice,
-    volume: response.volume,
-    quoteVolume: response.quoteVolume,
-    openPrice: response.openPrice,
-    prevClosePrice: response.prevClosePrice,
-    bidPrice: response.bidPrice,
-    askPrice: response.askPrice,
-    weightedAvgPrice: response.weightedAvgPrice
-  };
+  // More history than one request returns: backfill the range instead
+  const end = Date.now();
+  const start = shiftOpenTime(getOpenTime(end, timeframe), timeframe, 1 - limit);
+  const klines = await fetchKlineRange(adapter, tradingType, symbol, timeframe, start, end);
+  return normalizeKlines(klines, timeframe).klines;
 }
 
-async function getBinanceSymbols(tradingType: TradingType): Promise<string[]> {
-  const config = getConfig('binance', tradingType);
-  const url = `${config.baseUrl}${config.endpoints.symbols}`;
+/**
+ * Serve from the candle store and only fetch candles newer than the last
+ * stored close. Only closed candles are stored; the forming one is always
+ * fetched fresh.
+ */
+async function fetchKlinesCached(
+  store: CandleStore,
+  adapter: ExchangeAdapter,
+  key: CandleCacheKey,
+  limit: number
+): Promise<KlineData[]> {
+  const { tradingType, symbol, timeframe } = key;
+  const cached = await store.get(key).catch(error => {
+    console.warn('Candle cache read failed:', error);
+    return undefined;
+  });
+  
+  const start = cached && cached.length > 0 ? cached[cached.length - 1].closeTime + 1 : 0;
+  const missing = countCandles(start, Date.now(), timeframe);
+  
+  let klines: KlineData[];
+  if (cached && cached.length + missing >= limit && missing <= limit) {
+    const newer = await fetchKlineRange(adapter, tradingType, symbol, timeframe, start, Date.now());
+    klines = normalizeKlines([...cached, ...newer], timeframe).klines;
+  } else {
+    // Cold, too short for this request, or too stale to be worth topping up
+    klines = await fetchKlines(adapter, tradingType, symbol, timeframe, limit);
+  }
   
-  const response = await makeAPICall<{ symbols: Array<{ symbol: string; status: string; quoteAsset: string }> }>(url, 'binance');
+  const closed = klines.filter(kline => kline.isClosed).slice(-MAX_CACHED_CANDLES);
+  await store.set(key, closed).catch(error => {
+    console.warn('Candle cache write failed:', error);
+  });
   
-  return response.symbols
-    .filter(s => s.status === 'TRADING' && s.quoteAsset === 'USDT')
-    .map(s => s.symbol);
+  return klines;
 }
 
-// Bybit API functions
-async function getBybitKlines(
-  symbol: string,
-  timeframe: Timeframe,
-  tradingType: TradingType,
-  limit: number = 500
+/**
+ * The most recent `limit` candles. Timeframes the exchange does not offer are
+ * resampled from enough base candles to fill every requested candle.
+ */
+async function loadKlines(
+  adapter: ExchangeAdapter,
+  source: KlineSource,
+  timeframe: Timeframe | CustomTimeframe,
+  limit: number
 ): Promise<KlineData[]> {
-  const config = getConfig('bybit', tradingType);
-  const interval = normalizeTimeframe('bybit', timeframe);
-  const category = tradingType === 'spot' ? 'spot' : 'linear';
+  const base = getBaseTimeframe(adapter, timeframe);
+  const now = Date.now();
+  const baseLimit = base === timeframe
+    ? limit
+    : countCandles(shiftOpenTime(getOpenTime(now, timeframe), timeframe, 1 - limit), now, base);
   
-  const url = `${config.baseUrl}${config.endpoints.klines}?category=${category}&symbol=${symbol}&interval=${interval}&limit=${limit}`;
+  const klines = candleStore
+    ? await fetchKlinesCached(candleStore, adapter, { ...source, timeframe: base }, baseLimit)
+    : await fetchKlines(adapter, source.tradingType, source.symbol, base, baseLimit);
   
-  const response = await makeAPICall<BybitKlineResponse>(url, 'bybit');
-  
-  return response.list.map(item => ({
-    openTime: parseInt(item[0]),
-    open: item[1],
-    high: item[2],
-    low: item[3],
-    close: item[4],
-    volume: item[5],
-    closeTime: parseInt(item[0]) + getTimeframeMs(timeframe) - 1
-  }));
+  return base === timeframe ? klines : resampleKlines(klines, timeframe, now);
 }
 
-async function getBybitTicker(symbol: string, tradingType: TradingType): Promise<TickerData> {
-  const config = getConfig('bybit', tradingType);
-  const category = tradingType === 'spot' ? 'spot' : 'linear';
-  const url = `${config.baseUrl}${config.endpoints.ticker}?category=${category}&symbol=${symbol}`;
-  
-  const response = await makeAPICall<BybitTickerResponse>(url, 'bybit');
-  
-  if (response.result.list.length === 0) {
-    throw new Error(`No ticker data found for ${symbol}`);
-  }
-  
-  const ticker = response.result.list[0];
-  const priceChange = (parseFloat(ticker.lastPrice) - parseFloat(ticker.prevPrice24h)).toString();
-  
-  return {
-    symbol: ticker.symbol,
-    price: ticker.lastPrice,
-    priceChange,
-    priceChangePercent: ticker.price24hPcnt,
-    highPrice: ticker.highPrice24h,
-    lowPrice: ticker.lowPrice24h,
-    volume: ticker.volume24h,
-    quoteVolume: ticker.turnover24h,
-    openPrice: ticker.prevPrice24h,
-    prevClosePrice: ticker.prevPrice24h,
-    bidPrice: ticker.bid1Price,
-    askPrice: ticker.ask1Price
-  };
+// BTCUSDT, BTC-USDT and BTC-USDT-SWAP all become BTCUSDT
+function getPairKey(symbol: string): string {
+  return symbol.toUpperCase().replace(/-SWAP$/, '').replace(/[-_/]/g, '');
 }
 
-async function getBybitSymbols(tradingType: TradingType): Promise<string[]> {
-  const config = getConfig('bybit', tradingType);
-  const category = tradingType === 'spot' ? 'spot' : 'linear';
-  const url = `${config.baseUrl}${config.endpoints.symbols}?category=${category}`;
+/**
+ * The instrument on `target` that trades the same pair as `source`. Uses the
+ * source's metadata when it is available and falls back to the symbol name,
+ * since the source exchange is usually the one that is down.
+ */
+async function findEquivalentSymbol(source: KlineSource, target: Exchange): Promise<string | undefined> {
+  const sourceInfo = await ExchangeAPI.getSymbolInfo(source.exchange, source.tradingType, source.symbol)
+    .catch(() => undefined);
+  const instruments = await ExchangeAPI.getInstruments(target, source.tradingType);
   
-  const response = await makeAPICall<{ 
-    result: { 
-      list: Array<{ symbol: string; status: string; quoteCoin: string }> 
-    } 
-  }>(url, 'bybit');
+  const matches = instruments.filter(info => info.isTrading && (sourceInfo
+    ? info.baseAsset === sourceInfo.baseAsset && info.quoteAsset === sourceInfo.quoteAsset
+    : getPairKey(`${info.baseAsset}${info.quoteAsset}`) === getPairKey(source.symbol)));
   
-  return response.result.list
-    .filter(s => s.status === 'Trading' && s.quoteCoin === 'USDT')
-    .map(s => s.symbol);
+  // Prefer the same kind of contract; perpetuals when it is unknown
+  const contractType = sourceInfo?.contractType ?? (source.tradingType === 'spot' ? 'spot' : 'perpetual');
+  const match = matches.find(info => info.contractType === contractType) ?? matches[0];
+  return match?.symbol;
+}
+
+/**
+ * Run a market data request and, when it fails with an outage and a failover
+ * policy is set, run it again on each fallback exchange in turn.
+ */
+async function withFailover<T>(
+  requested: KlineSource,
+  timeframe: Timeframe | CustomTimeframe,
+  load: (source: KlineSource) => Promise<T>
+): Promise<T> {
+  try {
+    return await load(requested);
+  } catch (error) {
+    const policy = failoverPolicy;
+    const kinds = policy?.onErrors ?? DEFAULT_FAILOVER_ERRORS;
+    if (!policy || !isExchangeError(error) || !kinds.includes(error.kind)) throw error;
+    
+    for (const exchange of policy.exchanges) {
+      if (exchange === requested.exchange) continue;
+      
+      try {
+        getBaseTimeframe(getAdapter(exchange, requested.tradingType), timeframe);
+        
+        const symbol = await findEquivalentSymbol(requested, exchange);
+        if (!symbol) continue;
+        
+        console.warn(`${describeExchangeError(error, requested.symbol)}; using ${symbol} on ${exchange}`);
+        return await load({ exchange, tradingType: requested.tradingType, symbol });
+      } catch (fallbackError) {
+        console.warn(`Failover to ${exchange} failed: ${describeExchangeError(fallbackError, requested.symbol)}`);
+      }
+    }
+    
+    throw error;
+  }
 }
 
-// Helper function to convert timeframe to milliseconds
-function getTimeframeMs(timeframe: Timeframe): number {
-  const timeframes: Record<Timeframe, number> = {
-    '1m': 60 * 1000,
-    '5m': 5 * 60 * 1000,
-    '15m': 15 * 60 * 1000,
-    '30m': 30 * 60 * 1000,
-    '1h': 60 * 60 * 1000,
-    '4h': 4 * 60 * 60 * 1000,
-    '1d': 24 * 60 * 60 * 1000,
-    '1w': 7 * 24 * 60 * 60 * 1000,
-    '1M': 30 * 24 * 60 * 60 * 1000
-  };
-  return timeframes[timeframe];
+function tagSource(klines: KlineData[], source: KlineSource): KlineData[] {
+  return klines.map(kline => ({ ...kline, source }));
 }
 
 // Main API class
 export class ExchangeAPI {
+  static registerAdapter(adapter: ExchangeAdapter): void {
+    registerExchangeAdapter(adapter);
+  }
+
+  static getSupportedExchanges(): Exchange[] {
+    return getRegisteredExchanges();
+  }
+
+  /**
+   * Circuit state, rolling error rate and latency per exchange and endpoint
+   */
+  static getHealth(): ExchangeHealth[] {
+    return getRegisteredExchanges().map(getExchangeHealth);
+  }
+
+  /**
+   * Fetch candles from other exchanges when the requested one is down. The
+   * result's `source` says where they came from. Pass null to disable.
+   */
+  static setFailoverPolicy(policy: FailoverPolicy | null): void {
+    failoverPolicy = policy;
+  }
+
+  /**
+   * Cache candles in the given store (IndexedDBCandleStore in the browser,
+   * FileCandleStore on the server). Pass null to disable caching.
+   */
+  static setCandleStore(store: CandleStore | null): void {
+    candleStore = store;
+  }
+
   static async getKlineData(
     exchange: Exchange,
     tradingType: TradingType,
     symbol: string,
-    timeframe: Timeframe,
+    timeframe: Timeframe | CustomTimeframe,
     limit: number = 500
   ): Promise<KlineData[]> {
-    switch (exchange) {
-      case 'binance':
-        return getBinanceKlines(symbol, timeframe, tradingType, limit);
-      case 'bybit':
-        return getBybitKlines(symbol, timeframe, tradingType, limit);
-      default:
-        throw new Error(`Unsupported exchange: ${exchange}`);
+    const series = await this.getKlineSeries(exchange, tradingType, symbol, timeframe, limit);
+    return series.klines;
+  }
+
+  /**
+   * Normalized klines together with any gaps found in the series. Custom
+   * timeframes such as 45m or 2d, and native ones an exchange lacks, are
+   * resampled from a lower timeframe the exchange offers.
+   */
+  static async getKlineSeries(
+    exchange: Exchange,
+    tradingType: TradingType,
+    symbol: string,
+    timeframe: Timeframe | CustomTimeframe,
+    limit: number = 500
+  ): Promise<KlineSeries> {
+    getBaseTimeframe(getAdapter(exchange, tradingType), timeframe);
+    
+    return withFailover({ exchange, tradingType, symbol }, timeframe, async source => {
+      const adapter = getAdapter(source.exchange, source.tradingType);
+      const klines = await loadKlines(adapter, source, timeframe, limit);
+      
+      const recent = tagSource(klines.slice(-limit), source);
+      return { klines: recent, gaps: detectGaps(recent, timeframe), source };
+    });
+  }
+
+
+  /**
+   * Klines with taker buy volume, as calculateVolumeDelta needs. Where the
+   * exchange's candles lack it (Bybit), it is filled from the recent trade
+   * tape, which only reaches back over the latest candles.
+   */
+  static async getOrderFlowKlines(
+    exchange: Exchange,
+    tradingType: TradingType,
+    symbol: string,
+    timeframe: Timeframe | CustomTimeframe,
+    limit: number = 500
+  ): Promise<KlineData[]> {
+    const klines = await this.getKlineData(exchange, tradingType, symbol, timeframe, limit);
+    if (klines.every(kline => kline.takerBuyBaseAssetVolume !== undefined)) {
+      return klines;
+    }
+    
+    // After a failover the trades must come from where the candles did
+    const source = klines[klines.length - 1]?.source ?? { exchange, tradingType, symbol };
+    const trades = await this.getRecentTrades(source.exchange, source.tradingType, source.symbol, 1000)
+      .catch(error => {
+        console.warn(`Failed to fetch trades: ${describeExchangeError(error, source.symbol)}`);
+        return [];
+      });
+    
+    return applyTradeFlow(klines, trades);
+  }
+
+  /**
+   * Fetch every candle whose openTime falls within [start, end], paging
+   * through as many requests as the range needs.
+   */
+  static async getKlineRange(
+    exchange: Exchange,
+    tradingType: TradingType,
+    symbol: string,
+    timeframe: Timeframe | CustomTimeframe,
+    start: number,
+    end: number
+  ): Promise<KlineData[]> {
+    if (start > end) {
+      throw new Error(`Invalid kline range: start ${start} is after end ${end}`);
     }
+    
+    getBaseTimeframe(getAdapter(exchange, tradingType), timeframe);
+    
+    return withFailover({ exchange, tradingType, symbol }, timeframe, async source => {
+      const adapter = getAdapter(source.exchange, source.tradingType);
+      const base = getBaseTimeframe(adapter, timeframe);
+      
+      if (base === timeframe) {
+        const klines = await fetchKlineRange(adapter, source.tradingType, source.symbol, base, start, end);
+        return tagSource(normalizeKlines(klines, base).klines, source);
+      }
+      
+      // Whole candles only: widen to the edges of the first and last one
+      const baseStart = getOpenTime(start, timeframe);
+      const baseEnd = getNextOpenTime(getOpenTime(end, timeframe), timeframe) - 1;
+      const klines = await fetchKlineRange(adapter, source.tradingType, source.symbol, base, baseStart, baseEnd);
+      const resampled = resampleKlines(normalizeKlines(klines, base).klines, timeframe)
+        .filter(kline => kline.openTime >= start && kline.openTime <= end);
+      return tagSource(resampled, source);
+    });
   }
 
   static async getTickerData(
@@ -316,60 +457,365 @@ export class ExchangeAPI {
     tradingType: TradingType,
     symbol: string
   ): Promise<TickerData> {
-    switch (exchange) {
-      case 'binance':
-        return getBinanceTicker(symbol, tradingType);
-      case 'bybit':
-        return getBybitTicker(symbol, tradingType);
-      default:
-        throw new Error(`Unsupported exchange: ${exchange}`);
-    }
+    return getAdapter(exchange, tradingType).getTicker(symbol, tradingType);
   }
 
   static async getAvailableSymbols(
     exchange: Exchange,
-    tradingType: TradingType
+    tradingType: TradingType,
+    query: SymbolQuery = DEFAULT_SYMBOL_QUERY
   ): Promise<string[]> {
-    switch (exchange) {
-      case 'binance':
-        return getBinanceSymbols(tradingType);
-      case 'bybit':
-        return getBybitSymbols(tradingType);
-      default:
-        throw new Error(`Unsupported exchange: ${exchange}`);
+    const instruments = await this.querySymbols(exchange, tradingType, query);
+    return instruments.map(s => s.symbol);
+  }
+
+  /**
+   * Instruments matching the query. A minimum quote volume costs one extra
+   * ticker request; every other filter works on cached metadata.
+   */
+  static async querySymbols(
+    exchange: Exchange,
+    tradingType: TradingType,
+    query: SymbolQuery = DEFAULT_SYMBOL_QUERY
+  ): Promise<SymbolInfo[]> {
+    const instruments = await this.getInstruments(exchange, tradingType);
+    const matches = instruments.filter(info => matchesSymbolQuery(info, query));
+    
+    if (query.minQuoteVolume === undefined || matches.length === 0) {
+      return matches;
     }
+    
+    const minQuoteVolume = query.minQuoteVolume;
+    const tickers = await this.getAllTickers(exchange, tradingType, matches.map(s => s.symbol));
+    const liquid = new Set(
+      tickers
+        .filter(ticker => parseFloat(ticker.quoteVolume) >= minQuoteVolume)
+        .map(ticker => ticker.symbol)
+    );
+    
+    return matches.filter(s => liquid.has(s.symbol));
   }
 
+  /**
+   * Every listed instrument with its price and quantity filters. Cached for an
+   * hour; concurrent callers share one request.
+   */
+  static async getInstruments(
+    exchange: Exchange,
+    tradingType: TradingType,
+    forceRefresh: boolean = false
+  ): Promise<SymbolInfo[]> {
+    const adapter = getAdapter(exchange, tradingType);
+    const key = `${exchange}:${tradingType}`;
+    const cached = instrumentCache.get(key);
+    
+    if (cached && !forceRefresh && Date.now() - cached.fetchedAt < INSTRUMENT_CACHE_TTL) {
+      return cached.instruments;
+    }
+    
+    const instruments = adapter.getInstruments(tradingType);
+    instrumentCache.set(key, { fetchedAt: Date.now(), instruments });
+    
+    // Do not cache failures
+    instruments.catch(() => {
+      if (instrumentCache.get(key)?.instruments === instruments) {
+        instrumentCache.delete(key);
+      }
+    });
+    
+    return instruments;
+  }
+
+  static async getSymbolInfo(
+    exchange: Exchange,
+    tradingType: TradingType,
+    symbol: string
+  ): Promise<SymbolInfo | undefined> {
+    const instruments = await this.getInstruments(exchange, tradingType);
+    return instruments.find(s => s.symbol === symbol);
+  }
+
+  /**
+   * The canonical instrument behind a symbol. Listed symbols are described by
+   * the instrument list; others are read from the exchange's naming.
+   */
+  static async getInstrument(
+    exchange: Exchange,
+    tradingType: TradingType,
+    symbol: string
+  ): Promise<Instrument> {
+    const info = await this.getSymbolInfo(exchange, tradingType, symbol);
+    const instrument = info
+      ? instrumentFromSymbolInfo(exchange, tradingType, info)
+      : parseVenueSymbol(exchange, tradingType, symbol);
+    
+    if (!instrument) {
+      throw new Error(`${symbol} is not a ${tradingType} symbol on ${getExchangeAdapter(exchange).name}`);
+    }
+    return instrument;
+  }
+
+  /**
+   * Where an instrument trades on an exchange, by canonical id, e.g.
+   * BTC/USDT:USDT. Undefined when the exchange does not list it.
+   */
+  static async findInstrument(exchange: Exchange, id: string): Promise<Instrument | undefined> {
+    const spec = parseInstrumentId(id);
+    const tradingType = getTradingType(spec);
+    if (!getExchangeAdapter(exchange).capabilities.tradingTypes.includes(tradingType)) {
+      return undefined;
+    }
+    
+    // Matched on the listed metadata rather than a formatted symbol, since
+    // venues do not always follow their own naming (Bybit's SHIB1000USDT)
+    const canonicalId = formatInstrumentId(spec);
+    const listed = await this.getInstruments(exchange, tradingType);
+    return listed
+      .map(info => instrumentFromSymbolInfo(exchange, tradingType, info))
+      .find(instrument => instrument.id === canonicalId);
+  }
+
+  /**
+   * Whether a market has funding and open interest data, e.g. for
+   * getDerivativesContext
+   */
+  static hasDerivativesData(exchange: Exchange, tradingType: TradingType): boolean {
+    const adapter = getExchangeAdapter(exchange);
+    return tradingType !== 'spot' && adapter.capabilities.tradingTypes.includes(tradingType) && adapter.derivatives !== undefined;
+  }
+
+  /**
+   * Settled funding rates, oldest first
+   */
+  static async getFundingRateHistory(
+    exchange: Exchange,
+    tradingType: TradingType,
+    symbol: string,
+    limit: number = 100,
+    range?: KlineRange
+  ): Promise<FundingRate[]> {
+    const derivatives = getDerivativesAdapter(exchange, tradingType);
+    const rates = await derivatives.getFundingRateHistory(
+      symbol,
+      tradingType,
+      Math.min(limit, derivatives.maxFundingLimit),
+      range
+    );
+    return rates.sort((a, b) => a.fundingTime - b.fundingTime);
+  }
+
+  static async getPredictedFunding(
+    exchange: Exchange,
+    tradingType: TradingType,
+    symbol: string
+  ): Promise<PredictedFunding> {
+    return getDerivativesAdapter(exchange, tradingType).getPredictedFunding(symbol, tradingType);
+  }
+
+  /**
+   * Open interest sampled every `period`, oldest first
+   */
+  static async getOpenInterestHistory(
+    exchange: Exchange,
+    tradingType: TradingType,
+    symbol: string,
+    period: OpenInterestPeriod = '1h',
+    limit: number = 100,
+    range?: KlineRange
+  ): Promise<OpenInterest[]> {
+    const derivatives = getDerivativesAdapter(exchange, tradingType);
+    const history = await derivatives.getOpenInterestHistory(
+      symbol,
+      tradingType,
+      period,
+      Math.min(limit, derivatives.maxOpenInterestLimit),
+      range,
+      () => this.getInstruments(exchange, tradingType)
+    );
+    return history.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Mark or index price candles, normalized like getKlineData
+   */
+  static async getPriceKlines(
+    exchange: Exchange,
+    tradingType: TradingType,
+    symbol: string,
+    timeframe: Timeframe,
+    type: PriceKlineType,
+    limit: number = 500
+  ): Promise<KlineData[]> {
+    const derivatives = getDerivativesAdapter(exchange, tradingType);
+    normalizeTimeframe(exchange, timeframe);
+    
+    const maxLimit = getAdapter(exchange, tradingType).capabilities.maxKlineLimit;
+    const klines = await derivatives.getPriceKlines(symbol, timeframe, tradingType, type, Math.min(limit, maxLimit));
+    return normalizeKlines(klines, timeframe).klines;
+  }
+
+  /**
+   * Predicted funding and the open interest change over the last `lookback`
+   * hours, as used to veto crowded long entries
+   */
+  static async getDerivativesContext(
+    exchange: Exchange,
+    tradingType: TradingType,
+    symbol: string,
+    lookback: number = 24
+  ): Promise<DerivativesContext> {
+    const [funding, openInterest] = await Promise.all([
+      this.getPredictedFunding(exchange, tradingType, symbol),
+      this.getOpenInterestHistory(exchange, tradingType, symbol, '1h', lookback + 1)
+    ]);
+    
+    const first = parseFloat(openInterest[0]?.openInterest ?? '0');
+    const last = parseFloat(openInterest[openInterest.length - 1]?.openInterest ?? '0');
+    
+    return {
+      fundingRate: parseFloat(funding.fundingRate),
+      openInterestChange: first > 0 ? (last - first) / first : 0
+    };
+  }
+
+  /**
+   * The latest trades, oldest first. Binance returns aggregate trades; the
+   * exchange caps `limit` (Bybit spot at 60).
+   */
+  static async getRecentTrades(
+    exchange: Exchange,
+    tradingType: TradingType,
+    symbol: string,
+    limit: number = 500
+  ): Promise<Trade[]> {
+    const adapter = getAdapter(exchange, tradingType);
+    if (!adapter.getRecentTrades) {
+      throw new Error(`${adapter.name} does not provide recent trades`);
+    }
+    const trades = await adapter.getRecentTrades(symbol, tradingType, limit);
+    return trades.sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * One order book snapshot, up to `limit` levels per side
+   */
+  static async getOrderBook(
+    exchange: Exchange,
+    tradingType: TradingType,
+    symbol: string,
+    limit: number = 100
+  ): Promise<OrderBookSnapshot> {
+    const adapter = getAdapter(exchange, tradingType);
+    if (!adapter.getOrderBook) {
+      throw new Error(`${adapter.name} does not provide order book snapshots`);
+    }
+    return adapter.getOrderBook(symbol, tradingType, Math.min(limit, adapter.capabilities.maxDepthLimit ?? limit));
+  }
+
+  /**
+   * A locally maintained order book fed by the stream's depth diffs. Call
+   * start() to begin syncing and stop() to unsubscribe.
+   */
+  static createOrderBook(stream: MarketStream, symbol: string, options?: OrderBookOptions): OrderBookKeeper {
+    return new OrderBookKeeper(stream, symbol, options);
+  }
+
+  /**
+   * The exchange's current time, read from its API
+   */
+  static async getServerTime(exchange: Exchange, tradingType: TradingType): Promise<number> {
+    const adapter = getAdapter(exchange, tradingType);
+    if (!adapter.getServerTime) {
+      throw new Error(`${adapter.name} does not report its server time`);
+    }
+    return adapter.getServerTime(tradingType);
+  }
+
+  /**
+   * Shared estimate of the exchange's clock; call sync() or ensureSynced() to measure it
+   */
+  static getClock(exchange: Exchange, tradingType: TradingType): ExchangeClock {
+    getAdapter(exchange, tradingType);
+    return getExchangeClock(exchange, tradingType);
+  }
+
+  /**
+   * Timer that fires as candles close on the exchange's clock
+   */
+  static createCandleScheduler(
+    exchange: Exchange,
+    tradingType: TradingType,
+    options?: CandleSchedulerOptions
+  ): CandleCloseScheduler {
+    return new CandleCloseScheduler(this.getClock(exchange, tradingType), options);
+  }
+
+  /**
+   * Listing monitor over fresh instrument lists (the cache is bypassed).
+   * Pass a persistent store (IndexedDBListingStore in the browser,
+   * FileListingStore on the server) to keep history across restarts.
+   */
+  static createListingMonitor(
+    store: ListingHistoryStore = new MemoryListingStore(),
+    options?: ListingMonitorOptions
+  ): ListingMonitor {
+    return new ListingMonitor(store, (exchange, tradingType) => this.getInstruments(exchange, tradingType, true), options);
+  }
+
+  static createStream(
+    exchange: Exchange,
+    tradingType: TradingType,
+    options?: MarketStreamOptions
+  ): MarketStream {
+    getAdapter(exchange, tradingType);
+    return new MarketStream(exchange, tradingType, options);
+  }
+
+  /**
+   * Tickers for the given symbols, or for every available symbol. Uses the
+   * exchange's bulk endpoint when it has one instead of one request per symbol.
+   */
   static async getAllTickers(
     exchange: Exchange,
-    tradingType: TradingType
+    tradingType: TradingType,
+    symbols?: string[]
   ): Promise<TickerData[]> {
-    const symbols = await this.getAvailableSymbols(exchange, tradingType);
-    const tickers: TickerData[] = [];
+    const adapter = getAdapter(exchange, tradingType);
     
-    // Fetch tickers in batches to avoid rate limits
-    const batchSize = 10;
-    for (let i = 0; i < symbols.length; i += batchSize) {
-      const batch = symbols.slice(i, i + batchSize);
-      const batchPromises = batch.map(symbol => 
-        this.getTickerData(exchange, tradingType, symbol).catch(error => {
-          console.warn(`Failed to fetch ticker for ${symbol}:`, error);
-          return null;
-        })
-      );
-      
-      const batchResults = await Promise.all(batchPromises);
-      tickers.push(...batchResults.filter(ticker => ticker !== null) as TickerData[]);
-      
-      // Small delay between batches
-      if (i + batchSize < symbols.length) {
-        await new Promise(resolve => setTimeout(resolve, 200));
-      }
+    if (adapter.getAllTickers) {
+      const [tickers, wanted] = await Promise.all([
+        adapter.getAllTickers(tradingType),
+        symbols ?? this.getAvailableSymbols(exchange, tradingType)
+      ]);
+      const wantedSet = new Set(wanted);
+      return tickers.filter(ticker => wantedSet.has(ticker.symbol));
     }
     
-    return tickers;
+    const wanted = symbols ?? await this.getAvailableSymbols(exchange, tradingType);
+    
+    // The request scheduler paces these against the exchange's rate limit
+    const results = await Promise.all(wanted.map(symbol =>
+      this.getTickerData(exchange, tradingType, symbol).catch(error => {
+        console.warn(`Failed to fetch ticker: ${describeExchangeError(error, symbol)}`);
+        return null;
+      })
+    ));
+    
+    return results.filter(ticker => ticker !== null) as TickerData[];
   }
 }
 
 // Export utility functions
-export { getTimeframeMs, normalizeTimeframe };
\ No newline at end of file
+export {
+  getTimeframeMs,
+  isValidTimeframe,
+  normalizeTimeframe,
+  resampleKlines,
+  applyTradeFlow,
+  registerExchangeAdapter,
+  unregisterExchangeAdapter,
+  describeExchangeError,
+  isExchangeError,
+  formatInstrumentId,
+  parseInstrumentId
+};
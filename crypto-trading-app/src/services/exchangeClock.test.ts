@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExchangeClock } from './exchangeClock';
+
+const NOW = Date.UTC(2024, 5, 19, 8);
+
+// A server whose clock runs `offsetMs` ahead, answering each reading after the
+// given request and response legs
+function server(offsetMs: number, legs: Array<[number, number]>) {
+  return vi.fn(async () => {
+    const [request, response] = legs.shift() ?? [0, 0];
+    await vi.advanceTimersByTimeAsync(request);
+    const serverTime = Date.now() + offsetMs;
+    await vi.advanceTimersByTimeAsync(response);
+    return serverTime;
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ExchangeClock', () => {
+  it('keeps local time until the first sync', () => {
+    const clock = new ExchangeClock('Test', server(0, []));
+
+    expect(clock.now()).toBe(NOW);
+    expect(clock.isSynced()).toBe(false);
+  });
+
+  it('keeps the reading with the shortest round trip', async () => {
+    // Lopsided legs make a reading wrong by half their difference
+    const readServerTime = server(2000, [[300, 20], [40, 40], [10, 250]]);
+    const clock = new ExchangeClock('Test', readServerTime);
+
+    await expect(clock.sync()).resolves.toBe(2000);
+
+    expect(readServerTime).toHaveBeenCalledTimes(3);
+    expect(clock.getRoundTrip()).toBe(80);
+    expect(clock.getSyncedAt()).toBe(NOW + 660);
+    expect(clock.now()).toBe(Date.now() + 2000);
+  });
+
+  it('is off by half the round trip when the legs are uneven', async () => {
+    const clock = new ExchangeClock('Test', server(-500, [[100, 0]]), { samples: 1 });
+
+    await clock.sync();
+
+    expect(clock.getOffset()).toBe(-450);
+  });
+
+  it('shares one measurement between concurrent syncs', async () => {
+    const readServerTime = server(1000, [[50, 50], [50, 50], [50, 50]]);
+    const clock = new ExchangeClock('Test', readServerTime);
+
+    const [first, second] = await Promise.all([clock.sync(), clock.sync()]);
+
+    expect(first).toBe(1000);
+    expect(second).toBe(1000);
+    expect(readServerTime).toHaveBeenCalledTimes(3);
+
+    // A sync after that one ends measures again
+    await clock.sync();
+    expect(readServerTime).toHaveBeenCalledTimes(6);
+  });
+
+  it('measures again after a failed sync', async () => {
+    const readServerTime = vi.fn()
+      .mockRejectedValueOnce(new Error('fetch failed'))
+      .mockResolvedValue(NOW + 3000);
+    const clock = new ExchangeClock('Test', readServerTime, { samples: 1 });
+
+    await expect(clock.sync()).rejects.toThrow('fetch failed');
+    expect(clock.isSynced()).toBe(false);
+
+    await expect(clock.sync()).resolves.toBe(3000);
+  });
+
+  it('remeasures in ensureSynced only once the offset is stale', async () => {
+    const readServerTime = server(0, []);
+    const clock = new ExchangeClock('Test', readServerTime, { samples: 1, maxAgeMs: 60000 });
+
+    await clock.ensureSynced();
+    vi.advanceTimersByTime(60000);
+    await clock.ensureSynced();
+    expect(readServerTime).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    await clock.ensureSynced();
+    expect(readServerTime).toHaveBeenCalledTimes(2);
+  });
+});
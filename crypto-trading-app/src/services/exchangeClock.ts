@@ -0,0 +1,126 @@
+import type { Exchange, TradingType } from '../types/exchange';
+import { getExchangeAdapter } from './exchanges/registry';
+
+export interface ExchangeClockOptions {
+  // Server time readings per sync; the one with the shortest round trip is kept
+  samples?: number;
+  // ensureSynced() remeasures offsets older than this
+  maxAgeMs?: number;
+}
+
+// Reads the exchange's clock, in milliseconds
+export type ServerTimeSource = () => Promise<number>;
+
+/**
+ * Estimate of an exchange's clock. Each reading assumes the server read its
+ * clock halfway through the round trip, so it is off by at most half the
+ * round trip; of several readings the one with the shortest round trip wins.
+ */
+export class ExchangeClock {
+  private readonly options: Required<ExchangeClockOptions>;
+
+  private offsetMs = 0;
+  private roundTripMs?: number;
+  private syncedAt?: number;
+  private pending: Promise<number> | null = null;
+
+  constructor(
+    readonly name: string,
+    private readonly readServerTime: ServerTimeSource,
+    options: ExchangeClockOptions = {}
+  ) {
+    this.options = {
+      samples: options.samples ?? 3,
+      maxAgeMs: options.maxAgeMs ?? 30 * 60 * 1000
+    };
+  }
+
+  // Current time on the exchange's clock; local time until the first sync
+  now(): number {
+    return Date.now() + this.offsetMs;
+  }
+
+  // Milliseconds the exchange's clock is ahead of ours
+  getOffset(): number {
+    return this.offsetMs;
+  }
+
+  // Round trip of the reading behind the offset; half of it bounds the error
+  getRoundTrip(): number | undefined {
+    return this.roundTripMs;
+  }
+
+  getSyncedAt(): number | undefined {
+    return this.syncedAt;
+  }
+
+  isSynced(): boolean {
+    return this.syncedAt !== undefined;
+  }
+
+  /**
+   * Remeasure the offset. Concurrent calls share one measurement.
+   */
+  sync(): Promise<number> {
+    if (!this.pending) {
+      this.pending = this.measure().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  // Sync unless the last measurement is recent enough
+  async ensureSynced(): Promise<void> {
+    if (this.syncedAt === undefined || Date.now() - this.syncedAt > this.options.maxAgeMs) {
+      await this.sync();
+    }
+  }
+
+  private async measure(): Promise<number> {
+    let best: { offsetMs: number; roundTripMs: number } | undefined;
+
+    // One after another, so the readings do not queue behind each other
+    for (let i = 0; i < this.options.samples; i++) {
+      const sentAt = Date.now();
+      const serverTime = await this.readServerTime();
+      const receivedAt = Date.now();
+
+      const roundTripMs = receivedAt - sentAt;
+      if (!best || roundTripMs < best.roundTripMs) {
+        best = { offsetMs: Math.round(serverTime - (sentAt + receivedAt) / 2), roundTripMs };
+      }
+    }
+
+    if (best) {
+      this.offsetMs = best.offsetMs;
+      this.roundTripMs = best.roundTripMs;
+    }
+    this.syncedAt = Date.now();
+    return this.offsetMs;
+  }
+}
+
+// One per exchange and trading type, since each trading type may be served by another host
+const clocks = new Map<string, ExchangeClock>();
+
+/**
+ * Shared clock for an exchange's market, measured with the adapter's
+ * getServerTime. Exchanges without one keep local time.
+ */
+export function getExchangeClock(exchange: Exchange, tradingType: TradingType): ExchangeClock {
+  const key = `${exchange}:${tradingType}`;
+  let clock = clocks.get(key);
+
+  if (!clock) {
+    const adapter = getExchangeAdapter(exchange);
+    const getServerTime = adapter.getServerTime;
+    const readServerTime: ServerTimeSource = getServerTime
+      ? () => getServerTime(tradingType)
+      : async () => Date.now();
+    clock = new ExchangeClock(`${adapter.name} ${tradingType}`, readServerTime);
+    clocks.set(key, clock);
+  }
+
+  return clock;
+}
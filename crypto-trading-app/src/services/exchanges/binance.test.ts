@@ -0,0 +1,63 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { readFixtureFile } from '../../backend/fixtureFiles';
+import { replayFixtures } from './fixtures';
+import { getHttpTransport, setHttpTransport } from './http';
+import { binanceAdapter } from './binance';
+import { ExchangeAPI } from '../exchangeAPI';
+
+const FIXTURES = fileURLToPath(new URL('./__fixtures__/binance.json', import.meta.url));
+
+let restore: () => void;
+
+beforeAll(async () => {
+  restore = replayFixtures(await readFixtureFile(FIXTURES));
+});
+
+afterAll(() => restore());
+
+describe('binance COIN-M open interest', () => {
+  it('asks for the perpetual by contract type', async () => {
+    const history = await binanceAdapter.derivatives!.getOpenInterestHistory('BTCUSD_PERP', 'inverse', '1h', 2);
+
+    expect(history.map(item => item.openInterest)).toEqual(['5123480', '5131022']);
+    expect(history[0].symbol).toBe('BTCUSD_PERP');
+  });
+
+  it('maps quarterlies to their place in the roll', async () => {
+    const current = await binanceAdapter.derivatives!.getOpenInterestHistory('BTCUSD_240628', 'inverse', '1h', 2);
+    const next = await binanceAdapter.derivatives!.getOpenInterestHistory('BTCUSD_240927', 'inverse', '1h', 2);
+
+    expect(current.map(item => item.openInterest)).toEqual(['1802233', '1799871']);
+    expect(next).toEqual([
+      { symbol: 'BTCUSD_240927', timestamp: 1718780400000, openInterest: '411209', openInterestValue: '631.90222' },
+      { symbol: 'BTCUSD_240927', timestamp: 1718784000000, openInterest: '412870', openInterestValue: '634.43170' }
+    ]);
+  });
+
+  it('reads the roll from the cached instrument list', async () => {
+    const replay = getHttpTransport();
+    const requested: string[] = [];
+    setHttpTransport((url, init) => {
+      requested.push(new URL(url).pathname);
+      return replay(url, init);
+    });
+
+    try {
+      const current = await ExchangeAPI.getOpenInterestHistory('binance', 'inverse', 'BTCUSD_240628', '1h', 2);
+      const next = await ExchangeAPI.getOpenInterestHistory('binance', 'inverse', 'BTCUSD_240927', '1h', 2);
+
+      expect(current.map(item => item.openInterest)).toEqual(['1802233', '1799871']);
+      expect(next.map(item => item.openInterest)).toEqual(['411209', '412870']);
+      expect(requested.filter(path => path === '/dapi/v1/exchangeInfo')).toHaveLength(1);
+    } finally {
+      setHttpTransport(replay);
+    }
+  });
+
+  it('rejects quarterlies that are not listed', async () => {
+    await expect(binanceAdapter.derivatives!.getOpenInterestHistory('BTCUSD_231229', 'inverse', '1h', 2)).rejects.toMatchObject({
+      kind: 'invalid-symbol'
+    });
+  });
+});
@@ -0,0 +1,789 @@
+import type {
+  TradingType,
+  Timeframe,
+  ExchangeAdapter,
+  ExchangeConfig,
+  RateLimitPolicy,
+  KlineData,
+  KlineRange,
+  TickerData,
+  SymbolInfo,
+  OrderBookSnapshot,
+  Trade,
+  ClassifiedError,
+  DerivativesDataAdapter,
+  FundingRate,
+  PredictedFunding,
+  OpenInterest,
+  OpenInterestPeriod,
+  PriceKlineType,
+  BinanceTickerResponse,
+  ExchangeStreamSpec,
+  StreamMessage,
+  AccountDataAdapter,
+  AccountBalance,
+  Position,
+  OpenOrder,
+  SigningContext,
+  RequestSigner,
+  SymbolCodec,
+  InstrumentSpec
+} from '../../types/exchange';
+import { z } from 'zod';
+import { makeAPICall, validateResponse } from './http';
+import { createExchangeError } from './errors';
+import {
+  binanceKlineSchema,
+  binanceTickerSchema,
+  binanceExchangeInfoSchema,
+  binanceKlineStreamSchema,
+  binanceTickerStreamSchema,
+  binanceFundingRateSchema,
+  binancePremiumIndexSchema,
+  binanceOpenInterestSchema,
+  binanceDepthSchema,
+  binanceDepthStreamSchema,
+  binanceAggTradesSchema,
+  binanceAggTradeStreamSchema,
+  binanceServerTimeSchema,
+  binanceSpotAccountSchema,
+  binanceFuturesBalanceSchema,
+  binancePositionRiskSchema,
+  binanceOpenOrdersSchema
+} from './schemas';
+import { hmacSha256Hex } from './signing';
+import { splitPair, splitMultiplier, withMultiplier, getTradingType, isExpiry } from './symbolCodec';
+import { findTimeframe } from '../timeframes';
+import { sumDecimals, subtractDecimals } from '../precision';
+
+// Binance reports the weight used in the current minute on every response
+function readUsedWeight(headers: Headers) {
+  const used = headers.get('X-MBX-USED-WEIGHT-1M');
+  if (used === null) return undefined;
+  return { used: parseInt(used), resetAt: Math.ceil((Date.now() + 1) / 60000) * 60000 };
+}
+
+const SPOT_RATE_LIMIT: RateLimitPolicy = { maxWeight: 6000, windowMs: 60000, readUsage: readUsedWeight };
+const FUTURES_RATE_LIMIT: RateLimitPolicy = { maxWeight: 2400, windowMs: 60000, readUsage: readUsedWeight };
+
+// Errors arrive as {code, msg} with a 4xx or 5xx status
+function classifyError(status: number, body: unknown): ClassifiedError | undefined {
+  if (status < 400) return undefined;
+  
+  const { code, msg } = (typeof body === 'object' && body !== null ? body : {}) as { code?: number; msg?: string };
+  const message = msg ?? `HTTP ${status}`;
+  
+  if (code === -1121) return { kind: 'invalid-symbol', message, code };
+  if (code === -1021) return { kind: 'clock-skew', message, code };
+  // Bad signature, malformed or unknown key, or a key without this permission or IP
+  if (code === -1022 || code === -2014 || code === -2015 || status === 401) {
+    return { kind: 'unauthorized', message, code: code ?? status };
+  }
+  if (status === 418) return { kind: 'banned', message, code: status };
+  // Web application firewall block
+  if (status === 403) return { kind: 'banned', message: 'Request blocked by the Binance firewall', code: status };
+  if (status === 429 || code === -1003) return { kind: 'rate-limited', message, code: status };
+  if (code === -1001 || code === -1008) return { kind: 'network', message, code };
+  if (code !== undefined && status < 500) return { kind: 'rejected', message, code };
+  return undefined;
+}
+
+const CONFIGS: Record<TradingType, ExchangeConfig> = {
+  spot: {
+    exchange: 'binance',
+    tradingType: 'spot',
+    baseUrl: 'https://api.binance.com/api/v3',
+    endpoints: {
+      klines: '/klines',
+      ticker: '/ticker/24hr',
+      symbols: '/exchangeInfo',
+      orderBook: '/depth',
+      trades: '/aggTrades',
+      // From the host root
+      serverTime: '/api/v3/time',
+      balances: '/api/v3/account',
+      openOrders: '/api/v3/openOrders'
+    },
+    rateLimit: SPOT_RATE_LIMIT
+  },
+  futures: {
+    exchange: 'binance',
+    tradingType: 'futures',
+    baseUrl: 'https://fapi.binance.com/fapi/v1',
+    endpoints: {
+      klines: '/klines',
+      ticker: '/ticker/24hr',
+      symbols: '/exchangeInfo',
+      orderBook: '/depth',
+      trades: '/aggTrades',
+      fundingRate: '/fundingRate',
+      premiumIndex: '/premiumIndex',
+      openInterestHistory: '/futures/data/openInterestHist', // From the host root
+      markPriceKlines: '/markPriceKlines',
+      indexPriceKlines: '/indexPriceKlines',
+      // From the host root; v2 balance and positionRisk still report leverage and margin type
+      serverTime: '/fapi/v1/time',
+      balances: '/fapi/v2/balance',
+      positions: '/fapi/v2/positionRisk',
+      openOrders: '/fapi/v1/openOrders'
+    },
+    rateLimit: FUTURES_RATE_LIMIT
+  },
+  // COIN-M: coin-margined perpetuals and quarterlies
+  inverse: {
+    exchange: 'binance',
+    tradingType: 'inverse',
+    baseUrl: 'https://dapi.binance.com/dapi/v1',
+    endpoints: {
+      klines: '/klines',
+      ticker: '/ticker/24hr',
+      symbols: '/exchangeInfo',
+      orderBook: '/depth',
+      trades: '/aggTrades',
+      fundingRate: '/fundingRate',
+      premiumIndex: '/premiumIndex',
+      openInterestHistory: '/futures/data/openInterestHist', // From the host root
+      markPriceKlines: '/markPriceKlines',
+      indexPriceKlines: '/indexPriceKlines',
+      // From the host root
+      serverTime: '/dapi/v1/time',
+      balances: '/dapi/v1/balance',
+      positions: '/dapi/v1/positionRisk',
+      openOrders: '/dapi/v1/openOrders'
+    },
+    rateLimit: FUTURES_RATE_LIMIT
+  }
+};
+
+// Request weights from the Binance API docs
+function getKlineWeight(limit: number): number {
+  if (limit < 100) return 1;
+  if (limit < 500) return 2;
+  if (limit <= 1000) return 5;
+  return 10;
+}
+
+// Spot takes any limit up to 5000; futures only these
+const FUTURES_DEPTH_LIMITS = [5, 10, 20, 50, 100, 500, 1000];
+
+function getDepthWeight(limit: number, tradingType: TradingType): number {
+  if (tradingType === 'spot') {
+    if (limit <= 100) return 5;
+    if (limit <= 500) return 25;
+    if (limit <= 1000) return 50;
+    return 250;
+  }
+  if (limit <= 50) return 2;
+  if (limit <= 100) return 5;
+  if (limit <= 500) return 10;
+  return 20;
+}
+
+const TIMEFRAMES: Partial<Record<Timeframe, string>> = {
+  '1m': '1m',
+  '3m': '3m',
+  '5m': '5m',
+  '15m': '15m',
+  '30m': '30m',
+  '1h': '1h',
+  '2h': '2h',
+  '4h': '4h',
+  '6h': '6h',
+  '8h': '8h',
+  '12h': '12h',
+  '1d': '1d',
+  '3d': '3d',
+  '1w': '1w',
+  '1M': '1M'
+};
+
+async function getKlines(
+  symbol: string,
+  timeframe: Timeframe,
+  tradingType: TradingType,
+  limit: number,
+  range: KlineRange = {}
+): Promise<KlineData[]> {
+  const config = CONFIGS[tradingType];
+  const interval = TIMEFRAMES[timeframe];
+  
+  let url = `${config.baseUrl}${config.endpoints.klines}?symbol=${symbol}&interval=${interval}&limit=${limit}`;
+  
+  if (range.startTime !== undefined) url += `&startTime=${range.startTime}`;
+  if (range.endTime !== undefined) url += `&endTime=${range.endTime}`;
+  
+  const response = await makeAPICall(url, 'binance', binanceKlineSchema, config.rateLimit, getKlineWeight(limit));
+  
+  // COIN-M volume counts contracts; column 7 is the base asset volume, not quote
+  if (tradingType === 'inverse') {
+    return response.map(item => ({
+      openTime: item[0],
+      open: item[1],
+      high: item[2],
+      low: item[3],
+      close: item[4],
+      volume: item[5],
+      volumeUnit: 'contracts' as const,
+      baseVolume: item[7],
+      closeTime: item[6],
+      numberOfTrades: item[8],
+      takerBuyBaseAssetVolume: item[10]
+    }));
+  }
+  
+  return response.map(item => ({
+    openTime: item[0],
+    open: item[1],
+    high: item[2],
+    low: item[3],
+    close: item[4],
+    volume: item[5],
+    closeTime: item[6],
+    quoteAssetVolume: item[7],
+    numberOfTrades: item[8],
+    takerBuyBaseAssetVolume: item[9],
+    takerBuyQuoteAssetVolume: item[10]
+  }));
+}
+
+async function getTicker(symbol: string, tradingType: TradingType): Promise<TickerData> {
+  const config = CONFIGS[tradingType];
+  const url = `${config.baseUrl}${config.endpoints.ticker}?symbol=${symbol}`;
+  
+  const response = await makeAPICall(url, 'binance', binanceTickerSchema, config.rateLimit, 2);
+  
+  return mapTicker(response);
+}
+
+// Without a symbol the endpoint returns every ticker
+async function getAllTickers(tradingType: TradingType): Promise<TickerData[]> {
+  const config = CONFIGS[tradingType];
+  const url = `${config.baseUrl}${config.endpoints.ticker}`;
+  
+  const response = await makeAPICall(url, 'binance', z.array(binanceTickerSchema), config.rateLimit, tradingType === 'spot' ? 80 : 40);
+  
+  return response.map(mapTicker);
+}
+
+async function getOrderBook(symbol: string, tradingType: TradingType, limit: number): Promise<OrderBookSnapshot> {
+  const config = CONFIGS[tradingType];
+  const depth = tradingType === 'spot'
+    ? Math.min(limit, 5000)
+    : FUTURES_DEPTH_LIMITS.find(allowed => allowed >= limit) ?? 1000;
+  const url = `${config.baseUrl}${config.endpoints.orderBook}?symbol=${symbol}&limit=${depth}`;
+  
+  const response = await makeAPICall(url, 'binance', binanceDepthSchema, config.rateLimit, getDepthWeight(depth, tradingType));
+  
+  return {
+    symbol,
+    bids: response.bids.slice(0, limit),
+    asks: response.asks.slice(0, limit),
+    sequence: response.lastUpdateId,
+    timestamp: response.T ?? Date.now() // Spot does not say
+  };
+}
+
+// Aggregate trades fold fills of one taker order at one price into a single trade
+async function getRecentTrades(symbol: string, tradingType: TradingType, limit: number): Promise<Trade[]> {
+  const config = CONFIGS[tradingType];
+  const url = `${config.baseUrl}${config.endpoints.trades}?symbol=${symbol}&limit=${Math.min(limit, 1000)}`;
+  
+  const response = await makeAPICall(url, 'binance', binanceAggTradesSchema, config.rateLimit, tradingType === 'spot' ? 4 : 20);
+  
+  return response.map(trade => mapAggTrade(symbol, trade));
+}
+
+function mapAggTrade(symbol: string, trade: { a: number; p: string; q: string; T: number; m: boolean }): Trade {
+  return {
+    id: trade.a.toString(),
+    symbol,
+    price: trade.p,
+    quantity: trade.q,
+    side: trade.m ? 'sell' : 'buy',
+    time: trade.T
+  };
+}
+
+function mapTicker(response: BinanceTickerResponse): TickerData {
+  // COIN-M reports contracts and base volume only; derive the USD volume
+  const baseVolume = response.baseVolume ?? response.volume;
+  const quoteVolume = response.quoteVolume
+    ?? (parseFloat(baseVolume) * parseFloat(response.weightedAvgPrice)).toString();
+  
+  return {
+    symbol: response.symbol,
+    price: response.lastPrice,
+    priceChange: response.priceChange,
+    priceChangePercent: response.priceChangePercent,
+    highPrice: response.highPrice,
+    lowPrice: response.lowPrice,
+    volume: baseVolume,
+    quoteVolume,
+    openPrice: response.openPrice,
+    prevClosePrice: response.prevClosePrice ?? response.openPrice, // Not reported by futures
+    bidPrice: response.bidPrice,
+    askPrice: response.askPrice,
+    weightedAvgPrice: response.weightedAvgPrice
+  };
+}
+
+async function getInstruments(tradingType: TradingType): Promise<SymbolInfo[]> {
+  const config = CONFIGS[tradingType];
+  const url = `${config.baseUrl}${config.endpoints.symbols}`;
+  
+  const response = await makeAPICall(url, 'binance', binanceExchangeInfoSchema, config.rateLimit, tradingType === 'spot' ? 20 : 1);
+  
+  return response.symbols.map((s): SymbolInfo => {
+    const priceFilter = s.filters.find(f => f.filterType === 'PRICE_FILTER');
+    const lotSize = s.filters.find(f => f.filterType === 'LOT_SIZE');
+    const status = s.status ?? s.contractStatus ?? 'UNKNOWN';
+    const contractType = !s.contractType ? 'spot' : s.contractType === 'PERPETUAL' ? 'perpetual' : 'delivery';
+    
+    return {
+      symbol: s.symbol,
+      baseAsset: s.baseAsset,
+      quoteAsset: s.quoteAsset,
+      status,
+      isTrading: status === 'TRADING',
+      contractType,
+      venueContractType: s.contractType || undefined,
+      margin: tradingType === 'spot' ? undefined : tradingType === 'inverse' ? 'inverse' : 'linear',
+      settleAsset: s.marginAsset,
+      contractSize: s.contractSize !== undefined ? s.contractSize.toString() : undefined,
+      deliveryTime: contractType === 'delivery' ? s.deliveryDate : undefined,
+      tickSize: priceFilter?.tickSize,
+      minPrice: priceFilter?.minPrice,
+      maxPrice: priceFilter?.maxPrice,
+      stepSize: lotSize?.stepSize,
+      minQty: lotSize?.minQty,
+      maxQty: lotSize?.maxQty
+    };
+  });
+}
+
+// BTCUSDT for spot and USDⓈ-M perpetuals, BTCUSDT_250627 for USDⓈ-M delivery,
+// BTCUSD_PERP and BTCUSD_250627 for COIN-M
+const symbols: SymbolCodec = {
+  parse(symbol: string, tradingType: TradingType): InstrumentSpec | undefined {
+    const [pairSymbol, suffix, ...rest] = symbol.split('_');
+    const pair = splitPair(pairSymbol);
+    if (!pair || rest.length > 0) return undefined;
+    
+    const { base, multiplier } = splitMultiplier(pair.base);
+    if (tradingType === 'spot') {
+      return suffix === undefined
+        ? { base, quote: pair.quote, settlement: pair.quote, contractType: 'spot', multiplier }
+        : undefined;
+    }
+    
+    const expiry = suffix === undefined || suffix === 'PERP' ? undefined : suffix;
+    if (expiry !== undefined && !isExpiry(expiry)) return undefined;
+    // COIN-M symbols always carry a suffix; USDⓈ-M perpetuals never do
+    if (tradingType === 'inverse' ? pair.quote !== 'USD' || suffix === undefined : suffix === 'PERP') {
+      return undefined;
+    }
+    
+    return {
+      base,
+      quote: pair.quote,
+      settlement: tradingType === 'inverse' ? base : pair.quote,
+      contractType: expiry ? 'delivery' : 'perpetual',
+      multiplier,
+      expiry
+    };
+  },
+  
+  format(spec: InstrumentSpec): string | undefined {
+    const pair = `${withMultiplier(spec)}${spec.quote}`;
+    
+    switch (getTradingType(spec)) {
+      case 'spot':
+        return pair;
+      case 'futures':
+        if (spec.settlement !== spec.quote) return undefined;
+        return spec.expiry ? `${pair}_${spec.expiry}` : pair;
+      case 'inverse':
+        if (spec.quote !== 'USD') return undefined;
+        return `${pair}_${spec.expiry ?? 'PERP'}`;
+    }
+  }
+};
+
+// Derivatives market data
+
+function getDerivativesConfig(tradingType: TradingType): ExchangeConfig {
+  if (tradingType === 'spot') {
+    throw new Error('Binance spot has no funding, open interest or mark price data');
+  }
+  return CONFIGS[tradingType];
+}
+
+function appendRange(url: string, range: KlineRange): string {
+  if (range.startTime !== undefined) url += `&startTime=${range.startTime}`;
+  if (range.endTime !== undefined) url += `&endTime=${range.endTime}`;
+  return url;
+}
+
+// Index prices are per pair: BTCUSDT_240628 and BTCUSD_PERP track BTCUSDT and BTCUSD
+function getPair(symbol: string): string {
+  return symbol.split('_')[0];
+}
+
+async function getFundingRateHistory(
+  symbol: string,
+  tradingType: TradingType,
+  limit: number,
+  range: KlineRange = {}
+): Promise<FundingRate[]> {
+  const config = getDerivativesConfig(tradingType);
+  const url = appendRange(`${config.baseUrl}${config.endpoints.fundingRate}?symbol=${symbol}&limit=${limit}`, range);
+  
+  const response = await makeAPICall(url, 'binance', binanceFundingRateSchema, config.rateLimit);
+  
+  return response.map(item => ({
+    symbol: item.symbol,
+    fundingTime: item.fundingTime,
+    fundingRate: item.fundingRate,
+    markPrice: item.markPrice || undefined
+  }));
+}
+
+async function getPredictedFunding(symbol: string, tradingType: TradingType): Promise<PredictedFunding> {
+  const config = getDerivativesConfig(tradingType);
+  const url = `${config.baseUrl}${config.endpoints.premiumIndex}?symbol=${symbol}`;
+  
+  const response = await makeAPICall(url, 'binance', binancePremiumIndexSchema, config.rateLimit, 10);
+  const index = Array.isArray(response) ? response.find(item => item.symbol === symbol) : response;
+  if (!index) {
+    throw createExchangeError('binance', url, { kind: 'invalid-symbol', message: `No premium index for ${symbol}` });
+  }
+  
+  return {
+    symbol: index.symbol,
+    fundingRate: index.lastFundingRate || '0',
+    nextFundingTime: index.nextFundingTime,
+    markPrice: index.markPrice,
+    indexPrice: index.indexPrice,
+    timestamp: index.time
+  };
+}
+
+// COIN-M quarterlies are addressed by their place in the roll rather than their
+// delivery date: BTCUSD_250627 is CURRENT_QUARTER until it delivers
+async function getQuarterType(symbol: string, instruments: () => Promise<SymbolInfo[]>): Promise<string> {
+  const config = CONFIGS.inverse;
+  const url = `${config.baseUrl}${config.endpoints.symbols}`;
+  
+  const contractType = (await instruments()).find(info => info.symbol === symbol)?.venueContractType;
+  
+  if (contractType !== 'CURRENT_QUARTER' && contractType !== 'NEXT_QUARTER') {
+    throw createExchangeError('binance', url, { kind: 'invalid-symbol', message: `${symbol} is not a listed quarterly contract` });
+  }
+  return contractType;
+}
+
+// Only the last 30 days are available
+async function getOpenInterestHistory(
+  symbol: string,
+  tradingType: TradingType,
+  period: OpenInterestPeriod,
+  limit: number,
+  range: KlineRange = {},
+  instruments: () => Promise<SymbolInfo[]> = () => getInstruments(tradingType)
+): Promise<OpenInterest[]> {
+  const config = getDerivativesConfig(tradingType);
+  const origin = new URL(config.baseUrl).origin;
+  
+  // COIN-M asks for the pair and contract type instead of the symbol
+  const instrument = tradingType === 'inverse'
+    ? `pair=${getPair(symbol)}&contractType=${symbol.endsWith('_PERP') ? 'PERPETUAL' : await getQuarterType(symbol, instruments)}`
+    : `symbol=${symbol}`;
+  const url = appendRange(
+    `${origin}${config.endpoints.openInterestHistory}?${instrument}&period=${period}&limit=${limit}`,
+    range
+  );
+  
+  const response = await makeAPICall(url, 'binance', binanceOpenInterestSchema, config.rateLimit);
+  
+  return response.map(item => ({
+    symbol,
+    timestamp: item.timestamp,
+    openInterest: item.sumOpenInterest,
+    openInterestValue: item.sumOpenInterestValue
+  }));
+}
+
+async function getPriceKlines(
+  symbol: string,
+  timeframe: Timeframe,
+  tradingType: TradingType,
+  type: PriceKlineType,
+  limit: number,
+  range: KlineRange = {}
+): Promise<KlineData[]> {
+  const config = getDerivativesConfig(tradingType);
+  const instrument = type === 'mark' ? `symbol=${symbol}` : `pair=${getPair(symbol)}`;
+  const endpoint = type === 'mark' ? config.endpoints.markPriceKlines : config.endpoints.indexPriceKlines;
+  const url = appendRange(
+    `${config.baseUrl}${endpoint}?${instrument}&interval=${TIMEFRAMES[timeframe]}&limit=${limit}`,
+    range
+  );
+  
+  const response = await makeAPICall(url, 'binance', binanceKlineSchema, config.rateLimit, getKlineWeight(limit));
+  
+  return response.map(item => ({
+    openTime: item[0],
+    open: item[1],
+    high: item[2],
+    low: item[3],
+    close: item[4],
+    volume: '0',
+    closeTime: item[6]
+  }));
+}
+
+const derivatives: DerivativesDataAdapter = {
+  getFundingRateHistory,
+  getPredictedFunding,
+  getOpenInterestHistory,
+  getPriceKlines,
+  maxFundingLimit: 1000,
+  maxOpenInterestLimit: 500
+};
+
+// Server time and signed account data
+
+function getAccountUrl(tradingType: TradingType, endpoint: string | undefined): string {
+  return `${new URL(CONFIGS[tradingType].baseUrl).origin}${endpoint}`;
+}
+
+async function getServerTime(tradingType: TradingType): Promise<number> {
+  const config = CONFIGS[tradingType];
+  const url = getAccountUrl(tradingType, config.endpoints.serverTime);
+  
+  const response = await makeAPICall(url, 'binance', binanceServerTimeSchema, config.rateLimit);
+  return response.serverTime;
+}
+
+// Appends recvWindow, timestamp and the HMAC of the whole query string
+function createSigner(context: SigningContext): RequestSigner {
+  return async url => {
+    const [path, query] = url.split('?');
+    const params = `${query ? `${query}&` : ''}recvWindow=${context.recvWindow}&timestamp=${Math.round(context.now())}`;
+    const signature = await hmacSha256Hex(context.signingKey, params);
+    
+    return {
+      url: `${path}?${params}&signature=${signature}`,
+      headers: { 'X-MBX-APIKEY': context.apiKey }
+    };
+  };
+}
+
+async function getBalances(context: SigningContext, tradingType: TradingType): Promise<AccountBalance[]> {
+  const config = CONFIGS[tradingType];
+  const sign = createSigner(context);
+  
+  if (tradingType === 'spot') {
+    const url = `${getAccountUrl(tradingType, config.endpoints.balances)}?omitZeroBalances=true`;
+    const response = await makeAPICall(url, 'binance', binanceSpotAccountSchema, config.rateLimit, 20, sign);
+    
+    return response.balances.map(balance => ({
+      asset: balance.asset,
+      free: balance.free,
+      locked: balance.locked,
+      total: sumDecimals([balance.free, balance.locked])
+    }));
+  }
+  
+  const url = getAccountUrl(tradingType, config.endpoints.balances);
+  const response = await makeAPICall(url, 'binance', binanceFuturesBalanceSchema, config.rateLimit, 5, sign);
+  
+  return response
+    .filter(balance => parseFloat(balance.balance) !== 0 || parseFloat(balance.crossUnPnl) !== 0)
+    .map(balance => {
+      // Unrealized profit in cross margin can make more available than the wallet holds
+      const locked = subtractDecimals(balance.balance, balance.availableBalance);
+      return {
+        asset: balance.asset,
+        free: balance.availableBalance,
+        locked: parseFloat(locked) > 0 ? locked : '0',
+        total: balance.balance,
+        unrealizedPnl: balance.crossUnPnl
+      };
+    });
+}
+
+async function getPositions(context: SigningContext, tradingType: TradingType): Promise<Position[]> {
+  if (tradingType === 'spot') return [];
+  
+  const config = CONFIGS[tradingType];
+  const url = getAccountUrl(tradingType, config.endpoints.positions);
+  const response = await makeAPICall(url, 'binance', binancePositionRiskSchema, config.rateLimit, 5, createSigner(context));
+  
+  return response
+    .filter(position => parseFloat(position.positionAmt) !== 0)
+    .map(position => ({
+      symbol: position.symbol,
+      side: position.positionAmt.startsWith('-') ? 'short' as const : 'long' as const,
+      quantity: position.positionAmt.replace(/^-/, ''),
+      entryPrice: position.entryPrice,
+      markPrice: position.markPrice,
+      unrealizedPnl: position.unRealizedProfit,
+      leverage: position.leverage,
+      liquidationPrice: parseFloat(position.liquidationPrice) > 0 ? position.liquidationPrice : undefined,
+      marginMode: position.marginType.toLowerCase() === 'isolated' ? 'isolated' as const : 'cross' as const,
+      updatedAt: position.updateTime
+    }));
+}
+
+async function getOpenOrders(context: SigningContext, tradingType: TradingType, symbol?: string): Promise<OpenOrder[]> {
+  const config = CONFIGS[tradingType];
+  const endpoint = getAccountUrl(tradingType, config.endpoints.openOrders);
+  const url = symbol ? `${endpoint}?symbol=${symbol}` : endpoint;
+  
+  // Asking for every symbol costs far more
+  const weight = tradingType === 'spot' ? (symbol ? 6 : 80) : (symbol ? 1 : 40);
+  const response = await makeAPICall(url, 'binance', binanceOpenOrdersSchema, config.rateLimit, weight, createSigner(context));
+  
+  return response.map(order => ({
+    id: String(order.orderId),
+    symbol: order.symbol,
+    side: order.side === 'BUY' ? 'buy' as const : 'sell' as const,
+    type: order.type,
+    price: order.price,
+    quantity: order.origQty,
+    filledQuantity: order.executedQty,
+    status: order.status,
+    reduceOnly: order.reduceOnly ?? false,
+    createdAt: order.time
+  }));
+}
+
+const account: AccountDataAdapter = {
+  recvWindow: 5000,
+  getBalances,
+  getPositions,
+  getOpenOrders
+};
+
+// WebSocket streams. Binance answers server pings itself, so no app-level ping.
+let nextRequestId = 1;
+
+function parseStreamMessage(raw: string, tradingType: TradingType): StreamMessage[] {
+  // COIN-M streams count volume in contracts and report base volume in place of quote
+  const inverse = tradingType === 'inverse';
+  const payload = JSON.parse(raw);
+  
+  if (payload.e === 'kline') {
+    const message = validateResponse(payload, binanceKlineStreamSchema, 'binance', 'stream');
+    const k = message.k;
+    const timeframe = findTimeframe(TIMEFRAMES, k.i);
+    if (!timeframe) return [];
+    
+    return [{
+      type: 'kline',
+      symbol: message.s,
+      timeframe,
+      isClosed: k.x,
+      kline: {
+        openTime: k.t,
+        open: k.o,
+        high: k.h,
+        low: k.l,
+        close: k.c,
+        volume: k.v,
+        closeTime: k.T,
+        numberOfTrades: k.n,
+        ...(inverse
+          ? { volumeUnit: 'contracts' as const, baseVolume: k.q, takerBuyBaseAssetVolume: k.Q }
+          : { quoteAssetVolume: k.q, takerBuyBaseAssetVolume: k.V, takerBuyQuoteAssetVolume: k.Q })
+      }
+    }];
+  }
+  
+  if (payload.e === '24hrTicker') {
+    const message = validateResponse(payload, binanceTickerStreamSchema, 'binance', 'stream');
+    return [{
+      type: 'ticker',
+      symbol: message.s,
+      ticker: {
+        symbol: message.s,
+        price: message.c,
+        priceChange: message.p,
+        priceChangePercent: message.P,
+        highPrice: message.h,
+        lowPrice: message.l,
+        volume: inverse ? message.q : message.v,
+        quoteVolume: inverse ? (parseFloat(message.q) * parseFloat(message.w)).toString() : message.q,
+        openPrice: message.o,
+        prevClosePrice: message.x,
+        bidPrice: message.b,
+        askPrice: message.a,
+        weightedAvgPrice: message.w
+      }
+    }];
+  }
+  
+  if (payload.e === 'depthUpdate') {
+    const message = validateResponse(payload, binanceDepthStreamSchema, 'binance', 'stream');
+    return [{
+      type: 'depth',
+      symbol: message.s,
+      diff: {
+        symbol: message.s,
+        bids: message.b,
+        asks: message.a,
+        firstSequence: message.U,
+        lastSequence: message.u,
+        previousSequence: message.pu,
+        isSnapshot: false,
+        timestamp: message.T ?? message.E
+      }
+    }];
+  }
+  
+  if (payload.e === 'aggTrade') {
+    const message = validateResponse(payload, binanceAggTradeStreamSchema, 'binance', 'stream');
+    return [{ type: 'trade', symbol: message.s, trades: [mapAggTrade(message.s, message)] }];
+  }
+  
+  return []; // Subscription acknowledgements
+}
+
+const stream: ExchangeStreamSpec = {
+  getUrl: tradingType => ({
+    spot: 'wss://stream.binance.com:9443/ws',
+    futures: 'wss://fstream.binance.com/ws',
+    inverse: 'wss://dstream.binance.com/ws'
+  })[tradingType],
+  klineTopic: (symbol, timeframe) => `${symbol.toLowerCase()}@kline_${TIMEFRAMES[timeframe]}`,
+  tickerTopic: symbol => `${symbol.toLowerCase()}@ticker`,
+  depthTopic: symbol => `${symbol.toLowerCase()}@depth@100ms`,
+  tradeTopic: symbol => `${symbol.toLowerCase()}@aggTrade`,
+  subscribeMessage: topics => JSON.stringify({ method: 'SUBSCRIBE', params: topics, id: nextRequestId++ }),
+  unsubscribeMessage: topics => JSON.stringify({ method: 'UNSUBSCRIBE', params: topics, id: nextRequestId++ }),
+  parseMessage: parseStreamMessage
+};
+
+export const binanceAdapter: ExchangeAdapter = {
+  id: 'binance',
+  name: 'Binance',
+  capabilities: {
+    tradingTypes: ['spot', 'futures', 'inverse'],
+    maxKlineLimit: 1000,
+    maxDepthLimit: 1000
+  },
+  timeframes: TIMEFRAMES,
+  getKlines,
+  getTicker,
+  getAllTickers,
+  getInstruments,
+  getOrderBook,
+  getRecentTrades,
+  classifyError,
+  derivatives,
+  getServerTime,
+  account,
+  symbols,
+  stream
+};
@@ -0,0 +1,52 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { readFixtureFile } from '../../backend/fixtureFiles';
+import { replayFixtures } from './fixtures';
+import { bybitAdapter } from './bybit';
+
+const FIXTURES = fileURLToPath(new URL('./__fixtures__/bybit.json', import.meta.url));
+
+let restore: () => void;
+
+beforeAll(async () => {
+  restore = replayFixtures(await readFixtureFile(FIXTURES));
+});
+
+afterAll(() => restore());
+
+describe('bybit inverse klines', () => {
+  // The same closed candle as the REST recording, pushed on the stream
+  const streamMessage = JSON.stringify({
+    topic: 'kline.1.BTCUSD',
+    type: 'snapshot',
+    ts: 1718784060123,
+    data: [{
+      start: 1718784000000,
+      end: 1718784059999,
+      interval: '1',
+      open: '65001.5',
+      close: '65030',
+      high: '65050',
+      low: '64990',
+      volume: '1250400',
+      turnover: '19.2311',
+      confirm: true,
+      timestamp: 1718784060123
+    }]
+  });
+
+  it('counts volume in contracts with the coin amount as base volume', async () => {
+    const [kline] = await bybitAdapter.getKlines('BTCUSD', '1m', 'inverse', 1);
+
+    expect(kline).toMatchObject({ volume: '1250400', volumeUnit: 'contracts', baseVolume: '19.2311' });
+    expect(kline.quoteAssetVolume).toBeUndefined();
+  });
+
+  it('streams candles shaped like the REST ones', async () => {
+    const [rest] = await bybitAdapter.getKlines('BTCUSD', '1m', 'inverse', 1);
+    const [message] = bybitAdapter.stream!.parseMessage(streamMessage, 'inverse');
+
+    expect(message).toMatchObject({ type: 'kline', symbol: 'BTCUSD', timeframe: '1m', isClosed: true });
+    expect(message.type === 'kline' && message.kline).toEqual(rest);
+  });
+});
@@ -0,0 +1,827 @@
+import type {
+  TradingType,
+  Timeframe,
+  ExchangeAdapter,
+  ExchangeConfig,
+  RateLimitPolicy,
+  KlineData,
+  KlineRange,
+  TickerData,
+  SymbolInfo,
+  OrderBookSnapshot,
+  Trade,
+  ClassifiedError,
+  DerivativesDataAdapter,
+  FundingRate,
+  PredictedFunding,
+  OpenInterest,
+  OpenInterestPeriod,
+  PriceKlineType,
+  BybitTickerResponse,
+  ExchangeStreamSpec,
+  StreamMessage,
+  AccountDataAdapter,
+  AccountBalance,
+  Position,
+  OpenOrder,
+  SigningContext,
+  RequestSigner,
+  SymbolCodec,
+  InstrumentSpec
+} from '../../types/exchange';
+import type { z } from 'zod';
+import { makeAPICall, validateResponse } from './http';
+import { createExchangeError } from './errors';
+import {
+  bybitKlineSchema,
+  bybitTickerSchema,
+  bybitInstrumentsSchema,
+  bybitKlineStreamSchema,
+  bybitTickerStreamSchema,
+  bybitFundingRateSchema,
+  bybitDerivativesTickerSchema,
+  bybitOpenInterestSchema,
+  bybitPriceKlineSchema,
+  bybitOrderBookSchema,
+  bybitOrderBookStreamSchema,
+  bybitRecentTradeSchema,
+  bybitTradeStreamSchema,
+  bybitServerTimeSchema,
+  bybitWalletBalanceSchema,
+  bybitPositionSchema,
+  bybitOpenOrdersSchema
+} from './schemas';
+import { hmacSha256Hex } from './signing';
+import { splitPair, splitMultiplier, withMultiplier, getTradingType, toDayMonthYear, fromDayMonthYear } from './symbolCodec';
+import { getNextOpenTime, findTimeframe } from '../timeframes';
+import { sumDecimals, subtractDecimals } from '../precision';
+
+// 600 requests per 5 seconds per IP. X-Bapi-Limit-* headers, when sent, report
+// the remaining quota for the endpoint.
+const RATE_LIMIT: RateLimitPolicy = {
+  maxWeight: 600,
+  windowMs: 5000,
+  readUsage: headers => {
+    const limit = headers.get('X-Bapi-Limit');
+    const remaining = headers.get('X-Bapi-Limit-Status');
+    if (limit === null || remaining === null) return undefined;
+    
+    const resetAt = headers.get('X-Bapi-Limit-Reset-Timestamp');
+    return {
+      used: parseInt(limit) - parseInt(remaining),
+      limit: parseInt(limit),
+      resetAt: resetAt ? parseInt(resetAt) : undefined
+    };
+  }
+};
+
+// Bybit answers most failures with HTTP 200 and a non-zero retCode
+function classifyError(status: number, body: unknown): ClassifiedError | undefined {
+  // IP limit breached; lifted about 10 minutes after requests stop
+  if (status === 403) {
+    return { kind: 'banned', message: 'Access too frequent', code: status, retryAfterMs: 10 * 60 * 1000 };
+  }
+  if (status === 401) {
+    return { kind: 'unauthorized', message: 'API key rejected', code: status };
+  }
+  
+  const { retCode, retMsg } = (typeof body === 'object' && body !== null ? body : {}) as { retCode?: number; retMsg?: string };
+  if (retCode === undefined || retCode === 0) return undefined;
+  
+  const message = retMsg || `retCode ${retCode}`;
+  switch (retCode) {
+    case 10006:
+    case 10018:
+      return { kind: 'rate-limited', message, code: retCode };
+    case 10016:
+      return { kind: 'exchange-maintenance', message, code: retCode };
+    case 10002:
+      return { kind: 'clock-skew', message, code: retCode };
+    // Invalid key or signature, no permission, IP not whitelisted, key expired
+    case 10003:
+    case 10004:
+    case 10005:
+    case 10007:
+    case 10010:
+    case 33004:
+      return { kind: 'unauthorized', message, code: retCode };
+    case 10001:
+      if (/symbol/i.test(message)) return { kind: 'invalid-symbol', message, code: retCode };
+      return { kind: 'rejected', message, code: retCode };
+    default:
+      return { kind: 'rejected', message, code: retCode };
+  }
+}
+
+const CONFIGS: Record<TradingType, ExchangeConfig> = {
+  spot: {
+    exchange: 'bybit',
+    tradingType: 'spot',
+    baseUrl: 'https://api.bybit.com/v5',
+    endpoints: {
+      klines: '/market/kline',
+      ticker: '/market/tickers',
+      symbols: '/market/instruments-info',
+      orderBook: '/market/orderbook',
+      trades: '/market/recent-trade',
+      serverTime: '/market/time',
+      balances: '/account/wallet-balance',
+      positions: '/position/list',
+      openOrders: '/order/realtime'
+    },
+    rateLimit: RATE_LIMIT
+  },
+  futures: {
+    exchange: 'bybit',
+    tradingType: 'futures',
+    baseUrl: 'https://api.bybit.com/v5',
+    endpoints: {
+      klines: '/market/kline',
+      ticker: '/market/tickers',
+      symbols: '/market/instruments-info',
+      orderBook: '/market/orderbook',
+      trades: '/market/recent-trade',
+      fundingRate: '/market/funding/history',
+      openInterestHistory: '/market/open-interest',
+      markPriceKlines: '/market/mark-price-kline',
+      indexPriceKlines: '/market/index-price-kline',
+      serverTime: '/market/time',
+      balances: '/account/wallet-balance',
+      positions: '/position/list',
+      openOrders: '/order/realtime'
+    },
+    rateLimit: RATE_LIMIT
+  },
+  inverse: {
+    exchange: 'bybit',
+    tradingType: 'inverse',
+    baseUrl: 'https://api.bybit.com/v5',
+    endpoints: {
+      klines: '/market/kline',
+      ticker: '/market/tickers',
+      symbols: '/market/instruments-info',
+      orderBook: '/market/orderbook',
+      trades: '/market/recent-trade',
+      fundingRate: '/market/funding/history',
+      openInterestHistory: '/market/open-interest',
+      markPriceKlines: '/market/mark-price-kline',
+      indexPriceKlines: '/market/index-price-kline',
+      serverTime: '/market/time',
+      balances: '/account/wallet-balance',
+      positions: '/position/list',
+      openOrders: '/order/realtime'
+    },
+    rateLimit: RATE_LIMIT
+  }
+};
+
+// No 8h or 3d intervals; ExchangeAPI resamples those from 4h and 1d
+const TIMEFRAMES: Partial<Record<Timeframe, string>> = {
+  '1m': '1',
+  '3m': '3',
+  '5m': '5',
+  '15m': '15',
+  '30m': '30',
+  '1h': '60',
+  '2h': '120',
+  '4h': '240',
+  '6h': '360',
+  '12h': '720',
+  '1d': 'D',
+  '1w': 'W',
+  '1M': 'M'
+};
+
+const CATEGORIES: Record<TradingType, string> = {
+  spot: 'spot',
+  futures: 'linear',
+  inverse: 'inverse'
+};
+
+function getCategory(tradingType: TradingType): string {
+  return CATEGORIES[tradingType];
+}
+
+async function getKlines(
+  symbol: string,
+  timeframe: Timeframe,
+  tradingType: TradingType,
+  limit: number,
+  range: KlineRange = {}
+): Promise<KlineData[]> {
+  const config = CONFIGS[tradingType];
+  const interval = TIMEFRAMES[timeframe];
+  const category = getCategory(tradingType);
+  
+  let url = `${config.baseUrl}${config.endpoints.klines}?category=${category}&symbol=${symbol}&interval=${interval}&limit=${limit}`;
+  
+  if (range.startTime !== undefined) url += `&start=${range.startTime}`;
+  if (range.endTime !== undefined) url += `&end=${range.endTime}`;
+  
+  const response = await makeAPICall(url, 'bybit', bybitKlineSchema, config.rateLimit);
+  
+  return response.result.list.map(item => ({
+    openTime: parseInt(item[0]),
+    open: item[1],
+    high: item[2],
+    low: item[3],
+    close: item[4],
+    volume: item[5],
+    // Inverse volume counts USD contracts; turnover is the coin amount
+    ...(tradingType === 'inverse' && { volumeUnit: 'contracts' as const, baseVolume: item[6] }),
+    closeTime: getNextOpenTime(parseInt(item[0]), timeframe) - 1
+  }));
+}
+
+async function getOrderBook(symbol: string, tradingType: TradingType, limit: number): Promise<OrderBookSnapshot> {
+  const config = CONFIGS[tradingType];
+  const depth = Math.min(limit, tradingType === 'spot' ? 200 : 500);
+  const url = `${config.baseUrl}${config.endpoints.orderBook}?category=${getCategory(tradingType)}&symbol=${symbol}&limit=${depth}`;
+  
+  const response = await makeAPICall(url, 'bybit', bybitOrderBookSchema, config.rateLimit);
+  const book = response.result;
+  
+  return {
+    symbol: book.s,
+    bids: book.b,
+    asks: book.a,
+    sequence: book.u,
+    timestamp: book.ts
+  };
+}
+
+async function getRecentTrades(symbol: string, tradingType: TradingType, limit: number): Promise<Trade[]> {
+  const config = CONFIGS[tradingType];
+  const depth = Math.min(limit, tradingType === 'spot' ? 60 : 1000);
+  const url = `${config.baseUrl}${config.endpoints.trades}?category=${getCategory(tradingType)}&symbol=${symbol}&limit=${depth}`;
+  
+  const response = await makeAPICall(url, 'bybit', bybitRecentTradeSchema, config.rateLimit);
+  
+  return response.result.list.map(trade => mapTrade(tradingType, {
+    id: trade.execId,
+    symbol: trade.symbol,
+    price: trade.price,
+    size: trade.size,
+    side: trade.side,
+    time: parseInt(trade.time)
+  }));
+}
+
+// Inverse contracts are worth 1 USD each, so the base amount is size / price
+function mapTrade(
+  tradingType: TradingType,
+  trade: { id: string; symbol: string; price: string; size: string; side: 'Buy' | 'Sell'; time: number }
+): Trade {
+  return {
+    id: trade.id,
+    symbol: trade.symbol,
+    price: trade.price,
+    quantity: trade.size,
+    ...(tradingType === 'inverse' && {
+      baseQuantity: (parseFloat(trade.size) / parseFloat(trade.price)).toString()
+    }),
+    side: trade.side === 'Buy' ? 'buy' : 'sell',
+    time: trade.time
+  };
+}
+
+async function getTicker(symbol: string, tradingType: TradingType): Promise<TickerData> {
+  const config = CONFIGS[tradingType];
+  const category = getCategory(tradingType);
+  const url = `${config.baseUrl}${config.endpoints.ticker}?category=${category}&symbol=${symbol}`;
+  
+  const response = await makeAPICall(url, 'bybit', bybitTickerSchema, config.rateLimit);
+  
+  if (response.result.list.length === 0) {
+    throw createExchangeError('bybit', url, { kind: 'invalid-symbol', message: `No ticker data found for ${symbol}` });
+  }
+  
+  return mapTicker(response.result.list[0], tradingType);
+}
+
+// Without a symbol the endpoint returns every ticker in the category
+async function getAllTickers(tradingType: TradingType): Promise<TickerData[]> {
+  const config = CONFIGS[tradingType];
+  const category = getCategory(tradingType);
+  const url = `${config.baseUrl}${config.endpoints.ticker}?category=${category}`;
+  
+  const response = await makeAPICall(url, 'bybit', bybitTickerSchema, config.rateLimit);
+  
+  return response.result.list.map(ticker => mapTicker(ticker, tradingType));
+}
+
+// Inverse contracts swap the meaning of volume (USD contracts) and turnover (coin)
+function mapTicker(ticker: BybitTickerResponse['result']['list'][number], tradingType: TradingType): TickerData {
+  const inverse = tradingType === 'inverse';
+  const priceChange = (parseFloat(ticker.lastPrice) - parseFloat(ticker.prevPrice24h)).toString();
+  
+  return {
+    symbol: ticker.symbol,
+    price: ticker.lastPrice,
+    priceChange,
+    priceChangePercent: (parseFloat(ticker.price24hPcnt) * 100).toFixed(2), // Bybit reports a fraction
+    highPrice: ticker.highPrice24h,
+    lowPrice: ticker.lowPrice24h,
+    volume: inverse ? ticker.turnover24h : ticker.volume24h,
+    quoteVolume: inverse ? ticker.volume24h : ticker.turnover24h,
+    openPrice: ticker.prevPrice24h,
+    prevClosePrice: ticker.prevPrice24h,
+    bidPrice: ticker.bid1Price,
+    askPrice: ticker.ask1Price
+  };
+}
+
+async function getInstruments(tradingType: TradingType): Promise<SymbolInfo[]> {
+  const config = CONFIGS[tradingType];
+  const category = getCategory(tradingType);
+  const instruments: SymbolInfo[] = [];
+  let cursor: string | undefined;
+  
+  // Derivative categories are paginated; spot returns everything at once
+  do {
+    let url = `${config.baseUrl}${config.endpoints.symbols}?category=${category}&limit=1000`;
+    if (cursor) url += `&cursor=${encodeURIComponent(cursor)}`;
+    
+    const response = await makeAPICall(url, 'bybit', bybitInstrumentsSchema, config.rateLimit);
+    
+    instruments.push(...response.result.list.map((s): SymbolInfo => ({
+      symbol: s.symbol,
+      baseAsset: s.baseCoin,
+      quoteAsset: s.quoteCoin,
+      status: s.status,
+      isTrading: s.status === 'Trading',
+      contractType: !s.contractType ? 'spot' : s.contractType.endsWith('Perpetual') ? 'perpetual' : 'delivery',
+      margin: tradingType === 'spot' ? undefined : tradingType === 'inverse' ? 'inverse' : 'linear',
+      settleAsset: s.settleCoin,
+      // Linear quantities are in the base coin; an inverse contract is worth 1 USD
+      contractSize: tradingType === 'spot' ? undefined : '1',
+      deliveryTime: s.deliveryTime && s.deliveryTime !== '0' ? parseInt(s.deliveryTime) : undefined,
+      tickSize: s.priceFilter.tickSize,
+      minPrice: s.priceFilter.minPrice,
+      maxPrice: s.priceFilter.maxPrice,
+      stepSize: s.lotSizeFilter.qtyStep ?? s.lotSizeFilter.basePrecision,
+      minQty: s.lotSizeFilter.minOrderQty,
+      maxQty: s.lotSizeFilter.maxOrderQty
+    })));
+    
+    cursor = response.result.nextPageCursor || undefined;
+  } while (cursor);
+  
+  return instruments;
+}
+
+// Month codes of inverse delivery contracts, e.g. BTCUSDH25 for March 2025
+const DELIVERY_MONTH_CODES = 'FGHJKMNQUVXZ';
+
+// BTCUSDT for spot and USDT perpetuals, BTCPERP for USDC perpetuals,
+// BTCUSDT-27JUN25 and BTC-27JUN25 for USDT and USDC delivery, BTCUSD for
+// inverse perpetuals and BTCUSDM25 for inverse delivery. The inverse delivery
+// day is not in the symbol, so those are only known from the instrument list.
+const symbols: SymbolCodec = {
+  parse(symbol: string, tradingType: TradingType): InstrumentSpec | undefined {
+    const spec = (pair: { base: string; quote: string }, contractType: InstrumentSpec['contractType'], expiry?: string): InstrumentSpec => {
+      const { base, multiplier } = splitMultiplier(pair.base);
+      return { base, quote: pair.quote, settlement: pair.quote, contractType, multiplier, expiry };
+    };
+    
+    if (tradingType === 'spot') {
+      const pair = splitPair(symbol);
+      return pair ? spec(pair, 'spot') : undefined;
+    }
+    
+    if (tradingType === 'inverse') {
+      const pair = splitPair(symbol);
+      if (!pair || pair.quote !== 'USD') return undefined;
+      const perpetual = spec(pair, 'perpetual');
+      return { ...perpetual, settlement: perpetual.base };
+    }
+    
+    const [pairSymbol, date, ...rest] = symbol.split('-');
+    if (rest.length > 0) return undefined;
+    
+    if (date !== undefined) {
+      const expiry = fromDayMonthYear(date);
+      const pair = pairSymbol.endsWith('USDT') ? splitPair(pairSymbol) : { base: pairSymbol, quote: 'USDC' };
+      return expiry && pair ? spec(pair, 'delivery', expiry) : undefined;
+    }
+    
+    if (symbol.endsWith('PERP') && symbol.length > 4) {
+      return spec({ base: symbol.slice(0, -4), quote: 'USDC' }, 'perpetual');
+    }
+    
+    const pair = splitPair(symbol);
+    return pair && (pair.quote === 'USDT' || pair.quote === 'USDC') ? spec(pair, 'perpetual') : undefined;
+  },
+  
+  format(spec: InstrumentSpec): string | undefined {
+    const base = withMultiplier(spec);
+    
+    switch (getTradingType(spec)) {
+      case 'spot':
+        return `${base}${spec.quote}`;
+      case 'futures':
+        if (spec.settlement !== spec.quote) return undefined;
+        if (spec.quote === 'USDC') return spec.expiry ? `${base}-${toDayMonthYear(spec.expiry)}` : `${base}PERP`;
+        if (spec.quote !== 'USDT') return undefined;
+        return spec.expiry ? `${base}USDT-${toDayMonthYear(spec.expiry)}` : `${base}USDT`;
+      case 'inverse': {
+        if (spec.quote !== 'USD') return undefined;
+        if (!spec.expiry) return `${base}USD`;
+        const monthCode = DELIVERY_MONTH_CODES[Number(spec.expiry.slice(2, 4)) - 1];
+        return `${base}USD${monthCode}${spec.expiry.slice(0, 2)}`;
+      }
+    }
+  }
+};
+
+// Derivatives market data
+
+function getDerivativesConfig(tradingType: TradingType): ExchangeConfig {
+  if (tradingType === 'spot') {
+    throw new Error('Bybit spot has no funding, open interest or mark price data');
+  }
+  return CONFIGS[tradingType];
+}
+
+const OPEN_INTEREST_PERIODS: Record<OpenInterestPeriod, string> = {
+  '5m': '5min',
+  '15m': '15min',
+  '30m': '30min',
+  '1h': '1h',
+  '4h': '4h',
+  '1d': '1d'
+};
+
+async function getFundingRateHistory(
+  symbol: string,
+  tradingType: TradingType,
+  limit: number,
+  range: KlineRange = {}
+): Promise<FundingRate[]> {
+  const config = getDerivativesConfig(tradingType);
+  let url = `${config.baseUrl}${config.endpoints.fundingRate}?category=${getCategory(tradingType)}&symbol=${symbol}&limit=${limit}`;
+  
+  if (range.startTime !== undefined) url += `&startTime=${range.startTime}`;
+  if (range.endTime !== undefined) url += `&endTime=${range.endTime}`;
+  
+  const response = await makeAPICall(url, 'bybit', bybitFundingRateSchema, config.rateLimit);
+  
+  return response.result.list.map(item => ({
+    symbol: item.symbol,
+    fundingTime: parseInt(item.fundingRateTimestamp),
+    fundingRate: item.fundingRate
+  }));
+}
+
+// The derivatives ticker carries the rate for the upcoming settlement
+async function getPredictedFunding(symbol: string, tradingType: TradingType): Promise<PredictedFunding> {
+  const config = getDerivativesConfig(tradingType);
+  const url = `${config.baseUrl}${config.endpoints.ticker}?category=${getCategory(tradingType)}&symbol=${symbol}`;
+  
+  const response = await makeAPICall(url, 'bybit', bybitDerivativesTickerSchema, config.rateLimit);
+  const ticker = response.result.list[0];
+  if (!ticker) {
+    throw createExchangeError('bybit', url, { kind: 'invalid-symbol', message: `No ticker data found for ${symbol}` });
+  }
+  
+  return {
+    symbol: ticker.symbol,
+    fundingRate: ticker.fundingRate || '0',
+    nextFundingTime: parseInt(ticker.nextFundingTime),
+    markPrice: ticker.markPrice,
+    indexPrice: ticker.indexPrice,
+    timestamp: response.time
+  };
+}
+
+async function getOpenInterestHistory(
+  symbol: string,
+  tradingType: TradingType,
+  period: OpenInterestPeriod,
+  limit: number,
+  range: KlineRange = {}
+): Promise<OpenInterest[]> {
+  const config = getDerivativesConfig(tradingType);
+  let url = `${config.baseUrl}${config.endpoints.openInterestHistory}?category=${getCategory(tradingType)}&symbol=${symbol}&intervalTime=${OPEN_INTEREST_PERIODS[period]}&limit=${limit}`;
+  
+  if (range.startTime !== undefined) url += `&startTime=${range.startTime}`;
+  if (range.endTime !== undefined) url += `&endTime=${range.endTime}`;
+  
+  const response = await makeAPICall(url, 'bybit', bybitOpenInterestSchema, config.rateLimit);
+  
+  return response.result.list.map(item => ({
+    symbol,
+    timestamp: parseInt(item.timestamp),
+    openInterest: item.openInterest
+  }));
+}
+
+async function getPriceKlines(
+  symbol: string,
+  timeframe: Timeframe,
+  tradingType: TradingType,
+  type: PriceKlineType,
+  limit: number,
+  range: KlineRange = {}
+): Promise<KlineData[]> {
+  const config = getDerivativesConfig(tradingType);
+  const endpoint = type === 'mark' ? config.endpoints.markPriceKlines : config.endpoints.indexPriceKlines;
+  let url = `${config.baseUrl}${endpoint}?category=${getCategory(tradingType)}&symbol=${symbol}&interval=${TIMEFRAMES[timeframe]}&limit=${limit}`;
+  
+  if (range.startTime !== undefined) url += `&start=${range.startTime}`;
+  if (range.endTime !== undefined) url += `&end=${range.endTime}`;
+  
+  const response = await makeAPICall(url, 'bybit', bybitPriceKlineSchema, config.rateLimit);
+  
+  return response.result.list.map(item => ({
+    openTime: parseInt(item[0]),
+    open: item[1],
+    high: item[2],
+    low: item[3],
+    close: item[4],
+    volume: '0',
+    closeTime: getNextOpenTime(parseInt(item[0]), timeframe) - 1
+  }));
+}
+
+// Server time and signed account data
+
+async function getServerTime(tradingType: TradingType): Promise<number> {
+  const config = CONFIGS[tradingType];
+  const url = `${config.baseUrl}${config.endpoints.serverTime}`;
+  
+  const response = await makeAPICall(url, 'bybit', bybitServerTimeSchema, config.rateLimit);
+  // Nanoseconds to milliseconds, kept as a string until it fits a number
+  return parseInt(response.result.timeNano.slice(0, -6));
+}
+
+// v5 signs timestamp + API key + recvWindow + query string, sent as headers
+function createSigner(context: SigningContext): RequestSigner {
+  return async url => {
+    const query = url.split('?')[1] ?? '';
+    const timestamp = String(Math.round(context.now()));
+    const recvWindow = String(context.recvWindow);
+    const signature = await hmacSha256Hex(context.signingKey, `${timestamp}${context.apiKey}${recvWindow}${query}`);
+    
+    return {
+      url,
+      headers: {
+        'X-BAPI-API-KEY': context.apiKey,
+        'X-BAPI-TIMESTAMP': timestamp,
+        'X-BAPI-RECV-WINDOW': recvWindow,
+        'X-BAPI-SIGN': signature,
+        'X-BAPI-SIGN-TYPE': '2'
+      }
+    };
+  };
+}
+
+// Linear positions and orders must be queried per settlement coin
+const LINEAR_SETTLE_COINS = ['USDT', 'USDC'];
+
+// Follow nextPageCursor to the last page. The cursor arrives URL-encoded.
+async function fetchAllPages<R extends { result: { list: unknown[]; nextPageCursor: string } }>(
+  url: string,
+  schema: z.ZodType<R>,
+  sign: RequestSigner
+): Promise<R['result']['list']> {
+  const items: R['result']['list'] = [];
+  let cursor = '';
+  
+  do {
+    const response = await makeAPICall(cursor ? `${url}&cursor=${cursor}` : url, 'bybit', schema, RATE_LIMIT, 1, sign);
+    items.push(...response.result.list);
+    cursor = response.result.nextPageCursor;
+  } while (cursor);
+  
+  return items;
+}
+
+// Per settlement coin on linear unless a symbol narrows it down
+function getAccountQueries(tradingType: TradingType, symbol?: string): string[] {
+  const category = `category=${getCategory(tradingType)}`;
+  if (symbol) return [`${category}&symbol=${symbol}`];
+  if (tradingType === 'futures') return LINEAR_SETTLE_COINS.map(coin => `${category}&settleCoin=${coin}`);
+  return [category];
+}
+
+// The unified account has one wallet for every category, so the balances are
+// the same whichever trading type is asked for; unrealized profit is left out for spot
+async function getBalances(context: SigningContext, tradingType: TradingType): Promise<AccountBalance[]> {
+  const config = CONFIGS[tradingType];
+  const url = `${config.baseUrl}${config.endpoints.balances}?accountType=UNIFIED`;
+  const response = await makeAPICall(url, 'bybit', bybitWalletBalanceSchema, config.rateLimit, 1, createSigner(context));
+  
+  return response.result.list
+    .flatMap(wallet => wallet.coin)
+    .filter(coin => parseFloat(coin.walletBalance) !== 0)
+    .map(coin => {
+      const locked = sumDecimals([coin.locked || '0', coin.totalOrderIM || '0', coin.totalPositionIM || '0']);
+      const free = subtractDecimals(coin.walletBalance, locked);
+      return {
+        asset: coin.coin,
+        free: parseFloat(free) > 0 ? free : '0',
+        locked,
+        total: coin.walletBalance,
+        unrealizedPnl: tradingType === 'spot' ? undefined : coin.unrealisedPnl || '0'
+      };
+    });
+}
+
+async function getPositions(context: SigningContext, tradingType: TradingType): Promise<Position[]> {
+  if (tradingType === 'spot') return [];
+  
+  const config = CONFIGS[tradingType];
+  const sign = createSigner(context);
+  const pages = await Promise.all(getAccountQueries(tradingType).map(query =>
+    fetchAllPages(`${config.baseUrl}${config.endpoints.positions}?${query}&limit=200`, bybitPositionSchema, sign)
+  ));
+  
+  return pages.flat()
+    .filter(position => position.side !== '' && parseFloat(position.size) !== 0)
+    .map(position => ({
+      symbol: position.symbol,
+      side: position.side === 'Buy' ? 'long' as const : 'short' as const,
+      quantity: position.size,
+      entryPrice: position.avgPrice || '0',
+      markPrice: position.markPrice || '0',
+      unrealizedPnl: position.unrealisedPnl || '0',
+      leverage: position.leverage || undefined,
+      liquidationPrice: parseFloat(position.liqPrice || '0') > 0 ? position.liqPrice : undefined,
+      marginMode: position.tradeMode === 1 ? 'isolated' as const : 'cross' as const,
+      updatedAt: parseInt(position.updatedTime)
+    }));
+}
+
+async function getOpenOrders(context: SigningContext, tradingType: TradingType, symbol?: string): Promise<OpenOrder[]> {
+  const config = CONFIGS[tradingType];
+  const sign = createSigner(context);
+  const pages = await Promise.all(getAccountQueries(tradingType, symbol).map(query =>
+    fetchAllPages(`${config.baseUrl}${config.endpoints.openOrders}?${query}&limit=50`, bybitOpenOrdersSchema, sign)
+  ));
+  
+  return pages.flat().map(order => ({
+    id: order.orderId,
+    symbol: order.symbol,
+    side: order.side === 'Buy' ? 'buy' as const : 'sell' as const,
+    type: order.orderType,
+    price: order.price || '0',
+    quantity: order.qty,
+    filledQuantity: order.cumExecQty,
+    status: order.orderStatus,
+    reduceOnly: order.reduceOnly,
+    createdAt: parseInt(order.createdTime)
+  }));
+}
+
+const account: AccountDataAdapter = {
+  recvWindow: 5000,
+  getBalances,
+  getPositions,
+  getOpenOrders
+};
+
+const derivatives: DerivativesDataAdapter = {
+  getFundingRateHistory,
+  getPredictedFunding,
+  getOpenInterestHistory,
+  getPriceKlines,
+  maxFundingLimit: 200,
+  maxOpenInterestLimit: 200
+};
+
+// WebSocket streams. Bybit drops connections that do not ping every 20 seconds.
+function parseStreamMessage(raw: string, tradingType: TradingType): StreamMessage[] {
+  const payload = JSON.parse(raw);
+  const inverse = tradingType === 'inverse';
+  
+  if (typeof payload.topic !== 'string') return []; // Subscription acknowledgement or pong
+  
+  // kline.{interval}.{symbol}
+  if (payload.topic.startsWith('kline.')) {
+    const message = validateResponse(payload, bybitKlineStreamSchema, 'bybit', 'stream');
+    const [, interval, symbol] = message.topic.split('.');
+    const timeframe = findTimeframe(TIMEFRAMES, interval);
+    if (!timeframe) return [];
+    
+    return message.data.map(item => ({
+      type: 'kline' as const,
+      symbol,
+      timeframe,
+      isClosed: item.confirm,
+      kline: {
+        openTime: item.start,
+        open: item.open,
+        high: item.high,
+        low: item.low,
+        close: item.close,
+        volume: item.volume,
+        closeTime: item.end,
+        ...(inverse
+          ? { volumeUnit: 'contracts' as const, baseVolume: item.turnover }
+          : { quoteAssetVolume: item.turnover })
+      }
+    }));
+  }
+  
+  // tickers.{symbol}
+  if (payload.topic.startsWith('tickers.')) {
+    const message = validateResponse(payload, bybitTickerStreamSchema, 'bybit', 'stream');
+    const data = message.data;
+    const symbol = message.topic.slice('tickers.'.length);
+    const ticker: Partial<TickerData> = { symbol };
+    
+    if (data.lastPrice !== undefined) ticker.price = data.lastPrice;
+    if (data.price24hPcnt !== undefined) ticker.priceChangePercent = (parseFloat(data.price24hPcnt) * 100).toFixed(2);
+    if (data.highPrice24h !== undefined) ticker.highPrice = data.highPrice24h;
+    if (data.lowPrice24h !== undefined) ticker.lowPrice = data.lowPrice24h;
+    if (data.volume24h !== undefined) ticker[inverse ? 'quoteVolume' : 'volume'] = data.volume24h;
+    if (data.turnover24h !== undefined) ticker[inverse ? 'volume' : 'quoteVolume'] = data.turnover24h;
+    if (data.prevPrice24h !== undefined) {
+      ticker.openPrice = data.prevPrice24h;
+      ticker.prevClosePrice = data.prevPrice24h;
+    }
+    if (data.lastPrice !== undefined && data.prevPrice24h !== undefined) {
+      ticker.priceChange = (parseFloat(data.lastPrice) - parseFloat(data.prevPrice24h)).toString();
+    }
+    if (data.bid1Price !== undefined) ticker.bidPrice = data.bid1Price;
+    if (data.ask1Price !== undefined) ticker.askPrice = data.ask1Price;
+    
+    return [{ type: 'ticker', symbol, ticker }];
+  }
+  
+  // publicTrade.{symbol}
+  if (payload.topic.startsWith('publicTrade.')) {
+    const message = validateResponse(payload, bybitTradeStreamSchema, 'bybit', 'stream');
+    const symbol = message.topic.slice('publicTrade.'.length);
+    const trades = message.data.map(trade => mapTrade(tradingType, {
+      id: trade.i,
+      symbol: trade.s,
+      price: trade.p,
+      size: trade.v,
+      side: trade.S,
+      time: trade.T
+    }));
+    
+    return [{ type: 'trade', symbol, trades }];
+  }
+  
+  // orderbook.{depth}.{symbol}
+  if (payload.topic.startsWith('orderbook.')) {
+    const message = validateResponse(payload, bybitOrderBookStreamSchema, 'bybit', 'stream');
+    const data = message.data;
+    
+    return [{
+      type: 'depth',
+      symbol: data.s,
+      diff: {
+        symbol: data.s,
+        bids: data.b,
+        asks: data.a,
+        firstSequence: data.u,
+        lastSequence: data.u,
+        // u restarts at 1 with a snapshot when the service restarts
+        isSnapshot: message.type === 'snapshot' || data.u === 1,
+        timestamp: message.ts
+      }
+    }];
+  }
+  
+  return [];
+}
+
+const stream: ExchangeStreamSpec = {
+  getUrl: tradingType => `wss://stream.bybit.com/v5/public/${getCategory(tradingType)}`,
+  klineTopic: (symbol, timeframe) => `kline.${TIMEFRAMES[timeframe]}.${symbol}`,
+  tickerTopic: symbol => `tickers.${symbol}`,
+  depthTopic: symbol => `orderbook.200.${symbol}`,
+  depthSnapshotOnSubscribe: true,
+  tradeTopic: symbol => `publicTrade.${symbol}`,
+  subscribeMessage: topics => JSON.stringify({ op: 'subscribe', args: topics }),
+  unsubscribeMessage: topics => JSON.stringify({ op: 'unsubscribe', args: topics }),
+  ping: { message: JSON.stringify({ op: 'ping' }), intervalMs: 20000 },
+  parseMessage: parseStreamMessage
+};
+
+export const bybitAdapter: ExchangeAdapter = {
+  id: 'bybit',
+  name: 'Bybit',
+  capabilities: {
+    tradingTypes: ['spot', 'futures', 'inverse'],
+    maxKlineLimit: 1000,
+    maxDepthLimit: 500
+  },
+  timeframes: TIMEFRAMES,
+  getKlines,
+  getTicker,
+  getAllTickers,
+  getInstruments,
+  getOrderBook,
+  getRecentTrades,
+  classifyError,
+  derivatives,
+  getServerTime,
+  account,
+  symbols,
+  stream
+};
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker, countsAsFailure, getCircuitBreaker, getExchangeHealth } from './circuitBreaker';
+
+const NOW = Date.UTC(2024, 5, 19, 8);
+
+function failTimes(breaker: CircuitBreaker, times: number) {
+  for (let i = 0; i < times; i++) breaker.recordFailure(50, 'connection reset');
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('CircuitBreaker', () => {
+  it('opens once at least half of five or more requests fail', () => {
+    const breaker = new CircuitBreaker('binance', 'api.binance.com/api/v3/klines');
+
+    failTimes(breaker, 4);
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.recordSuccess(50);
+    breaker.recordFailure(50, 'connection reset');
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.getRetryAt()).toBe(NOW + 15000);
+  });
+
+  it('stays closed while failures are a minority', () => {
+    const breaker = new CircuitBreaker('binance', 'api.binance.com/api/v3/klines');
+
+    for (let i = 0; i < 6; i++) breaker.recordSuccess(50);
+    failTimes(breaker, 5);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('forgets failures older than the window', () => {
+    const breaker = new CircuitBreaker('binance', 'api.binance.com/api/v3/klines');
+
+    failTimes(breaker, 4);
+    vi.advanceTimersByTime(60001);
+    breaker.recordFailure(50, 'connection reset');
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('lets one probe through after the cool-down and closes when it succeeds', () => {
+    const breaker = new CircuitBreaker('binance', 'api.binance.com/api/v3/klines');
+    failTimes(breaker, 5);
+
+    vi.advanceTimersByTime(14999);
+    expect(breaker.allowRequest()).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    // Only the probe
+    expect(breaker.allowRequest()).toBe(false);
+
+    breaker.recordSuccess(50);
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+    // The failures that opened the circuit no longer count
+    breaker.recordFailure(50, 'connection reset');
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('reopens when the probe fails, doubling the wait up to five minutes', () => {
+    const breaker = new CircuitBreaker('binance', 'api.binance.com/api/v3/klines');
+    failTimes(breaker, 5);
+
+    const waits: number[] = [];
+    for (let i = 0; i < 7; i++) {
+      waits.push(breaker.getRetryAt() - Date.now());
+      vi.setSystemTime(breaker.getRetryAt());
+      expect(breaker.allowRequest()).toBe(true);
+      breaker.recordFailure(50, 'connection reset');
+      expect(breaker.getState()).toBe('open');
+    }
+
+    expect(waits).toEqual([15000, 30000, 60000, 120000, 240000, 300000, 300000]);
+  });
+
+  it('starts over from the first wait once a probe succeeds', () => {
+    const breaker = new CircuitBreaker('binance', 'api.binance.com/api/v3/klines');
+    failTimes(breaker, 5);
+    vi.setSystemTime(breaker.getRetryAt());
+    breaker.allowRequest();
+    breaker.recordFailure(50, 'connection reset');
+    vi.setSystemTime(breaker.getRetryAt());
+    breaker.allowRequest();
+    breaker.recordSuccess(50);
+
+    failTimes(breaker, 5);
+
+    expect(breaker.getRetryAt() - Date.now()).toBe(15000);
+  });
+
+  it('reports error rate, latency and the last error', () => {
+    const breaker = new CircuitBreaker('bybit', 'api.bybit.com/v5/market/kline');
+    for (const latency of [100, 200, 300]) breaker.recordSuccess(latency);
+    breaker.recordFailure(400, 'HTTP 502');
+
+    expect(breaker.getHealth()).toEqual({
+      endpoint: 'api.bybit.com/v5/market/kline',
+      state: 'closed',
+      requests: 4,
+      errorRate: 0.25,
+      avgLatencyMs: 250,
+      p95LatencyMs: 400,
+      lastError: 'HTTP 502',
+      lastSuccessAt: NOW,
+      retryAt: undefined
+    });
+  });
+});
+
+describe('exchange health', () => {
+  it('counts only network failures and maintenance against an endpoint', () => {
+    expect(countsAsFailure('network')).toBe(true);
+    expect(countsAsFailure('exchange-maintenance')).toBe(true);
+    expect(countsAsFailure('rate-limited')).toBe(false);
+    expect(countsAsFailure('invalid-symbol')).toBe(false);
+  });
+
+  it('shares one breaker per endpoint whatever the query', () => {
+    const klines = getCircuitBreaker('okx', 'https://www.okx.com/api/v5/market/candles?instId=BTC-USDT&bar=1H');
+
+    expect(getCircuitBreaker('okx', 'https://www.okx.com/api/v5/market/candles?instId=ETH-USDT&bar=4H')).toBe(klines);
+    expect(klines.endpoint).toBe('www.okx.com/api/v5/market/candles');
+  });
+
+  it('rolls endpoints up into an exchange status', () => {
+    expect(getExchangeHealth('okx').status).toBe('unknown');
+
+    getCircuitBreaker('okx', 'https://www.okx.com/api/v5/market/candles').recordSuccess(80);
+    expect(getExchangeHealth('okx').status).toBe('healthy');
+
+    failTimes(getCircuitBreaker('okx', 'https://www.okx.com/api/v5/market/ticker'), 5);
+    expect(getExchangeHealth('okx')).toMatchObject({ status: 'degraded', lastSuccessAt: NOW });
+  });
+});
@@ -0,0 +1,235 @@
+import type {
+  Exchange,
+  ExchangeErrorKind,
+  CircuitState,
+  EndpointHealth,
+  ExchangeHealth,
+  HealthStatus
+} from '../../types/exchange';
+
+export interface CircuitBreakerOptions {
+  // Samples older than this drop out of the error rate and latency
+  windowMs: number;
+  // Fewer samples than this never open the circuit
+  minRequests: number;
+  // Error rate that opens the circuit
+  failureThreshold: number;
+  // First wait before a half-open probe; doubles after each failed probe
+  openMs: number;
+  maxOpenMs: number;
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  windowMs: 60000,
+  minRequests: 5,
+  failureThreshold: 0.5,
+  openMs: 15000,
+  maxOpenMs: 5 * 60 * 1000
+};
+
+// Failures that say the endpoint itself is unhealthy. Rate limits are handled
+// by the request scheduler, and a rejected request still got an answer.
+const FAILURE_KINDS: ExchangeErrorKind[] = ['network', 'exchange-maintenance'];
+
+export function countsAsFailure(kind: ExchangeErrorKind): boolean {
+  return FAILURE_KINDS.includes(kind);
+}
+
+interface Sample {
+  at: number;
+  ok: boolean;
+  latencyMs: number;
+}
+
+/**
+ * Stops sending requests to an endpoint that keeps failing. Closed lets
+ * everything through; open rejects everything until the cool-down ends;
+ * half-open lets a single probe through, whose outcome closes or reopens it.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private samples: Sample[] = [];
+  private retryAt = 0;
+  private openMs: number;
+  private probeInFlight = false;
+  private lastError?: string;
+  private lastSuccessAt?: number;
+  private readonly options: CircuitBreakerOptions;
+
+  constructor(readonly exchange: Exchange, readonly endpoint: string, options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.openMs = this.options.openMs;
+  }
+
+  /**
+   * Whether a request may go out now. In half-open, the caller that gets
+   * true is the probe and must report back through recordSuccess/recordFailure.
+   */
+  allowRequest(): boolean {
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'open') {
+      if (Date.now() < this.retryAt) return false;
+      this.state = 'half-open';
+    }
+
+    if (this.probeInFlight) return false;
+    this.probeInFlight = true;
+    return true;
+  }
+
+  getRetryAt(): number {
+    return this.retryAt;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Give up a half-open probe that ended without an outcome, e.g. because the
+   * request could not be signed, so that the next request can probe instead.
+   */
+  releaseProbe(): void {
+    if (this.state === 'half-open') this.probeInFlight = false;
+  }
+
+  recordSuccess(latencyMs: number): void {
+    this.addSample(true, latencyMs);
+    this.lastSuccessAt = Date.now();
+
+    if (this.state === 'half-open') {
+      this.state = 'closed';
+      this.probeInFlight = false;
+      this.openMs = this.options.openMs;
+      // Start over so the failures that opened the circuit do not reopen it
+      this.samples = [];
+    }
+  }
+
+  recordFailure(latencyMs: number, message: string): void {
+    this.addSample(false, latencyMs);
+    this.lastError = message;
+
+    if (this.state === 'half-open') {
+      this.probeInFlight = false;
+      this.openMs = Math.min(this.openMs * 2, this.options.maxOpenMs);
+      this.open();
+      return;
+    }
+
+    const { requests, errorRate } = this.getStats();
+    if (this.state === 'closed' && requests >= this.options.minRequests && errorRate >= this.options.failureThreshold) {
+      this.open();
+    }
+  }
+
+  getHealth(): EndpointHealth {
+    const { requests, errorRate, avgLatencyMs, p95LatencyMs } = this.getStats();
+    return {
+      endpoint: this.endpoint,
+      state: this.state,
+      requests,
+      errorRate,
+      avgLatencyMs,
+      p95LatencyMs,
+      lastError: this.lastError,
+      lastSuccessAt: this.lastSuccessAt,
+      retryAt: this.state === 'open' ? this.retryAt : undefined
+    };
+  }
+
+  private open(): void {
+    this.state = 'open';
+    this.retryAt = Date.now() + this.openMs;
+    console.warn(`${this.exchange} circuit open for ${this.endpoint}, retrying in ${Math.ceil(this.openMs / 1000)}s`);
+  }
+
+  private addSample(ok: boolean, latencyMs: number): void {
+    this.samples.push({ at: Date.now(), ok, latencyMs });
+    this.prune();
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.options.windowMs;
+    const firstRecent = this.samples.findIndex(sample => sample.at >= cutoff);
+    this.samples = firstRecent === -1 ? [] : this.samples.slice(firstRecent);
+  }
+
+  private getStats() {
+    this.prune();
+    const requests = this.samples.length;
+    if (requests === 0) {
+      return { requests, errorRate: 0, avgLatencyMs: 0, p95LatencyMs: 0 };
+    }
+
+    const failures = this.samples.filter(sample => !sample.ok).length;
+    const latencies = this.samples.map(sample => sample.latencyMs).sort((a, b) => a - b);
+    const total = latencies.reduce((sum, latency) => sum + latency, 0);
+
+    return {
+      requests,
+      errorRate: failures / requests,
+      avgLatencyMs: Math.round(total / requests),
+      p95LatencyMs: latencies[Math.min(Math.floor(requests * 0.95), requests - 1)]
+    };
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+// Endpoint identity ignores the query string: klines for any symbol share a breaker
+function getEndpoint(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.host}${parsed.pathname}`;
+}
+
+/**
+ * One breaker per exchange endpoint
+ */
+export function getCircuitBreaker(exchange: Exchange, url: string): CircuitBreaker {
+  const endpoint = getEndpoint(url);
+  const key = `${exchange}:${endpoint}`;
+  let breaker = breakers.get(key);
+
+  if (!breaker) {
+    breaker = new CircuitBreaker(exchange, endpoint);
+    breakers.set(key, breaker);
+  }
+
+  return breaker;
+}
+
+function getStatus(endpoints: EndpointHealth[]): HealthStatus {
+  const used = endpoints.filter(endpoint => endpoint.requests > 0 || endpoint.state !== 'closed');
+  if (used.length === 0) return 'unknown';
+  if (used.every(endpoint => endpoint.state === 'open')) return 'down';
+  if (used.some(endpoint => endpoint.state !== 'closed' || endpoint.errorRate > 0.2)) return 'degraded';
+  return 'healthy';
+}
+
+/**
+ * Health of one exchange, rolled up from its endpoints
+ */
+export function getExchangeHealth(exchange: Exchange): ExchangeHealth {
+  const endpoints = Array.from(breakers.values())
+    .filter(breaker => breaker.exchange === exchange)
+    .map(breaker => breaker.getHealth());
+
+  const requests = endpoints.reduce((sum, endpoint) => sum + endpoint.requests, 0);
+  const weighted = (pick: (endpoint: EndpointHealth) => number) => requests === 0
+    ? 0
+    : endpoints.reduce((sum, endpoint) => sum + pick(endpoint) * endpoint.requests, 0) / requests;
+  const successes = endpoints
+    .map(endpoint => endpoint.lastSuccessAt)
+    .filter((at): at is number => at !== undefined);
+
+  return {
+    exchange,
+    status: getStatus(endpoints),
+    errorRate: weighted(endpoint => endpoint.errorRate),
+    avgLatencyMs: Math.round(weighted(endpoint => endpoint.avgLatencyMs)),
+    lastSuccessAt: successes.length > 0 ? Math.max(...successes) : undefined,
+    endpoints
+  };
+}
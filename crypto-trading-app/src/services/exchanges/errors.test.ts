@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import type { Exchange, ExchangeErrorKind, RateLimitPolicy } from '../../types/exchange';
+import { RETRY_POLICIES, classifyResponse, describeExchangeError, getRetryDelay } from './errors';
+import { makeAPICall, setHttpTransport } from './http';
+import { getCircuitBreaker } from './circuitBreaker';
+import './registry';
+
+const RATE_LIMIT: RateLimitPolicy = { maxWeight: 1000, windowMs: 60000 };
+
+describe('classifyResponse', () => {
+  const cases: Array<[string, Exchange, number, unknown, ExchangeErrorKind | undefined]> = [
+    ['a Binance success', 'binance', 200, { symbol: 'BTCUSDT' }, undefined],
+    ['a Binance internal error', 'binance', 500, { code: -1001, msg: 'Internal error; unable to process your request.' }, 'network'],
+    ['a Binance 429', 'binance', 429, { code: -1003, msg: 'Too many requests.' }, 'rate-limited'],
+    ['a Binance 418', 'binance', 418, { code: -1003, msg: 'Way too many requests; IP banned.' }, 'banned'],
+    ['an unknown Binance symbol', 'binance', 400, { code: -1121, msg: 'Invalid symbol.' }, 'invalid-symbol'],
+    ['a Binance 503 without a body', 'binance', 503, 'Service Unavailable', 'exchange-maintenance'],
+    ['a refused Binance key', 'binance', 401, { code: -2015, msg: 'Invalid API-key, IP, or permissions for action.' }, 'unauthorized'],
+    ['a Binance timestamp outside recvWindow', 'binance', 400, { code: -1021, msg: 'Timestamp for this request is outside of the recvWindow.' }, 'clock-skew'],
+    ['a bad Binance parameter', 'binance', 400, { code: -1100, msg: 'Illegal characters found in parameter \'limit\'.' }, 'rejected'],
+    ['a Bybit success', 'bybit', 200, { retCode: 0, retMsg: 'OK', result: {} }, undefined],
+    ['a Bybit rate limit with HTTP 200', 'bybit', 200, { retCode: 10006, retMsg: 'Too many visits!' }, 'rate-limited'],
+    ['a Bybit 403', 'bybit', 403, 'Forbidden', 'banned'],
+    ['an unknown Bybit symbol with HTTP 200', 'bybit', 200, { retCode: 10001, retMsg: 'params error: symbol invalid' }, 'invalid-symbol'],
+    ['Bybit maintenance with HTTP 200', 'bybit', 200, { retCode: 10016, retMsg: 'Server error.' }, 'exchange-maintenance'],
+    ['a refused Bybit key with HTTP 200', 'bybit', 200, { retCode: 10003, retMsg: 'API key is invalid.' }, 'unauthorized'],
+    ['a Bybit timestamp outside recv_window', 'bybit', 200, { retCode: 10002, retMsg: 'invalid request, please check your server timestamp or recv_window param' }, 'clock-skew'],
+    ['a bad Bybit parameter with HTTP 200', 'bybit', 200, { retCode: 10001, retMsg: 'params error: limit invalid' }, 'rejected'],
+    ['an OKX success', 'okx', 200, { code: '0', msg: '', data: [] }, undefined],
+    ['an OKX rate limit with HTTP 200', 'okx', 200, { code: '50011', msg: 'Too Many Requests' }, 'rate-limited'],
+    ['an unknown OKX instrument with HTTP 200', 'okx', 200, { code: '51001', msg: 'Instrument ID does not exist' }, 'invalid-symbol'],
+    ['OKX maintenance with HTTP 200', 'okx', 200, { code: '50001', msg: 'Service temporarily unavailable' }, 'exchange-maintenance'],
+    ['an OKX timeout with HTTP 200', 'okx', 200, { code: '50026', msg: 'System error' }, 'network'],
+    ['another OKX error with HTTP 200', 'okx', 200, { code: '51000', msg: 'Parameter bar error' }, 'rejected'],
+    ['an OKX gateway error', 'okx', 502, '<html>Bad Gateway</html>', 'network']
+  ];
+
+  it.each(cases)('classifies %s', (_, exchange, status, body, kind) => {
+    expect(classifyResponse(exchange, status, body)?.kind).toBe(kind);
+  });
+
+  it('keeps the exchange\'s own code and message', () => {
+    expect(classifyResponse('okx', 200, { code: '51001', msg: 'Instrument ID does not exist' })).toEqual({
+      kind: 'invalid-symbol',
+      message: 'Instrument ID does not exist',
+      code: 51001
+    });
+  });
+});
+
+describe('retry policies', () => {
+  const retries: Array<[ExchangeErrorKind, number, number[]]> = [
+    ['network', 3, [1000, 2000]],
+    ['rate-limited', 3, [0, 0]],
+    ['banned', 1, []],
+    ['invalid-symbol', 1, []],
+    ['exchange-maintenance', 2, [5000]],
+    ['schema-mismatch', 1, []],
+    ['circuit-open', 1, []],
+    ['unauthorized', 1, []],
+    ['clock-skew', 1, []],
+    ['rejected', 1, []]
+  ];
+
+  it('covers every kind', () => {
+    expect(retries.map(([kind]) => kind).sort()).toEqual(Object.keys(RETRY_POLICIES).sort());
+  });
+
+  it.each(retries)('tries %s up to %i times with delays %j', (kind, maxAttempts, delays) => {
+    expect(RETRY_POLICIES[kind].maxAttempts).toBe(maxAttempts);
+    expect(Array.from({ length: maxAttempts - 1 }, (_, i) => getRetryDelay(kind, i + 1))).toEqual(delays);
+  });
+
+  it('doubles network backoff up to its cap', () => {
+    expect([1, 2, 3, 4, 5].map(attempt => getRetryDelay('network', attempt))).toEqual([1000, 2000, 4000, 8000, 8000]);
+  });
+});
+
+describe('makeAPICall retries', () => {
+  const schema = z.object({ ok: z.boolean() });
+  let path = 0;
+
+  // A fresh endpoint per test, so one test's failures do not open another's circuit
+  function endpoint(exchange: Exchange): string {
+    const hosts = { binance: 'https://api.binance.com', bybit: 'https://api.bybit.com', okx: 'https://www.okx.com' };
+    return `${hosts[exchange]}/errors-test/${++path}`;
+  }
+
+  function respondWith(...responses: Array<() => Response>) {
+    const transport = vi.fn(async () => (responses.length > 1 ? responses.shift()! : responses[0])());
+    setHttpTransport(transport);
+    return transport;
+  }
+
+  async function settle<T>(promise: Promise<T>): Promise<T> {
+    promise.catch(() => {});
+    await vi.runAllTimersAsync();
+    return promise;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setHttpTransport(null);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries network failures with backoff, then reports the attempts', async () => {
+    const transport = vi.fn(async () => {
+      throw new TypeError('fetch failed');
+    });
+    setHttpTransport(transport);
+    const startedAt = Date.now();
+
+    await expect(settle(makeAPICall(endpoint('binance'), 'binance', schema, RATE_LIMIT))).rejects.toMatchObject({
+      kind: 'network',
+      message: 'fetch failed',
+      attempts: 3
+    });
+    expect(transport).toHaveBeenCalledTimes(3);
+    expect(Date.now() - startedAt).toBe(3000);
+  });
+
+  it('recovers when a retry succeeds', async () => {
+    const transport = respondWith(
+      () => Response.json({ retCode: 10016, retMsg: 'Server error.' }),
+      () => Response.json({ ok: true })
+    );
+
+    await expect(settle(makeAPICall(endpoint('bybit'), 'bybit', schema, RATE_LIMIT))).resolves.toEqual({ ok: true });
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry an error returned with HTTP 200', async () => {
+    const transport = respondWith(() => Response.json({ code: '51001', msg: 'Instrument ID does not exist' }));
+
+    await expect(settle(makeAPICall(endpoint('okx'), 'okx', schema, RATE_LIMIT))).rejects.toMatchObject({
+      kind: 'invalid-symbol',
+      code: 51001,
+      attempts: 1
+    });
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a changed response format with the offending path, without retrying', async () => {
+    const transport = respondWith(() => Response.json({ ok: 'yes' }));
+
+    await expect(settle(makeAPICall(endpoint('binance'), 'binance', schema, RATE_LIMIT))).rejects.toMatchObject({
+      kind: 'schema-mismatch',
+      path: 'ok'
+    });
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends nothing while the endpoint\'s circuit is open', async () => {
+    const url = endpoint('binance');
+    const breaker = getCircuitBreaker('binance', url);
+    for (let i = 0; i < 5; i++) breaker.recordFailure(10, 'connection reset');
+    const transport = respondWith(() => Response.json({ ok: true }));
+
+    await expect(settle(makeAPICall(url, 'binance', schema, RATE_LIMIT))).rejects.toMatchObject({ kind: 'circuit-open' });
+    expect(transport).not.toHaveBeenCalled();
+  });
+});
+
+describe('describeExchangeError', () => {
+  it('explains a failure next to the symbol', () => {
+    const error = { kind: 'invalid-symbol', exchange: 'okx', endpoint: 'https://www.okx.com/api/v5/market/ticker', message: 'Instrument ID does not exist', timestamp: 0 };
+
+    expect(describeExchangeError(error, 'BTCUSDT')).toBe('BTCUSDT is not listed on okx');
+    expect(describeExchangeError(new Error('boom'))).toBe('boom');
+  });
+});
@@ -0,0 +1,113 @@
+import type {
+  Exchange,
+  ExchangeError,
+  ExchangeErrorKind,
+  ClassifiedError,
+  ErrorClassifier
+} from '../../types/exchange';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Attempts and exponential backoff per kind of failure. Rate-limited requests
+// wait in the request scheduler's pause, so they retry without an extra delay.
+export const RETRY_POLICIES: Record<ExchangeErrorKind, RetryPolicy> = {
+  network: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 8000 },
+  'rate-limited': { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 },
+  banned: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+  'invalid-symbol': { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+  'exchange-maintenance': { maxAttempts: 2, baseDelayMs: 5000, maxDelayMs: 5000 },
+  'schema-mismatch': { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+  'circuit-open': { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+  unauthorized: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+  // AccountClient resyncs its clock and retries once
+  'clock-skew': { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+  rejected: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 }
+};
+
+/**
+ * Delay before the attempt after `attempt` (1-based)
+ */
+export function getRetryDelay(kind: ExchangeErrorKind, attempt: number): number {
+  const policy = RETRY_POLICIES[kind];
+  return Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+}
+
+export function createExchangeError(
+  exchange: Exchange,
+  endpoint: string,
+  details: ClassifiedError & { path?: string; attempts?: number }
+): ExchangeError {
+  return { exchange, endpoint, ...details, timestamp: Date.now() };
+}
+
+export function isExchangeError(error: unknown): error is ExchangeError {
+  return typeof error === 'object' && error !== null && 'exchange' in error && 'endpoint' in error && 'kind' in error;
+}
+
+// Exchange-specific classifiers, registered along with their adapters
+const classifiers = new Map<Exchange, ErrorClassifier>();
+
+export function setErrorClassifier(exchange: Exchange, classifier: ErrorClassifier | undefined): void {
+  if (classifier) {
+    classifiers.set(exchange, classifier);
+  } else {
+    classifiers.delete(exchange);
+  }
+}
+
+// What the HTTP status alone says, for exchanges without a matching classifier
+function classifyStatus(status: number): ClassifiedError | undefined {
+  if (status >= 200 && status < 300) return undefined;
+  if (status === 429) return { kind: 'rate-limited', message: 'Too many requests', code: status };
+  if (status === 418) return { kind: 'banned', message: 'IP banned for exceeding rate limits', code: status };
+  if (status === 503) return { kind: 'exchange-maintenance', message: 'Service unavailable', code: status };
+  if (status >= 500) return { kind: 'network', message: `HTTP ${status}`, code: status };
+  return { kind: 'rejected', message: `HTTP ${status}`, code: status };
+}
+
+/**
+ * Classify a response. The exchange's classifier sees every response,
+ * including HTTP 200 ones, since some exchanges report errors in the body.
+ */
+export function classifyResponse(exchange: Exchange, status: number, body: unknown): ClassifiedError | undefined {
+  return classifiers.get(exchange)?.(status, body) ?? classifyStatus(status);
+}
+
+/**
+ * One-line explanation of a failure, fit for showing next to a symbol
+ */
+export function describeExchangeError(error: unknown, symbol?: string): string {
+  if (!isExchangeError(error)) {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  const subject = symbol ?? 'This symbol';
+  const retryIn = error.retryAfterMs ? `, retry in ${Math.ceil(error.retryAfterMs / 1000)}s` : '';
+
+  switch (error.kind) {
+    case 'network':
+      return `Could not reach ${error.exchange}: ${error.message}`;
+    case 'rate-limited':
+      return `${error.exchange} rate limit reached${retryIn}`;
+    case 'banned':
+      return `${error.exchange} has temporarily banned this IP${retryIn}`;
+    case 'invalid-symbol':
+      return `${subject} is not listed on ${error.exchange}`;
+    case 'exchange-maintenance':
+      return `${error.exchange} is under maintenance`;
+    case 'schema-mismatch':
+      return `${error.exchange} changed its response format (${error.message})`;
+    case 'circuit-open':
+      return `${error.exchange} is failing, requests paused${retryIn}`;
+    case 'unauthorized':
+      return `${error.exchange} rejected the API key: ${error.message}`;
+    case 'clock-skew':
+      return `Clock out of sync with ${error.exchange}: ${error.message}`;
+    default:
+      return `${error.exchange} rejected the request: ${error.message}`;
+  }
+}
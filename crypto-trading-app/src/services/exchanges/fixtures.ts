@@ -0,0 +1,165 @@
+import type { FixtureSet, HttpTransport, RecordedResponse } from '../../types/exchange';
+import { fixtureSetSchema } from './schemas';
+import { getHttpTransport, setHttpTransport } from './http';
+
+// Query parameters that move with the clock or the amount of history asked
+// for. A request that differs from a recording only in these still replays it,
+// so range and incremental fetches work offline. Signed requests carry a new
+// timestamp, and so a new signature, every time.
+const VOLATILE_PARAMS = ['startTime', 'endTime', 'start', 'end', 'after', 'before', 'timestamp', 'limit', 'recvWindow', 'signature'];
+
+// Host, path and sorted query, so parameter order does not matter
+function getFixtureKey(url: string, ignoreVolatile: boolean): string {
+  const parsed = new URL(url);
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !ignoreVolatile || !VOLATILE_PARAMS.includes(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+
+  return `${parsed.host}${parsed.pathname}${query ? `?${query}` : ''}`;
+}
+
+function toResponse(recorded: RecordedResponse): Response {
+  const body = typeof recorded.body === 'string' ? recorded.body : JSON.stringify(recorded.body);
+  return new Response(body, { status: recorded.status, headers: recorded.headers });
+}
+
+export interface FixtureReplayOptions {
+  // Send requests without a recording to this transport instead of failing
+  fallback?: HttpTransport;
+}
+
+/**
+ * Serves recorded exchange responses in place of the network. The exchange
+ * adapters parse them exactly as they would live payloads. Several recordings
+ * of one request are replayed in order, the last one repeating.
+ */
+export class FixtureReplayer {
+  private readonly exact = new Map<string, RecordedResponse[]>();
+  private readonly loose = new Map<string, RecordedResponse[]>();
+  private readonly served = new Map<string, number>();
+
+  constructor(fixtures: FixtureSet, private readonly options: FixtureReplayOptions = {}) {
+    for (const recorded of fixtures.responses) {
+      this.add(this.exact, getFixtureKey(recorded.url, false), recorded);
+      this.add(this.loose, getFixtureKey(recorded.url, true), recorded);
+    }
+  }
+
+  readonly transport: HttpTransport = async (url, init) => {
+    const exactKey = getFixtureKey(url, false);
+    const looseKey = getFixtureKey(url, true);
+    const key = this.exact.has(exactKey) ? exactKey : looseKey;
+    const recordings = this.exact.get(exactKey) ?? this.loose.get(looseKey);
+
+    if (!recordings) {
+      if (this.options.fallback) return this.options.fallback(url, init);
+      return new Response(JSON.stringify({ msg: `No fixture recorded for ${url}` }), {
+        status: 404,
+        statusText: 'No fixture recorded'
+      });
+    }
+
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    return toResponse(recordings[Math.min(index, recordings.length - 1)]);
+  };
+
+  // Start every sequence from its first recording again
+  rewind(): void {
+    this.served.clear();
+  }
+
+  private add(map: Map<string, RecordedResponse[]>, key: string, recorded: RecordedResponse): void {
+    const list = map.get(key) ?? [];
+    list.push(recorded);
+    map.set(key, list);
+  }
+}
+
+/**
+ * Wraps a transport and keeps a copy of every response that passes through,
+ * ready to be saved as fixtures.
+ */
+export class FixtureRecorder {
+  private readonly responses: RecordedResponse[] = [];
+
+  constructor(private readonly inner: HttpTransport = getHttpTransport()) {}
+
+  readonly transport: HttpTransport = async (url, init) => {
+    const response = await this.inner(url, init);
+    const text = await response.clone().text();
+
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Keep non-JSON bodies (HTML error pages) as text
+    }
+
+    this.responses.push({
+      url,
+      status: response.status,
+      headers: Object.fromEntries(response.headers.entries()),
+      body,
+      recordedAt: Date.now()
+    });
+
+    return response;
+  };
+
+  getFixtures(): FixtureSet {
+    return { version: 1, responses: [...this.responses] };
+  }
+
+  clear(): void {
+    this.responses.length = 0;
+  }
+}
+
+export function parseFixtureSet(data: unknown): FixtureSet {
+  const result = fixtureSetSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid fixture file at ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Replay fixtures for every exchange request. Returns a function that
+ * restores the previous transport.
+ */
+export function replayFixtures(fixtures: FixtureSet, options?: FixtureReplayOptions): () => void {
+  const previous = getHttpTransport();
+  setHttpTransport(new FixtureReplayer(fixtures, options).transport);
+  return () => setHttpTransport(previous);
+}
+
+/**
+ * Record every exchange request made while `run` executes
+ */
+export async function recordFixtures(run: () => Promise<void>): Promise<FixtureSet> {
+  const previous = getHttpTransport();
+  const recorder = new FixtureRecorder(previous);
+  setHttpTransport(recorder.transport);
+
+  try {
+    await run();
+  } finally {
+    setHttpTransport(previous);
+  }
+
+  return recorder.getFixtures();
+}
+
+/**
+ * Fetch a fixture file (e.g. one served from public/) and replay it
+ */
+export async function loadFixtures(url: string, options?: FixtureReplayOptions): Promise<() => void> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load fixtures from ${url}: HTTP ${response.status}`);
+  }
+  return replayFixtures(parseFixtureSet(await response.json()), options);
+}
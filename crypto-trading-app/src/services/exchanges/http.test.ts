@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import type { RateLimitPolicy } from '../../types/exchange';
+import { makeAPICall, setHttpTransport } from './http';
+import { getCircuitBreaker } from './circuitBreaker';
+import { createExchangeError } from './errors';
+
+const ENDPOINT = 'https://probe.example.com/api/v1/account';
+const RATE_LIMIT: RateLimitPolicy = { maxWeight: 1000, windowMs: 60000 };
+
+function openCircuit() {
+  const breaker = getCircuitBreaker('binance', ENDPOINT);
+  for (let i = 0; i < 5; i++) breaker.recordFailure(10, 'connection reset');
+  expect(breaker.getState()).toBe('open');
+  // Past the cool-down, so the next request is the half-open probe
+  vi.advanceTimersByTime(15000);
+  return breaker;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setHttpTransport(null);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('makeAPICall half-open probe', () => {
+  it('releases the probe when the request fails before reaching the endpoint', async () => {
+    const breaker = openCircuit();
+    const transport = vi.fn(async () => new Response('{}'));
+    setHttpTransport(transport);
+
+    const sign = async () => {
+      throw createExchangeError('binance', ENDPOINT, { kind: 'unauthorized', message: 'No API key configured' });
+    };
+    await expect(makeAPICall(ENDPOINT, 'binance', z.object({}), RATE_LIMIT, 1, sign)).rejects.toMatchObject({ kind: 'unauthorized' });
+
+    expect(transport).not.toHaveBeenCalled();
+    expect(breaker.getState()).toBe('half-open');
+
+    // The next request gets to probe, and its success closes the circuit
+    await expect(makeAPICall(ENDPOINT, 'binance', z.object({}), RATE_LIMIT)).resolves.toEqual({});
+    expect(breaker.getState()).toBe('closed');
+  });
+});
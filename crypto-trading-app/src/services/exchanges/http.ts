@@ -0,0 +1,149 @@
+import type { z } from 'zod';
+import type { Exchange, ClassifiedError, HttpTransport, RateLimitPolicy, RequestSigner } from '../../types/exchange';
+import { getRequestScheduler, parseRetryAfter } from './rateLimiter';
+import { RETRY_POLICIES, classifyResponse, createExchangeError, getRetryDelay, isExchangeError } from './errors';
+import { countsAsFailure, getCircuitBreaker } from './circuitBreaker';
+
+const defaultTransport: HttpTransport = (url, init) => fetch(url, init);
+
+let transport: HttpTransport = defaultTransport;
+
+/**
+ * Route every REST call through the given transport (a fixture recorder or
+ * replayer). Pass null to go back to fetch.
+ */
+export function setHttpTransport(next: HttpTransport | null): void {
+  transport = next ?? defaultTransport;
+}
+
+export function getHttpTransport(): HttpTransport {
+  return transport;
+}
+
+// Utility function for making API calls with rate limiting, error handling, retry and response validation.
+// Signed endpoints pass a signer; `url` is then the unsigned URL, which is also what gets logged.
+export async function makeAPICall<T>(
+  url: string,
+  exchange: Exchange,
+  schema: z.ZodType<T>,
+  rateLimit: RateLimitPolicy,
+  weight: number = 1,
+  sign?: RequestSigner
+): Promise<T> {
+  const data = await fetchWithRetry(url, exchange, rateLimit, weight, sign);
+  return validateResponse(data, schema, exchange, url);
+}
+
+/**
+ * Check a payload against its schema. A mismatch means the exchange changed
+ * its format, so it is reported with the offending field path and not retried.
+ */
+export function validateResponse<T>(data: unknown, schema: z.ZodType<T>, exchange: Exchange, endpoint: string): T {
+  const result = schema.safeParse(data);
+  
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join('.') || '(root)';
+    throw createExchangeError(exchange, endpoint, {
+      kind: 'schema-mismatch',
+      message: `Unexpected response format at ${path}: ${issue.message}`,
+      path
+    });
+  }
+  
+  return result.data;
+}
+
+// JSON when the body parses as JSON, otherwise the raw text (HTML error pages)
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+async function fetchWithRetry(
+  url: string,
+  exchange: Exchange,
+  rateLimit: RateLimitPolicy,
+  weight: number,
+  sign?: RequestSigner
+): Promise<unknown> {
+  const scheduler = getRequestScheduler(exchange, url, rateLimit);
+  const breaker = getCircuitBreaker(exchange, url);
+
+  for (let attempt = 1; ; attempt++) {
+    if (!breaker.allowRequest()) {
+      const retryAfterMs = Math.max(breaker.getRetryAt() - Date.now(), 0);
+      throw createExchangeError(exchange, url, {
+        kind: 'circuit-open',
+        message: `${breaker.endpoint} is failing, requests paused`,
+        retryAfterMs,
+        attempts: attempt - 1
+      });
+    }
+    
+    let failure: ClassifiedError;
+    let startedAt = Date.now();
+    // In half-open this attempt is the probe, and must not hold it past its end
+    const isProbe = breaker.getState() === 'half-open';
+    
+    try {
+      console.log(`API Call (attempt ${attempt}):`, url);
+      
+      const response = await scheduler.schedule(weight, async () => {
+        // Latency excludes time spent queued behind the rate limit
+        startedAt = Date.now();
+        // Signed after the wait so the timestamp is still inside recvWindow
+        const signed = sign ? await sign(url) : { url, headers: {} };
+        return transport(signed.url, {
+          method: 'GET',
+          headers: {
+            'Accept': 'application/json',
+            'User-Agent': 'CryptoSignals/1.0',
+            ...signed.headers
+          }
+        });
+      });
+      
+      scheduler.recordUsage(response.headers);
+      
+      const body = await readBody(response);
+      const classified = classifyResponse(exchange, response.status, body);
+      
+      if (classified && countsAsFailure(classified.kind)) {
+        breaker.recordFailure(Date.now() - startedAt, classified.message);
+      } else {
+        breaker.recordSuccess(Date.now() - startedAt);
+      }
+      
+      if (!classified) return body;
+      
+      failure = classified;
+      if (failure.kind === 'rate-limited' || failure.kind === 'banned') {
+        failure.retryAfterMs = failure.retryAfterMs
+          ?? parseRetryAfter(response.headers.get('Retry-After'))
+          ?? (failure.kind === 'banned' ? 120000 : 60000);
+        // Hold every request to this host, not just this one
+        scheduler.pause(failure.retryAfterMs, `${failure.kind} (${failure.message})`);
+      }
+    } catch (error) {
+      if (isExchangeError(error)) throw error;
+      failure = { kind: 'network', message: error instanceof Error ? error.message : 'Unknown error' };
+      breaker.recordFailure(Date.now() - startedAt, failure.message);
+    } finally {
+      if (isProbe) breaker.releaseProbe();
+    }
+    
+    if (attempt >= RETRY_POLICIES[failure.kind].maxAttempts) {
+      throw createExchangeError(exchange, url, { ...failure, attempts: attempt });
+    }
+    
+    const delay = getRetryDelay(failure.kind, attempt);
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
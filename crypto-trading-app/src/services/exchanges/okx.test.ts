@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { readFixtureFile } from '../../backend/fixtureFiles';
+import { replayFixtures } from './fixtures';
+import { okxAdapter } from './okx';
+import { getPairSymbol } from '../instruments';
+
+const FIXTURES = fileURLToPath(new URL('./__fixtures__/okx.json', import.meta.url));
+
+let restore: () => void;
+
+beforeAll(async () => {
+  restore = replayFixtures(await readFixtureFile(FIXTURES));
+});
+
+afterAll(() => restore());
+
+describe('okx klines', () => {
+  it('parses spot candles with base volume and the confirm flag', async () => {
+    const klines = await okxAdapter.getKlines('BTC-USDT', '1h', 'spot', 3);
+
+    expect(klines).toHaveLength(3);
+    // OKX sends newest first; ordering is left to ExchangeAPI
+    expect(klines[2]).toEqual({
+      openTime: 1718784000000,
+      open: '65001.1',
+      high: '65210',
+      low: '64880.2',
+      close: '65102.4',
+      volume: '312.45',
+      closeTime: 1718787599999,
+      quoteAssetVolume: '20331234.5',
+      isClosed: true
+    });
+    expect(klines[0].isClosed).toBe(false);
+  });
+
+  it('reads swap volume in the base currency rather than contracts', async () => {
+    const klines = await okxAdapter.getKlines('BTC-USDT-SWAP', '1h', 'futures', 2);
+
+    expect(klines.map(k => k.volume)).toEqual(['452.18', '719.34']);
+    expect(klines[0].quoteAssetVolume).toBe('29547011.2');
+  });
+});
+
+describe('okx ticker', () => {
+  it('derives the 24h change from open24h', async () => {
+    const ticker = await okxAdapter.getTicker('BTC-USDT', 'spot');
+
+    expect(ticker.symbol).toBe('BTC-USDT');
+    expect(ticker.price).toBe('65401.7');
+    expect(parseFloat(ticker.priceChange)).toBeCloseTo(1401.7, 6);
+    expect(ticker.priceChangePercent).toBe('2.19');
+    expect(ticker.volume).toBe('10001.23');
+    expect(ticker.quoteVolume).toBe('650123456.78');
+  });
+
+  it('prices swap quote volume from the base volume', async () => {
+    const ticker = await okxAdapter.getTicker('BTC-USDT-SWAP', 'futures');
+
+    expect(ticker.volume).toBe('12000.5');
+    expect(parseFloat(ticker.quoteVolume)).toBeCloseTo(12000.5 * 65415.8, 2);
+  });
+
+  it('rejects concatenated symbols as OKX does', async () => {
+    await expect(okxAdapter.getTicker('BTCUSDT', 'spot')).rejects.toMatchObject({
+      kind: 'invalid-symbol',
+      code: 51001
+    });
+  });
+});
+
+describe('okx instruments', () => {
+  it('keeps linear swaps apart from inverse ones and reads assets from the underlying', async () => {
+    const instruments = await okxAdapter.getInstruments('futures');
+
+    expect(instruments.map(s => s.symbol)).toEqual(['BTC-USDT-SWAP', 'ETH-USDT-SWAP']);
+    expect(instruments[0]).toMatchObject({
+      baseAsset: 'BTC',
+      quoteAsset: 'USDT',
+      contractType: 'perpetual',
+      margin: 'linear',
+      settleAsset: 'USDT',
+      contractSize: '0.01',
+      tickSize: '0.1',
+      isTrading: true
+    });
+    expect(instruments[1].isTrading).toBe(false);
+  });
+
+  it('lists coin-margined swaps for the inverse market', async () => {
+    const instruments = await okxAdapter.getInstruments('inverse');
+
+    expect(instruments).toHaveLength(1);
+    expect(instruments[0]).toMatchObject({ symbol: 'BTC-USD-SWAP', quoteAsset: 'USD', settleAsset: 'BTC', margin: 'inverse' });
+  });
+
+  it('takes spot assets from baseCcy and quoteCcy', async () => {
+    const [btc] = await okxAdapter.getInstruments('spot');
+
+    expect(btc).toMatchObject({ symbol: 'BTC-USDT', baseAsset: 'BTC', quoteAsset: 'USDT', contractType: 'spot' });
+    expect(btc.contractSize).toBeUndefined();
+  });
+});
+
+describe('okx server time', () => {
+  it('reads the clock from public/time for every market', async () => {
+    expect(await okxAdapter.getServerTime!('spot')).toBe(1718788000123);
+    expect(await okxAdapter.getServerTime!('futures')).toBe(1718788000123);
+  });
+});
+
+describe('okx pair symbols', () => {
+  const pair = { base: 'BTC', quote: 'USDT', multiplier: 1 };
+
+  it('maps a pair to the instId of each market', () => {
+    expect(getPairSymbol('okx', 'spot', pair)).toBe('BTC-USDT');
+    expect(getPairSymbol('okx', 'futures', pair)).toBe('BTC-USDT-SWAP');
+    expect(getPairSymbol('okx', 'inverse', pair)).toBe('BTC-USD-SWAP');
+  });
+
+  it('has no symbol for multiplied contracts', () => {
+    expect(getPairSymbol('okx', 'futures', { base: 'PEPE', quote: 'USDT', multiplier: 1000 })).toBeUndefined();
+  });
+});
@@ -0,0 +1,307 @@
+import type {
+  TradingType,
+  Timeframe,
+  ExchangeAdapter,
+  ExchangeConfig,
+  RateLimitPolicy,
+  ClassifiedError,
+  KlineData,
+  KlineRange,
+  TickerData,
+  SymbolInfo,
+  SymbolCodec,
+  InstrumentSpec,
+  OkxResponse,
+  OkxTickerResponse
+} from '../../types/exchange';
+import type { z } from 'zod';
+import { makeAPICall } from './http';
+import { createExchangeError } from './errors';
+import { okxKlineSchema, okxTickerSchema, okxInstrumentsSchema, okxServerTimeSchema } from './schemas';
+import { getNextOpenTime } from '../timeframes';
+import { getTradingType } from './symbolCodec';
+
+// OKX identifies instruments by instId: BTC-USDT for SPOT, BTC-USDT-SWAP for
+// linear and BTC-USD-SWAP for inverse perpetual swaps. Symbols passed to this
+// adapter use that native format.
+// Public market data endpoints allow 20 requests per 2 seconds per IP
+const RATE_LIMIT: RateLimitPolicy = { maxWeight: 20, windowMs: 2000 };
+
+const CONFIGS: Record<TradingType, ExchangeConfig> = {
+  spot: {
+    exchange: 'okx',
+    tradingType: 'spot',
+    baseUrl: 'https://www.okx.com/api/v5',
+    endpoints: {
+      klines: '/market/candles',
+      historyKlines: '/market/history-candles',
+      ticker: '/market/ticker',
+      allTickers: '/market/tickers',
+      symbols: '/public/instruments',
+      serverTime: '/public/time'
+    },
+    rateLimit: RATE_LIMIT
+  },
+  futures: {
+    exchange: 'okx',
+    tradingType: 'futures',
+    baseUrl: 'https://www.okx.com/api/v5',
+    endpoints: {
+      klines: '/market/candles',
+      historyKlines: '/market/history-candles',
+      ticker: '/market/ticker',
+      allTickers: '/market/tickers',
+      symbols: '/public/instruments',
+      serverTime: '/public/time'
+    },
+    rateLimit: RATE_LIMIT
+  },
+  inverse: {
+    exchange: 'okx',
+    tradingType: 'inverse',
+    baseUrl: 'https://www.okx.com/api/v5',
+    endpoints: {
+      klines: '/market/candles',
+      historyKlines: '/market/history-candles',
+      ticker: '/market/ticker',
+      allTickers: '/market/tickers',
+      symbols: '/public/instruments',
+      serverTime: '/public/time'
+    },
+    rateLimit: RATE_LIMIT
+  }
+};
+
+// 6h and higher bars use the UTC variants so candles align with Binance and
+// Bybit. There is no 8h bar; ExchangeAPI resamples it from 4h.
+const TIMEFRAMES: Partial<Record<Timeframe, string>> = {
+  '1m': '1m',
+  '3m': '3m',
+  '5m': '5m',
+  '15m': '15m',
+  '30m': '30m',
+  '1h': '1H',
+  '2h': '2H',
+  '4h': '4H',
+  '6h': '6Hutc',
+  '12h': '12Hutc',
+  '1d': '1Dutc',
+  '3d': '3Dutc',
+  '1w': '1Wutc',
+  '1M': '1Mutc'
+};
+
+function getInstType(tradingType: TradingType): string {
+  return tradingType === 'spot' ? 'SPOT' : 'SWAP';
+}
+
+// OKX reports failures with a non-zero code, usually with HTTP 200
+function classifyError(status: number, body: unknown): ClassifiedError | undefined {
+  const { code, msg } = (typeof body === 'object' && body !== null ? body : {}) as { code?: string; msg?: string };
+  if (code === undefined || code === '0') return undefined;
+  
+  const message = msg || `OKX error ${code}`;
+  const numericCode = parseInt(code);
+  switch (code) {
+    case '51001':
+      return { kind: 'invalid-symbol', message, code: numericCode };
+    case '50011':
+      return { kind: 'rate-limited', message, code: numericCode };
+    case '50001':
+      return { kind: 'exchange-maintenance', message, code: numericCode };
+    case '50013':
+    case '50026':
+      return { kind: 'network', message, code: numericCode };
+    default:
+      return { kind: 'rejected', message, code: numericCode };
+  }
+}
+
+// Error codes are caught by classifyError before validation
+async function callOkx<T>(url: string, schema: z.ZodType<OkxResponse<T>>): Promise<T> {
+  const response = await makeAPICall(url, 'okx', schema, RATE_LIMIT);
+  return response.data;
+}
+
+async function getKlines(
+  symbol: string,
+  timeframe: Timeframe,
+  tradingType: TradingType,
+  limit: number,
+  range: KlineRange = {}
+): Promise<KlineData[]> {
+  const config = CONFIGS[tradingType];
+  const bar = TIMEFRAMES[timeframe];
+  const ranged = range.startTime !== undefined || range.endTime !== undefined;
+  
+  // /market/candles only reaches back ~1440 bars; ranged requests use the history endpoint.
+  // after/before are exclusive bounds on the candle timestamp.
+  const endpoint = ranged && config.endpoints.historyKlines ? config.endpoints.historyKlines : config.endpoints.klines;
+  let url = `${config.baseUrl}${endpoint}?instId=${symbol}&bar=${bar}&limit=${limit}`;
+  
+  if (range.endTime !== undefined) url += `&after=${range.endTime + 1}`;
+  if (range.startTime !== undefined) url += `&before=${range.startTime - 1}`;
+  
+  const candles = await callOkx(url, okxKlineSchema);
+  
+  // Swap volume is in contracts; volCcy carries the base currency amount
+  return candles.map(item => ({
+    openTime: parseInt(item[0]),
+    open: item[1],
+    high: item[2],
+    low: item[3],
+    close: item[4],
+    volume: tradingType === 'spot' ? item[5] : item[6],
+    closeTime: getNextOpenTime(parseInt(item[0]), timeframe) - 1,
+    quoteAssetVolume: item[7],
+    isClosed: item[8] === '1'
+  }));
+}
+
+async function getTicker(symbol: string, tradingType: TradingType): Promise<TickerData> {
+  const config = CONFIGS[tradingType];
+  const url = `${config.baseUrl}${config.endpoints.ticker}?instId=${symbol}`;
+  
+  const tickers = await callOkx(url, okxTickerSchema);
+  
+  if (tickers.length === 0) {
+    throw createExchangeError('okx', url, { kind: 'invalid-symbol', message: `No ticker data found for ${symbol}` });
+  }
+  
+  return mapTicker(tickers[0], tradingType);
+}
+
+async function getAllTickers(tradingType: TradingType): Promise<TickerData[]> {
+  const config = CONFIGS[tradingType];
+  const url = `${config.baseUrl}${config.endpoints.allTickers}?instType=${getInstType(tradingType)}`;
+  
+  const tickers = await callOkx(url, okxTickerSchema);
+  
+  return tickers.map(ticker => mapTicker(ticker, tradingType));
+}
+
+function mapTicker(ticker: OkxTickerResponse['data'][number], tradingType: TradingType): TickerData {
+  const last = parseFloat(ticker.last);
+  const open = parseFloat(ticker.open24h);
+  const priceChange = last - open;
+  const priceChangePercent = open > 0 ? (priceChange / open) * 100 : 0;
+  
+  // SPOT: vol24h is base and volCcy24h is quote. SWAP: volCcy24h is base.
+  const volume = tradingType === 'spot' ? ticker.vol24h : ticker.volCcy24h;
+  const quoteVolume = tradingType === 'spot'
+    ? ticker.volCcy24h
+    : (parseFloat(ticker.volCcy24h) * last).toString();
+  
+  return {
+    symbol: ticker.instId,
+    price: ticker.last,
+    priceChange: priceChange.toString(),
+    priceChangePercent: priceChangePercent.toFixed(2),
+    highPrice: ticker.high24h,
+    lowPrice: ticker.low24h,
+    volume,
+    quoteVolume,
+    openPrice: ticker.open24h,
+    prevClosePrice: ticker.open24h,
+    bidPrice: ticker.bidPx,
+    askPrice: ticker.askPx
+  };
+}
+
+async function getInstruments(tradingType: TradingType): Promise<SymbolInfo[]> {
+  const config = CONFIGS[tradingType];
+  const url = `${config.baseUrl}${config.endpoints.symbols}?instType=${getInstType(tradingType)}`;
+  
+  const instruments = await callOkx(url, okxInstrumentsSchema);
+  
+  // Linear and inverse swaps share instType SWAP
+  const swaps = tradingType === 'spot'
+    ? instruments
+    : instruments.filter(s => s.ctType === (tradingType === 'inverse' ? 'inverse' : 'linear'));
+  
+  // Swaps leave baseCcy/quoteCcy empty; the underlying (BTC-USDT) carries both.
+  // Swap quantities are in contracts.
+  return swaps.map((s): SymbolInfo => {
+    const [ulyBase, ulyQuote] = s.uly.split('-');
+    
+    return {
+      symbol: s.instId,
+      baseAsset: s.baseCcy || ulyBase,
+      quoteAsset: s.quoteCcy || ulyQuote,
+      status: s.state,
+      isTrading: s.state === 'live',
+      contractType: s.instType === 'SWAP' ? 'perpetual' : 'spot',
+      margin: s.ctType === 'linear' || s.ctType === 'inverse' ? s.ctType : undefined,
+      settleAsset: s.settleCcy || undefined,
+      contractSize: s.ctVal || undefined,
+      tickSize: s.tickSz,
+      stepSize: s.lotSz,
+      minQty: s.minSz,
+      maxQty: s.maxLmtSz
+    };
+  });
+}
+
+// instIds spell out base and quote, and OKX sizes contracts with ctVal
+// rather than multiplied names. Only the markets this adapter serves: spot and
+// perpetual swaps.
+const symbols: SymbolCodec = {
+  parse(symbol: string, tradingType: TradingType): InstrumentSpec | undefined {
+    const [base, quote, suffix, ...rest] = symbol.split('-');
+    if (!base || !quote || rest.length > 0) return undefined;
+    
+    if (tradingType === 'spot') {
+      return suffix === undefined
+        ? { base, quote, settlement: quote, contractType: 'spot', multiplier: 1 }
+        : undefined;
+    }
+    
+    if (suffix !== 'SWAP' || (tradingType === 'inverse' && quote !== 'USD')) return undefined;
+    return {
+      base,
+      quote,
+      settlement: tradingType === 'inverse' ? base : quote,
+      contractType: 'perpetual',
+      multiplier: 1
+    };
+  },
+  
+  format(spec: InstrumentSpec): string | undefined {
+    if (spec.multiplier !== 1 || spec.contractType === 'delivery') return undefined;
+    
+    const tradingType = getTradingType(spec);
+    if (tradingType === 'spot') return `${spec.base}-${spec.quote}`;
+    if (tradingType === 'futures' ? spec.settlement !== spec.quote : spec.quote !== 'USD') return undefined;
+    return `${spec.base}-${spec.quote}-SWAP`;
+  }
+};
+
+// One clock for every instType
+async function getServerTime(tradingType: TradingType): Promise<number> {
+  const config = CONFIGS[tradingType];
+  const url = `${config.baseUrl}${config.endpoints.serverTime}`;
+  
+  const [time] = await callOkx(url, okxServerTimeSchema);
+  if (!time) {
+    throw createExchangeError('okx', url, { kind: 'schema-mismatch', message: 'No server time in the response', path: 'data' });
+  }
+  return parseInt(time.ts);
+}
+
+export const okxAdapter: ExchangeAdapter = {
+  id: 'okx',
+  name: 'OKX',
+  capabilities: {
+    tradingTypes: ['spot', 'futures', 'inverse'],
+    maxKlineLimit: 300,
+    maxKlineRangeLimit: 100
+  },
+  timeframes: TIMEFRAMES,
+  getKlines,
+  getTicker,
+  getAllTickers,
+  getInstruments,
+  classifyError,
+  symbols,
+  getServerTime
+};
@@ -0,0 +1,243 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import type { RateLimitPolicy } from '../../types/exchange';
+import { RequestScheduler, getRequestScheduler, parseRetryAfter } from './rateLimiter';
+import { makeAPICall } from './http';
+import { binanceAdapter } from './binance';
+import { bybitAdapter } from './bybit';
+
+const NOW = Date.UTC(2024, 5, 19, 8, 0, 30);
+
+// Resolves when released, so a test controls how long each request stays active
+function deferred() {
+  let release!: () => void;
+  const promise = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  return { promise, release };
+}
+
+function track(scheduler: RequestScheduler, weight: number, started: number[], id: number, done?: Promise<void>) {
+  return scheduler.schedule(weight, async () => {
+    started.push(id);
+    await done;
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('RequestScheduler', () => {
+  const policy: RateLimitPolicy = { maxWeight: 100, windowMs: 1000 };
+
+  it('queues requests that would take the window past 90% of its weight', async () => {
+    const scheduler = new RequestScheduler('binance', policy);
+    const started: number[] = [];
+
+    const all = [track(scheduler, 50, started, 1), track(scheduler, 40, started, 2), track(scheduler, 10, started, 3)];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2]);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(started).toEqual([1, 2]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual([1, 2, 3]);
+    await Promise.all(all);
+  });
+
+  it('sends a request heavier than the whole budget on a fresh window', async () => {
+    const scheduler = new RequestScheduler('binance', policy);
+    const started: number[] = [];
+
+    await track(scheduler, 150, started, 1);
+
+    expect(started).toEqual([1]);
+  });
+
+  it('replaces its estimate with the usage the exchange reports', async () => {
+    const scheduler = new RequestScheduler('binance', {
+      ...policy,
+      readUsage: headers => ({ used: Number(headers.get('X-Used')), resetAt: NOW + 400 })
+    });
+    const started: number[] = [];
+
+    await track(scheduler, 1, started, 1);
+    scheduler.recordUsage(new Headers({ 'X-Used': '85' }));
+    const next = track(scheduler, 10, started, 2);
+
+    await vi.advanceTimersByTimeAsync(399);
+    expect(started).toEqual([1]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual([1, 2]);
+    await next;
+  });
+
+  it('ignores responses without usage headers', async () => {
+    const scheduler = new RequestScheduler('binance', { ...policy, readUsage: () => undefined });
+    const started: number[] = [];
+
+    await track(scheduler, 80, started, 1);
+    scheduler.recordUsage(new Headers());
+    await track(scheduler, 10, started, 2);
+
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('holds every request until a pause ends', async () => {
+    const scheduler = new RequestScheduler('binance', policy);
+    const started: number[] = [];
+
+    scheduler.pause(5000, 'rate-limited');
+    // A shorter pause does not cut the longer one short
+    scheduler.pause(1000, 'rate-limited');
+    const queued = [track(scheduler, 1, started, 1), track(scheduler, 1, started, 2)];
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(started).toEqual([]);
+    expect(scheduler.getPausedUntil()).toBe(NOW + 5000);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual([1, 2]);
+    await Promise.all(queued);
+  });
+
+  it('limits how many requests run at once', async () => {
+    const scheduler = new RequestScheduler('binance', { ...policy, maxConcurrent: 2 });
+    const started: number[] = [];
+    const first = deferred();
+
+    const all = [
+      track(scheduler, 1, started, 1, first.promise),
+      track(scheduler, 1, started, 2, new Promise(() => {})),
+      track(scheduler, 1, started, 3)
+    ];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2]);
+
+    first.release();
+    await all[0];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2, 3]);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delay-seconds and HTTP dates', () => {
+    expect(parseRetryAfter('30')).toBe(30000);
+    expect(parseRetryAfter(new Date(NOW + 12000).toUTCString())).toBe(12000);
+    expect(parseRetryAfter(new Date(NOW - 12000).toUTCString())).toBe(0);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe('exchange usage headers', () => {
+  function bodyFor(url: string): unknown {
+    return url.includes('bybit')
+      ? { retCode: 0, retMsg: 'OK', result: { symbol: 'BTCUSDT', category: 'spot', list: [] } }
+      : {
+        symbol: 'BTCUSDT',
+        priceChange: '120.5',
+        priceChangePercent: '0.19',
+        weightedAvgPrice: '65010.2',
+        lastPrice: '65000.5',
+        lastQty: '0.01',
+        openPrice: '64880.0',
+        highPrice: '65210.0',
+        lowPrice: '64700.0',
+        volume: '10001.23',
+        quoteVolume: '650123456.78',
+        openTime: NOW - 86400000,
+        closeTime: NOW,
+        firstId: 1,
+        lastId: 2,
+        count: 2
+      };
+  }
+
+  function serve(headers: Record<string, string>) {
+    const fetch = vi.fn(async (url: string) => Response.json(bodyFor(url), { headers }));
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  }
+
+  it('waits for the next minute once Binance reports the weight as used', async () => {
+    const fetch = serve({ 'X-MBX-USED-WEIGHT-1M': '5399' });
+
+    await binanceAdapter.getTicker('BTCUSDT', 'spot');
+    const next = binanceAdapter.getTicker('BTCUSDT', 'spot');
+
+    // Binance's window is the calendar minute
+    await vi.advanceTimersByTimeAsync(29999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await next;
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits for Bybit\'s reset time once the remaining quota runs out', async () => {
+    const fetch = serve({
+      'X-Bapi-Limit': '600',
+      'X-Bapi-Limit-Status': '60',
+      'X-Bapi-Limit-Reset-Timestamp': String(NOW + 2000)
+    });
+
+    await bybitAdapter.getKlines('BTCUSDT', '1m', 'spot', 1);
+    const next = bybitAdapter.getKlines('BTCUSDT', '1m', 'spot', 1);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await next;
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('429 and 418 responses', () => {
+  const schema = z.object({ ok: z.boolean() });
+  const policy: RateLimitPolicy = { maxWeight: 1000, windowMs: 60000 };
+
+  it('pauses every request to the host for the Retry-After delay', async () => {
+    const sentAt: Record<string, number[]> = {};
+    let limited = true;
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      const path = new URL(url).pathname;
+      (sentAt[path] ??= []).push(Date.now());
+      if (path === '/first' && limited) {
+        limited = false;
+        return new Response('Too Many Requests', { status: 429, headers: { 'Retry-After': '3' } });
+      }
+      return Response.json({ ok: true });
+    }));
+
+    const first = makeAPICall('https://limited.example.com/first', 'okx', schema, policy);
+    await vi.advanceTimersByTimeAsync(0);
+    const other = makeAPICall('https://limited.example.com/other', 'okx', schema, policy);
+
+    await vi.advanceTimersByTimeAsync(3000);
+    await expect(first).resolves.toEqual({ ok: true });
+    await expect(other).resolves.toEqual({ ok: true });
+    expect(sentAt).toEqual({ '/first': [NOW, NOW + 3000], '/other': [NOW + 3000] });
+  });
+
+  it('pauses for two minutes after an IP ban without a Retry-After', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ code: -1003, msg: 'Way too many requests; IP banned.' }, { status: 418 })));
+
+    await expect(makeAPICall('https://fapi.binance.com/fapi/v1/ping', 'binance', schema, policy)).rejects.toMatchObject({
+      kind: 'banned',
+      retryAfterMs: 120000
+    });
+    expect(getRequestScheduler('binance', 'https://fapi.binance.com/fapi/v1/time', policy).getPausedUntil()).toBe(NOW + 120000);
+  });
+});
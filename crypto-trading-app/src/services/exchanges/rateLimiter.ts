@@ -0,0 +1,133 @@
+import type { Exchange, RateLimitPolicy, RateLimitUsage } from '../../types/exchange';
+
+// Leave room for other clients sharing the same IP
+const HEADROOM = 0.9;
+
+interface QueuedRequest {
+  weight: number;
+  run: () => void;
+}
+
+/**
+ * Queues requests for one exchange host so their combined weight stays inside
+ * the host's budget. Usage reported by the exchange replaces the local
+ * estimate, and a pause (429 or IP ban) holds back every queued request.
+ */
+export class RequestScheduler {
+  private used = 0;
+  private resetAt = 0;
+  private pausedUntil = 0;
+  private active = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly queue: QueuedRequest[] = [];
+
+  constructor(readonly exchange: Exchange, private readonly policy: RateLimitPolicy) {}
+
+  schedule<T>(weight: number, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        weight,
+        run: () => {
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.pump();
+            });
+        }
+      });
+      this.pump();
+    });
+  }
+
+  recordUsage(headers: Headers): void {
+    const usage: RateLimitUsage | undefined = this.policy.readUsage?.(headers);
+    if (!usage) return;
+
+    this.used = usage.used;
+    if (usage.resetAt) this.resetAt = usage.resetAt;
+  }
+
+  /**
+   * Hold every request until `ms` from now
+   */
+  pause(ms: number, reason: string): void {
+    const until = Date.now() + ms;
+    if (until <= this.pausedUntil) return;
+
+    console.warn(`${this.exchange} requests paused for ${Math.ceil(ms / 1000)}s: ${reason}`);
+    this.pausedUntil = until;
+  }
+
+  getPausedUntil(): number {
+    return this.pausedUntil;
+  }
+
+  private pump(): void {
+    if (this.timer) return;
+
+    const maxConcurrent = this.policy.maxConcurrent ?? 10;
+    const budget = this.policy.maxWeight * HEADROOM;
+
+    while (this.queue.length > 0 && this.active < maxConcurrent) {
+      const now = Date.now();
+
+      if (now < this.pausedUntil) {
+        this.wait(this.pausedUntil - now);
+        return;
+      }
+
+      if (now >= this.resetAt) {
+        this.used = 0;
+        this.resetAt = now + this.policy.windowMs;
+      }
+
+      const next = this.queue[0];
+      // A single request heavier than the budget still goes out on a fresh window
+      if (this.used > 0 && this.used + next.weight > budget) {
+        this.wait(this.resetAt - now);
+        return;
+      }
+
+      this.queue.shift();
+      this.used += next.weight;
+      this.active++;
+      next.run();
+    }
+  }
+
+  private wait(ms: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, Math.max(ms, 0));
+  }
+}
+
+const schedulers = new Map<string, RequestScheduler>();
+
+/**
+ * One scheduler per exchange host, created with the policy of the first request
+ */
+export function getRequestScheduler(exchange: Exchange, url: string, policy: RateLimitPolicy): RequestScheduler {
+  const key = `${exchange}:${new URL(url).host}`;
+  let scheduler = schedulers.get(key);
+
+  if (!scheduler) {
+    scheduler = new RequestScheduler(exchange, policy);
+    schedulers.set(key, scheduler);
+  }
+
+  return scheduler;
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
@@ -0,0 +1,38 @@
+import type { Exchange, ExchangeAdapter } from '../../types/exchange';
+import { binanceAdapter } from './binance';
+import { bybitAdapter } from './bybit';
+import { okxAdapter } from './okx';
+import { setErrorClassifier } from './errors';
+
+const adapters = new Map<Exchange, ExchangeAdapter>();
+
+/**
+ * Register an exchange adapter. Registering an id twice replaces the
+ * previous adapter, which lets private integrations override built-ins.
+ */
+export function registerExchangeAdapter(adapter: ExchangeAdapter): void {
+  adapters.set(adapter.id, adapter);
+  setErrorClassifier(adapter.id, adapter.classifyError);
+}
+
+export function unregisterExchangeAdapter(exchange: Exchange): void {
+  adapters.delete(exchange);
+  setErrorClassifier(exchange, undefined);
+}
+
+export function getExchangeAdapter(exchange: Exchange): ExchangeAdapter {
+  const adapter = adapters.get(exchange);
+  if (!adapter) {
+    throw new Error(`Unsupported exchange: ${exchange}`);
+  }
+  return adapter;
+}
+
+export function getRegisteredExchanges(): Exchange[] {
+  return Array.from(adapters.keys());
+}
+
+// Built-in adapters
+registerExchangeAdapter(binanceAdapter);
+registerExchangeAdapter(bybitAdapter);
+registerExchangeAdapter(okxAdapter);
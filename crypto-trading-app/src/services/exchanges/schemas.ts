@@ -0,0 +1,621 @@
+import { z } from 'zod';
+import type {
+  BinanceKlineResponse,
+  BinanceTickerResponse,
+  BinanceExchangeInfoResponse,
+  BinanceKlineStreamMessage,
+  BinanceTickerStreamMessage,
+  BinanceFundingRateResponse,
+  BinancePremiumIndexResponse,
+  BinanceOpenInterestResponse,
+  BinanceDepthResponse,
+  BinanceDepthStreamMessage,
+  BinanceAggTradeResponse,
+  BinanceAggTradeStreamMessage,
+  BinanceServerTimeResponse,
+  BinanceSpotAccountResponse,
+  BinanceFuturesBalanceResponse,
+  BinancePositionRiskResponse,
+  BinanceOpenOrderResponse,
+  BybitKlineResponse,
+  BybitTickerResponse,
+  BybitInstrumentsResponse,
+  BybitKlineStreamMessage,
+  BybitTickerStreamMessage,
+  BybitFundingRateResponse,
+  BybitDerivativesTickerResponse,
+  BybitOpenInterestResponse,
+  BybitPriceKlineResponse,
+  BybitOrderBookResponse,
+  BybitOrderBookStreamMessage,
+  BybitRecentTradeResponse,
+  BybitTradeStreamMessage,
+  BybitServerTimeResponse,
+  BybitWalletBalanceResponse,
+  BybitPositionResponse,
+  BybitOpenOrderResponse,
+  OkxKlineResponse,
+  OkxTickerResponse,
+  OkxInstrumentsResponse,
+  OkxServerTimeResponse,
+  FixtureSet
+} from '../../types/exchange';
+
+// Runtime schemas for raw exchange payloads. Each one is typed against the
+// matching interface in types/exchange.ts so the two cannot drift apart.
+
+// Prices and quantities arrive as strings; reject anything parseFloat would turn into NaN
+const decimal = z.string().refine(
+  value => value.trim() !== '' && Number.isFinite(Number(value)),
+  { message: 'Expected a numeric string' }
+);
+
+// Empty means "not applicable" for some OKX and Bybit fields
+const optionalDecimal = z.union([decimal, z.literal('')]);
+
+const timestamp = z.number().int().nonnegative();
+
+// Order book [price, quantity]
+const bookLevels = z.array(z.tuple([decimal, decimal]));
+
+// Binance
+
+export const binanceKlineSchema: z.ZodType<BinanceKlineResponse[]> = z.array(z.tuple([
+  timestamp,
+  decimal,
+  decimal,
+  decimal,
+  decimal,
+  decimal,
+  timestamp,
+  decimal,
+  z.number().int(),
+  decimal,
+  decimal,
+  z.string()
+]));
+
+export const binanceTickerSchema: z.ZodType<BinanceTickerResponse> = z.object({
+  symbol: z.string(),
+  priceChange: decimal,
+  priceChangePercent: decimal,
+  weightedAvgPrice: decimal,
+  prevClosePrice: decimal.optional(),
+  lastPrice: decimal,
+  lastQty: decimal,
+  bidPrice: decimal.optional(),
+  bidQty: decimal.optional(),
+  askPrice: decimal.optional(),
+  askQty: decimal.optional(),
+  openPrice: decimal,
+  highPrice: decimal,
+  lowPrice: decimal,
+  volume: decimal,
+  quoteVolume: decimal.optional(),
+  baseVolume: decimal.optional(),
+  openTime: timestamp,
+  closeTime: timestamp,
+  firstId: z.number(),
+  lastId: z.number(),
+  count: z.number()
+});
+
+export const binanceExchangeInfoSchema: z.ZodType<BinanceExchangeInfoResponse> = z.object({
+  symbols: z.array(z.object({
+    symbol: z.string(),
+    status: z.string().optional(),
+    contractStatus: z.string().optional(),
+    baseAsset: z.string(),
+    quoteAsset: z.string(),
+    contractType: z.string().optional(),
+    marginAsset: z.string().optional(),
+    contractSize: z.number().optional(),
+    deliveryDate: timestamp.optional(),
+    filters: z.array(z.object({
+      filterType: z.string(),
+      minPrice: decimal.optional(),
+      maxPrice: decimal.optional(),
+      tickSize: decimal.optional(),
+      minQty: decimal.optional(),
+      maxQty: decimal.optional(),
+      stepSize: decimal.optional()
+    }))
+  }))
+});
+
+export const binanceKlineStreamSchema: z.ZodType<BinanceKlineStreamMessage> = z.object({
+  e: z.literal('kline'),
+  E: timestamp,
+  s: z.string(),
+  k: z.object({
+    t: timestamp,
+    T: timestamp,
+    s: z.string(),
+    i: z.string(),
+    o: decimal,
+    c: decimal,
+    h: decimal,
+    l: decimal,
+    v: decimal,
+    n: z.number().int(),
+    x: z.boolean(),
+    q: decimal,
+    V: decimal,
+    Q: decimal
+  })
+});
+
+export const binanceTickerStreamSchema: z.ZodType<BinanceTickerStreamMessage> = z.object({
+  e: z.literal('24hrTicker'),
+  E: timestamp,
+  s: z.string(),
+  p: decimal,
+  P: decimal,
+  w: decimal,
+  x: decimal,
+  c: decimal,
+  b: decimal,
+  a: decimal,
+  o: decimal,
+  h: decimal,
+  l: decimal,
+  v: decimal,
+  q: decimal
+});
+
+export const binanceFundingRateSchema: z.ZodType<BinanceFundingRateResponse[]> = z.array(z.object({
+  symbol: z.string(),
+  fundingTime: timestamp,
+  fundingRate: decimal,
+  markPrice: optionalDecimal.optional()
+}));
+
+const binancePremiumIndex = z.object({
+  symbol: z.string(),
+  markPrice: decimal,
+  indexPrice: decimal,
+  lastFundingRate: optionalDecimal, // Empty for delivery contracts
+  nextFundingTime: timestamp,
+  time: timestamp
+});
+
+// COIN-M answers with an array even for a single symbol
+export const binancePremiumIndexSchema: z.ZodType<BinancePremiumIndexResponse | BinancePremiumIndexResponse[]> =
+  z.union([binancePremiumIndex, z.array(binancePremiumIndex)]);
+
+export const binanceOpenInterestSchema: z.ZodType<BinanceOpenInterestResponse[]> = z.array(z.object({
+  symbol: z.string().optional(),
+  pair: z.string().optional(),
+  sumOpenInterest: decimal,
+  sumOpenInterestValue: decimal,
+  timestamp: timestamp
+}));
+
+export const binanceDepthSchema: z.ZodType<BinanceDepthResponse> = z.object({
+  lastUpdateId: timestamp,
+  E: timestamp.optional(),
+  T: timestamp.optional(),
+  bids: bookLevels,
+  asks: bookLevels
+});
+
+export const binanceDepthStreamSchema: z.ZodType<BinanceDepthStreamMessage> = z.object({
+  e: z.literal('depthUpdate'),
+  E: timestamp,
+  T: timestamp.optional(),
+  s: z.string(),
+  U: timestamp,
+  u: timestamp,
+  pu: z.number().int().optional(), // -1 on the first event after a futures stream starts
+  b: bookLevels,
+  a: bookLevels
+});
+
+const binanceAggTrade = z.object({
+  a: z.number().int(),
+  p: decimal,
+  q: decimal,
+  f: z.number().int(),
+  l: z.number().int(),
+  T: timestamp,
+  m: z.boolean()
+});
+
+export const binanceAggTradesSchema: z.ZodType<BinanceAggTradeResponse[]> = z.array(binanceAggTrade);
+
+export const binanceAggTradeStreamSchema: z.ZodType<BinanceAggTradeStreamMessage> = binanceAggTrade.extend({
+  e: z.literal('aggTrade'),
+  E: timestamp,
+  s: z.string()
+});
+
+export const binanceServerTimeSchema: z.ZodType<BinanceServerTimeResponse> = z.object({
+  serverTime: timestamp
+});
+
+export const binanceSpotAccountSchema: z.ZodType<BinanceSpotAccountResponse> = z.object({
+  balances: z.array(z.object({
+    asset: z.string(),
+    free: decimal,
+    locked: decimal
+  })),
+  updateTime: timestamp
+});
+
+export const binanceFuturesBalanceSchema: z.ZodType<BinanceFuturesBalanceResponse[]> = z.array(z.object({
+  asset: z.string(),
+  balance: decimal,
+  crossUnPnl: decimal,
+  availableBalance: decimal,
+  updateTime: timestamp
+}));
+
+export const binancePositionRiskSchema: z.ZodType<BinancePositionRiskResponse[]> = z.array(z.object({
+  symbol: z.string(),
+  positionAmt: decimal,
+  entryPrice: decimal,
+  markPrice: decimal,
+  unRealizedProfit: decimal,
+  liquidationPrice: decimal,
+  leverage: decimal,
+  marginType: z.string(),
+  updateTime: timestamp
+}));
+
+export const binanceOpenOrdersSchema: z.ZodType<BinanceOpenOrderResponse[]> = z.array(z.object({
+  symbol: z.string(),
+  orderId: z.number().int(),
+  price: decimal,
+  origQty: decimal,
+  executedQty: decimal,
+  status: z.string(),
+  type: z.string(),
+  side: z.enum(['BUY', 'SELL']),
+  reduceOnly: z.boolean().optional(),
+  time: timestamp
+}));
+
+// Bybit
+
+const bybitTicker = z.object({
+  symbol: z.string(),
+  bid1Price: optionalDecimal,
+  bid1Size: optionalDecimal,
+  ask1Price: optionalDecimal,
+  ask1Size: optionalDecimal,
+  lastPrice: decimal,
+  prevPrice24h: decimal,
+  price24hPcnt: decimal,
+  highPrice24h: decimal,
+  lowPrice24h: decimal,
+  turnover24h: decimal,
+  volume24h: decimal,
+  usdIndexPrice: optionalDecimal.optional()
+});
+
+export const bybitKlineSchema: z.ZodType<BybitKlineResponse> = z.object({
+  retCode: z.number(),
+  retMsg: z.string(),
+  result: z.object({
+    symbol: z.string(),
+    category: z.string(),
+    list: z.array(z.tuple([z.string(), decimal, decimal, decimal, decimal, decimal, decimal]))
+  })
+});
+
+export const bybitTickerSchema: z.ZodType<BybitTickerResponse> = z.object({
+  retCode: z.number(),
+  retMsg: z.string(),
+  result: z.object({
+    category: z.string(),
+    list: z.array(bybitTicker)
+  })
+});
+
+export const bybitInstrumentsSchema: z.ZodType<BybitInstrumentsResponse> = z.object({
+  retCode: z.number(),
+  retMsg: z.string(),
+  result: z.object({
+    category: z.string(),
+    list: z.array(z.object({
+      symbol: z.string(),
+      status: z.string(),
+      baseCoin: z.string(),
+      quoteCoin: z.string(),
+      contractType: z.string().optional(),
+      settleCoin: z.string().optional(),
+      deliveryTime: z.string().optional(),
+      priceFilter: z.object({
+        minPrice: decimal.optional(),
+        maxPrice: decimal.optional(),
+        tickSize: decimal
+      }),
+      lotSizeFilter: z.object({
+        minOrderQty: decimal,
+        maxOrderQty: decimal,
+        qtyStep: decimal.optional(),
+        basePrecision: decimal.optional()
+      })
+    })),
+    nextPageCursor: z.string().optional()
+  })
+});
+
+export const bybitFundingRateSchema: z.ZodType<BybitFundingRateResponse> = z.object({
+  retCode: z.number(),
+  retMsg: z.string(),
+  result: z.object({
+    category: z.string(),
+    list: z.array(z.object({
+      symbol: z.string(),
+      fundingRate: decimal,
+      fundingRateTimestamp: z.string()
+    }))
+  })
+});
+
+export const bybitDerivativesTickerSchema: z.ZodType<BybitDerivativesTickerResponse> = z.object({
+  retCode: z.number(),
+  retMsg: z.string(),
+  result: z.object({
+    category: z.string(),
+    list: z.array(z.object({
+      symbol: z.string(),
+      markPrice: decimal,
+      indexPrice: decimal,
+      fundingRate: optionalDecimal, // Empty for delivery contracts
+      nextFundingTime: z.string(),
+      openInterest: decimal,
+      openInterestValue: decimal
+    }))
+  }),
+  time: timestamp
+});
+
+export const bybitOpenInterestSchema: z.ZodType<BybitOpenInterestResponse> = z.object({
+  retCode: z.number(),
+  retMsg: z.string(),
+  result: z.object({
+    symbol: z.string(),
+    category: z.string(),
+    list: z.array(z.object({ openInterest: decimal, timestamp: z.string() })),
+    nextPageCursor: z.string().optional()
+  })
+});
+
+export const bybitPriceKlineSchema: z.ZodType<BybitPriceKlineResponse> = z.object({
+  retCode: z.number(),
+  retMsg: z.string(),
+  result: z.object({
+    symbol: z.string(),
+    category: z.string(),
+    list: z.array(z.tuple([z.string(), decimal, decimal, decimal, decimal]))
+  })
+});
+
+export const bybitOrderBookSchema: z.ZodType<BybitOrderBookResponse> = z.object({
+  retCode: z.number(),
+  retMsg: z.string(),
+  result: z.object({
+    s: z.string(),
+    b: bookLevels,
+    a: bookLevels,
+    ts: timestamp,
+    u: timestamp,
+    seq: timestamp
+  })
+});
+
+export const bybitRecentTradeSchema: z.ZodType<BybitRecentTradeResponse> = z.object({
+  retCode: z.number(),
+  retMsg: z.string(),
+  result: z.object({
+    category: z.string(),
+    list: z.array(z.object({
+      execId: z.string(),
+      symbol: z.string(),
+      price: decimal,
+      size: decimal,
+      side: z.enum(['Buy', 'Sell']),
+      time: z.string(),
+      isBlockTrade: z.boolean()
+    }))
+  })
+});
+
+export const bybitServerTimeSchema: z.ZodType<BybitServerTimeResponse> = z.object({
+  retCode: z.number(),
+  retMsg: z.string(),
+  result: z.object({
+    timeSecond: z.string(),
+    timeNano: z.string()
+  }),
+  time: timestamp
+});
+
+export const bybitWalletBalanceSchema: z.ZodType<BybitWalletBalanceResponse> = z.object({
+  retCode: z.number(),
+  retMsg: z.string(),
+  result: z.object({
+    list: z.array(z.object({
+      accountType: z.string(),
+      coin: z.array(z.object({
+        coin: z.string(),
+        walletBalance: decimal,
+        locked: optionalDecimal,
+        totalOrderIM: optionalDecimal,
+        totalPositionIM: optionalDecimal,
+        unrealisedPnl: optionalDecimal
+      }))
+    }))
+  })
+});
+
+export const bybitPositionSchema: z.ZodType<BybitPositionResponse> = z.object({
+  retCode: z.number(),
+  retMsg: z.string(),
+  result: z.object({
+    category: z.string(),
+    list: z.array(z.object({
+      symbol: z.string(),
+      side: z.enum(['Buy', 'Sell', '']),
+      size: decimal,
+      avgPrice: optionalDecimal,
+      markPrice: optionalDecimal,
+      unrealisedPnl: optionalDecimal,
+      leverage: optionalDecimal,
+      liqPrice: optionalDecimal,
+      tradeMode: z.number().int(),
+      updatedTime: z.string()
+    })),
+    nextPageCursor: z.string()
+  })
+});
+
+export const bybitOpenOrdersSchema: z.ZodType<BybitOpenOrderResponse> = z.object({
+  retCode: z.number(),
+  retMsg: z.string(),
+  result: z.object({
+    category: z.string(),
+    list: z.array(z.object({
+      orderId: z.string(),
+      symbol: z.string(),
+      side: z.enum(['Buy', 'Sell']),
+      orderType: z.string(),
+      price: optionalDecimal,
+      qty: decimal,
+      cumExecQty: decimal,
+      orderStatus: z.string(),
+      reduceOnly: z.boolean(),
+      createdTime: z.string()
+    })),
+    nextPageCursor: z.string()
+  })
+});
+
+export const bybitKlineStreamSchema: z.ZodType<BybitKlineStreamMessage> = z.object({
+  topic: z.string(),
+  type: z.enum(['snapshot', 'delta']),
+  ts: timestamp,
+  data: z.array(z.object({
+    start: timestamp,
+    end: timestamp,
+    interval: z.string(),
+    open: decimal,
+    close: decimal,
+    high: decimal,
+    low: decimal,
+    volume: decimal,
+    turnover: decimal,
+    confirm: z.boolean(),
+    timestamp: timestamp
+  }))
+});
+
+export const bybitTickerStreamSchema: z.ZodType<BybitTickerStreamMessage> = z.object({
+  topic: z.string(),
+  type: z.enum(['snapshot', 'delta']),
+  ts: timestamp,
+  data: bybitTicker.partial()
+});
+
+export const bybitTradeStreamSchema: z.ZodType<BybitTradeStreamMessage> = z.object({
+  topic: z.string(),
+  type: z.enum(['snapshot', 'delta']),
+  ts: timestamp,
+  data: z.array(z.object({
+    T: timestamp,
+    s: z.string(),
+    S: z.enum(['Buy', 'Sell']),
+    v: decimal,
+    p: decimal,
+    i: z.string(),
+    BT: z.boolean()
+  }))
+});
+
+export const bybitOrderBookStreamSchema: z.ZodType<BybitOrderBookStreamMessage> = z.object({
+  topic: z.string(),
+  type: z.enum(['snapshot', 'delta']),
+  ts: timestamp,
+  data: z.object({
+    s: z.string(),
+    b: bookLevels,
+    a: bookLevels,
+    u: timestamp,
+    seq: timestamp
+  })
+});
+
+// OKX
+
+const okxEnvelope = <T extends z.ZodTypeAny>(data: T) => z.object({
+  code: z.string(),
+  msg: z.string(),
+  data
+});
+
+export const okxKlineSchema: z.ZodType<OkxKlineResponse> = okxEnvelope(z.array(z.tuple([
+  z.string(),
+  decimal,
+  decimal,
+  decimal,
+  decimal,
+  decimal,
+  decimal,
+  decimal,
+  z.enum(['0', '1'])
+])));
+
+export const okxTickerSchema: z.ZodType<OkxTickerResponse> = okxEnvelope(z.array(z.object({
+  instType: z.string(),
+  instId: z.string(),
+  last: decimal,
+  lastSz: optionalDecimal,
+  askPx: optionalDecimal,
+  askSz: optionalDecimal,
+  bidPx: optionalDecimal,
+  bidSz: optionalDecimal,
+  open24h: decimal,
+  high24h: decimal,
+  low24h: decimal,
+  volCcy24h: decimal,
+  vol24h: decimal,
+  ts: z.string(),
+  sodUtc0: decimal,
+  sodUtc8: decimal
+})));
+
+export const okxInstrumentsSchema: z.ZodType<OkxInstrumentsResponse> = okxEnvelope(z.array(z.object({
+  instType: z.string(),
+  instId: z.string(),
+  uly: z.string(),
+  baseCcy: z.string(),
+  quoteCcy: z.string(),
+  settleCcy: z.string(),
+  ctVal: optionalDecimal,
+  ctValCcy: z.string(),
+  ctType: z.string(),
+  tickSz: decimal,
+  lotSz: decimal,
+  minSz: decimal,
+  maxLmtSz: decimal,
+  state: z.string()
+})));
+
+export const okxServerTimeSchema: z.ZodType<OkxServerTimeResponse> = okxEnvelope(z.array(z.object({
+  ts: decimal
+})));
+
+// Recorded fixtures
+
+export const fixtureSetSchema: z.ZodType<FixtureSet> = z.object({
+  version: z.literal(1),
+  responses: z.array(z.object({
+    url: z.string().url(),
+    status: z.number().int(),
+    headers: z.record(z.string()),
+    body: z.unknown(),
+    recordedAt: timestamp
+  }))
+});
@@ -0,0 +1,151 @@
+import type { Exchange, ApiKeyPair, HttpTransport } from '../../types/exchange';
+import { getHttpTransport, setHttpTransport } from './http';
+import { hmacSha256Hex, importSigningKey } from './signing';
+
+export interface SignedStandInOptions {
+  exchange: Exchange;
+  // The key pair the stand-in accepts
+  keys: ApiKeyPair;
+  // Body for each signed path, e.g. '/fapi/v2/balance', as the exchange would
+  // send it. Server time paths are answered from the stand-in's clock.
+  responses: Record<string, unknown>;
+  // Milliseconds the stand-in's clock runs ahead of the local one
+  clockOffsetMs?: number;
+  // Send other requests here instead of answering 404
+  fallback?: HttpTransport;
+}
+
+// How far ahead of the server clock a timestamp may be, on both exchanges
+const MAX_FUTURE_SKEW_MS = 1000;
+
+interface Verdict {
+  ok: boolean;
+  // Error body the exchange sends when the check fails
+  error?: unknown;
+  status?: number;
+}
+
+/**
+ * Answers signed Binance or Bybit requests in place of the exchange, checking
+ * the API key, signature and recvWindow the way the exchange does and
+ * replying with its error payloads when one is off. For exercising the signed
+ * request path without real credentials or network access.
+ */
+export class SignedEndpointStandIn {
+  // Path of every request received, signed or not
+  readonly received: string[] = [];
+
+  private readonly signingKey: Promise<CryptoKey>;
+
+  constructor(private readonly options: SignedStandInOptions) {
+    if (options.exchange !== 'binance' && options.exchange !== 'bybit') {
+      throw new Error(`No signed endpoint stand-in for ${options.exchange}`);
+    }
+    this.signingKey = importSigningKey(options.keys.apiSecret);
+  }
+
+  readonly transport: HttpTransport = async (url, init) => {
+    const parsed = new URL(url);
+    this.received.push(parsed.pathname);
+
+    if (this.isServerTimePath(parsed.pathname)) {
+      return this.json(this.getServerTimeBody());
+    }
+
+    if (!(parsed.pathname in this.options.responses)) {
+      if (this.options.fallback) return this.options.fallback(url, init);
+      return this.json({ msg: `No stand-in response for ${parsed.pathname}` }, 404);
+    }
+
+    const headers = new Headers(init.headers);
+    const verdict = this.options.exchange === 'binance'
+      ? await this.verifyBinance(parsed, headers)
+      : await this.verifyBybit(parsed, headers);
+
+    if (!verdict.ok) return this.json(verdict.error, verdict.status);
+    return this.json(this.options.responses[parsed.pathname]);
+  };
+
+  private now(): number {
+    return Date.now() + (this.options.clockOffsetMs ?? 0);
+  }
+
+  private isServerTimePath(path: string): boolean {
+    return this.options.exchange === 'binance' ? path.endsWith('/time') : path === '/v5/market/time';
+  }
+
+  private getServerTimeBody(): unknown {
+    const now = this.now();
+    if (this.options.exchange === 'binance') return { serverTime: now };
+
+    return {
+      retCode: 0,
+      retMsg: 'OK',
+      result: { timeSecond: String(Math.floor(now / 1000)), timeNano: `${now}000000` },
+      time: now
+    };
+  }
+
+  private isOutsideWindow(timestamp: number, recvWindow: number): boolean {
+    const now = this.now();
+    return !Number.isFinite(timestamp) || timestamp > now + MAX_FUTURE_SKEW_MS || now - timestamp > recvWindow;
+  }
+
+  // Query signature over everything before &signature=, key in X-MBX-APIKEY
+  private async verifyBinance(url: URL, headers: Headers): Promise<Verdict> {
+    if (headers.get('X-MBX-APIKEY') !== this.options.keys.apiKey) {
+      return { ok: false, status: 401, error: { code: -2015, msg: 'Invalid API-key, IP, or permissions for action.' } };
+    }
+
+    const query = url.search.slice(1);
+    const [payload, signature] = query.split('&signature=');
+    if (!signature || signature !== await hmacSha256Hex(await this.signingKey, payload)) {
+      return { ok: false, status: 400, error: { code: -1022, msg: 'Signature for this request is not valid.' } };
+    }
+
+    const timestamp = Number(url.searchParams.get('timestamp'));
+    const recvWindow = Number(url.searchParams.get('recvWindow') ?? 5000);
+    if (this.isOutsideWindow(timestamp, recvWindow)) {
+      return { ok: false, status: 400, error: { code: -1021, msg: 'Timestamp for this request is outside of the recvWindow.' } };
+    }
+
+    return { ok: true };
+  }
+
+  // Signature over timestamp + key + recvWindow + query, all sent as headers;
+  // errors come back with HTTP 200 like the real API
+  private async verifyBybit(url: URL, headers: Headers): Promise<Verdict> {
+    const reject = (retCode: number, retMsg: string): Verdict => ({
+      ok: false,
+      error: { retCode, retMsg, result: {}, time: this.now() }
+    });
+
+    const apiKey = headers.get('X-BAPI-API-KEY');
+    if (apiKey !== this.options.keys.apiKey) return reject(10003, 'API key is invalid.');
+
+    const timestamp = headers.get('X-BAPI-TIMESTAMP') ?? '';
+    const recvWindow = headers.get('X-BAPI-RECV-WINDOW') ?? '5000';
+    const expected = await hmacSha256Hex(await this.signingKey, `${timestamp}${apiKey}${recvWindow}${url.search.slice(1)}`);
+    if (headers.get('X-BAPI-SIGN') !== expected) return reject(10004, 'error sign! origin_string[...]');
+
+    if (this.isOutsideWindow(Number(timestamp), Number(recvWindow))) {
+      return reject(10002, 'invalid request, please check your server timestamp or recv_window param');
+    }
+
+    return { ok: true };
+  }
+
+  private json(body: unknown, status: number = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  }
+}
+
+/**
+ * Route every exchange request through a stand-in. Returns a function that
+ * restores the previous transport.
+ */
+export function installSignedStandIn(options: SignedStandInOptions): () => void {
+  const previous = getHttpTransport();
+  setHttpTransport(new SignedEndpointStandIn({ fallback: previous, ...options }).transport);
+  return () => setHttpTransport(previous);
+}
@@ -0,0 +1,21 @@
+import type { ApiKeyPair, AccountCredentials } from '../../types/exchange';
+
+const encoder = new TextEncoder();
+
+/**
+ * Import an API secret as a non-extractable HMAC-SHA256 key. The key can
+ * sign but never be read back, so nothing holding it can leak the secret.
+ */
+export async function importSigningKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+}
+
+export async function importCredentials(keys: ApiKeyPair): Promise<AccountCredentials> {
+  return { apiKey: keys.apiKey, signingKey: await importSigningKey(keys.apiSecret) };
+}
+
+// Lowercase hex HMAC-SHA256, the signature format of both Binance and Bybit
+export async function hmacSha256Hex(key: CryptoKey, payload: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { Exchange, InstrumentSpec, TradingType } from '../../types/exchange';
+import { fromDayMonthYear, splitMultiplier, splitPair, toDayMonthYear } from './symbolCodec';
+import { getExchangeAdapter } from './registry';
+
+const spot = (base: string, quote: string, multiplier = 1): InstrumentSpec => ({
+  base, quote, settlement: quote, contractType: 'spot', multiplier
+});
+
+const linear = (base: string, quote: string, expiry?: string, multiplier = 1): InstrumentSpec => ({
+  base, quote, settlement: quote, contractType: expiry ? 'delivery' : 'perpetual', multiplier, expiry
+});
+
+const inverse = (base: string, expiry?: string): InstrumentSpec => ({
+  base, quote: 'USD', settlement: base, contractType: expiry ? 'delivery' : 'perpetual', multiplier: 1, expiry
+});
+
+function codec(exchange: Exchange) {
+  return getExchangeAdapter(exchange).symbols!;
+}
+
+describe('symbol codecs', () => {
+  const roundTrips: Array<[Exchange, TradingType, string, InstrumentSpec]> = [
+    ['binance', 'spot', 'BTCUSDT', spot('BTC', 'USDT')],
+    ['binance', 'spot', 'ETHFDUSD', spot('ETH', 'FDUSD')],
+    ['binance', 'spot', '1INCHUSDT', spot('1INCH', 'USDT')],
+    ['binance', 'futures', 'BTCUSDT', linear('BTC', 'USDT')],
+    ['binance', 'futures', '1000PEPEUSDT', linear('PEPE', 'USDT', undefined, 1000)],
+    ['binance', 'futures', '1MBABYDOGEUSDT', linear('BABYDOGE', 'USDT', undefined, 1_000_000)],
+    ['binance', 'futures', 'BTCUSDT_250627', linear('BTC', 'USDT', '250627')],
+    ['binance', 'inverse', 'BTCUSD_PERP', inverse('BTC')],
+    ['binance', 'inverse', 'ETHUSD_250926', inverse('ETH', '250926')],
+    ['bybit', 'spot', 'BTCUSDC', spot('BTC', 'USDC')],
+    ['bybit', 'futures', 'BTCUSDT', linear('BTC', 'USDT')],
+    ['bybit', 'futures', '1000PEPEUSDT', linear('PEPE', 'USDT', undefined, 1000)],
+    ['bybit', 'futures', 'BTCPERP', linear('BTC', 'USDC')],
+    ['bybit', 'futures', 'BTCUSDT-27JUN25', linear('BTC', 'USDT', '250627')],
+    ['bybit', 'futures', 'ETH-26SEP25', linear('ETH', 'USDC', '250926')],
+    ['bybit', 'inverse', 'BTCUSD', inverse('BTC')],
+    ['okx', 'spot', 'BTC-USDT', spot('BTC', 'USDT')],
+    ['okx', 'futures', 'BTC-USDT-SWAP', linear('BTC', 'USDT')],
+    ['okx', 'inverse', 'BTC-USD-SWAP', inverse('BTC')]
+  ];
+
+  it.each(roundTrips)('%s %s reads and writes %s', (exchange, tradingType, symbol, spec) => {
+    expect(codec(exchange).parse(symbol, tradingType)).toEqual(spec);
+    expect(codec(exchange).format(spec)).toBe(symbol);
+  });
+
+  const unparsable: Array<[Exchange, TradingType, string]> = [
+    ['binance', 'spot', 'BTCUSDT_250627'],
+    ['binance', 'futures', 'BTCUSD_PERP'],
+    ['binance', 'inverse', 'BTCUSDT'],
+    ['binance', 'futures', 'BTCUSDT_251399'],
+    ['bybit', 'inverse', 'BTCUSDT'],
+    ['bybit', 'futures', 'BTC-31FOO25'],
+    ['okx', 'spot', 'BTC-USDT-SWAP'],
+    ['okx', 'inverse', 'BTC-USDT-SWAP'],
+    ['okx', 'futures', 'BTC-USD-250627']
+  ];
+
+  it.each(unparsable)('%s %s does not read %s', (exchange, tradingType, symbol) => {
+    expect(codec(exchange).parse(symbol, tradingType)).toBeUndefined();
+  });
+
+  it('reads Bybit\'s multiplier suffixes, though it writes the usual prefix', () => {
+    expect(codec('bybit').parse('SHIB1000USDT', 'futures')).toEqual(linear('SHIB', 'USDT', undefined, 1000));
+  });
+
+  it('writes Bybit inverse delivery contracts with a month code', () => {
+    expect(codec('bybit').format(inverse('BTC', '250627'))).toBe('BTCUSDM25');
+  });
+
+  it('has no name for instruments a venue does not list', () => {
+    expect(codec('okx').format(linear('BTC', 'USDT', '250627'))).toBeUndefined();
+    expect(codec('okx').format(linear('PEPE', 'USDT', undefined, 1000))).toBeUndefined();
+    expect(codec('binance').format({ ...linear('BTC', 'USDT'), settlement: 'USDC' })).toBeUndefined();
+  });
+});
+
+describe('symbol helpers', () => {
+  it('splits pairs by the longest matching quote asset', () => {
+    expect(splitPair('ETHFDUSD')).toEqual({ base: 'ETH', quote: 'FDUSD' });
+    expect(splitPair('BTCUSD')).toEqual({ base: 'BTC', quote: 'USD' });
+    expect(splitPair('USDT')).toBeUndefined();
+  });
+
+  it('separates multipliers of 100 and up only', () => {
+    expect(splitMultiplier('1000PEPE')).toEqual({ base: 'PEPE', multiplier: 1000 });
+    expect(splitMultiplier('SHIB1000')).toEqual({ base: 'SHIB', multiplier: 1000 });
+    expect(splitMultiplier('1MBABYDOGE')).toEqual({ base: 'BABYDOGE', multiplier: 1_000_000 });
+    expect(splitMultiplier('1INCH')).toEqual({ base: '1INCH', multiplier: 1 });
+  });
+
+  it('converts between YYMMDD and DDMMMYY', () => {
+    expect(toDayMonthYear('250627')).toBe('27JUN25');
+    expect(fromDayMonthYear('27JUN25')).toBe('250627');
+    expect(fromDayMonthYear('3JAN25')).toBe('250103');
+    expect(fromDayMonthYear('27XYZ25')).toBeUndefined();
+  });
+});
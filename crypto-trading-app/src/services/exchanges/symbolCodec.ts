@@ -0,0 +1,83 @@
+import type { TradingType, InstrumentSpec } from '../../types/exchange';
+
+// Quote assets recognized at the end of concatenated symbols like BTCUSDT.
+// Longest first, so FDUSD is not read as FD + USD.
+const QUOTE_ASSETS = [
+  'FDUSD',
+  'USDT', 'USDC', 'USDE', 'TUSD', 'BUSD',
+  'USD', 'EUR', 'TRY', 'BRL', 'JPY', 'DAI', 'BTC', 'ETH', 'BNB', 'SOL'
+];
+
+// 1000PEPE, 1MBABYDOGE, and Bybit's SHIB1000. Only powers of ten from 100 up,
+// so assets like 1INCH keep their name.
+const MULTIPLIER_PREFIX = /^(1M|10{2,})([A-Z].*)$/;
+const MULTIPLIER_SUFFIX = /^([A-Z][A-Z0-9]*?)(10{2,})$/;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * Split a concatenated symbol into base and quote by its quote asset
+ */
+export function splitPair(symbol: string): { base: string; quote: string } | undefined {
+  const quote = QUOTE_ASSETS.find(asset => symbol.length > asset.length && symbol.endsWith(asset));
+  return quote ? { base: symbol.slice(0, -quote.length), quote } : undefined;
+}
+
+/**
+ * Separate a multiplier from an asset name: 1000PEPE is 1000 PEPE
+ */
+export function splitMultiplier(asset: string): { base: string; multiplier: number } {
+  const prefixed = MULTIPLIER_PREFIX.exec(asset);
+  if (prefixed) {
+    return { base: prefixed[2], multiplier: prefixed[1] === '1M' ? 1_000_000 : Number(prefixed[1]) };
+  }
+
+  const suffixed = MULTIPLIER_SUFFIX.exec(asset);
+  if (suffixed) {
+    return { base: suffixed[1], multiplier: Number(suffixed[2]) };
+  }
+
+  return { base: asset, multiplier: 1 };
+}
+
+// The base asset as most venues write it, multiplier first: 1000PEPE, 1MBABYDOGE
+export function withMultiplier(spec: InstrumentSpec): string {
+  if (spec.multiplier === 1_000_000) return `1M${spec.base}`;
+  return spec.multiplier > 1 ? `${spec.multiplier}${spec.base}` : spec.base;
+}
+
+/**
+ * Market an instrument belongs in: coin-margined contracts settle in their
+ * base asset, every other contract is linear
+ */
+export function getTradingType(spec: InstrumentSpec): TradingType {
+  if (spec.contractType === 'spot') return 'spot';
+  return spec.settlement === spec.base ? 'inverse' : 'futures';
+}
+
+// YYMMDD of a delivery time, in UTC
+export function formatExpiry(time: number): string {
+  return new Date(time).toISOString().slice(2, 10).replace(/-/g, '');
+}
+
+export function isExpiry(value: string): boolean {
+  if (!/^\d{6}$/.test(value)) return false;
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+}
+
+// YYMMDD to DDMMMYY, e.g. 250627 to 27JUN25
+export function toDayMonthYear(expiry: string): string {
+  return `${expiry.slice(4, 6)}${MONTHS[Number(expiry.slice(2, 4)) - 1]}${expiry.slice(0, 2)}`;
+}
+
+// DDMMMYY to YYMMDD; undefined when it is not a date
+export function fromDayMonthYear(value: string): string | undefined {
+  const match = /^(\d{1,2})([A-Z]{3})(\d{2})$/.exec(value);
+  const month = match ? MONTHS.indexOf(match[2]) + 1 : 0;
+  if (!match || month === 0) return undefined;
+
+  const expiry = `${match[3]}${String(month).padStart(2, '0')}${match[1].padStart(2, '0')}`;
+  return isExpiry(expiry) ? expiry : undefined;
+}
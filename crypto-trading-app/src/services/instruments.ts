@@ -0,0 +1,97 @@
+import type { Exchange, TradingType, Instrument, InstrumentSpec, SymbolInfo } from '../types/exchange';
+import { getExchangeAdapter } from './exchanges/registry';
+import { splitMultiplier, withMultiplier, getTradingType, formatExpiry, isExpiry } from './exchanges/symbolCodec';
+
+export { getTradingType };
+
+/**
+ * Venue-independent id of an instrument, see InstrumentSpec
+ */
+export function formatInstrumentId(spec: InstrumentSpec): string {
+  const pair = `${withMultiplier(spec)}/${spec.quote}`;
+  if (spec.contractType === 'spot') return pair;
+  return spec.expiry ? `${pair}:${spec.settlement}-${spec.expiry}` : `${pair}:${spec.settlement}`;
+}
+
+export function parseInstrumentId(id: string): InstrumentSpec {
+  const [pair, contract, ...rest] = id.toUpperCase().split(':');
+  const [baseAsset, quote, ...extraAssets] = pair.split('/');
+  const [settlement, expiry, ...extraParts] = contract?.split('-') ?? [];
+
+  const malformed = !baseAsset || !quote || rest.length > 0 || extraAssets.length > 0 || extraParts.length > 0
+    || (contract !== undefined && !settlement)
+    || (expiry !== undefined && !isExpiry(expiry));
+  if (malformed) {
+    throw new Error(`Not an instrument id: ${id}`);
+  }
+
+  const { base, multiplier } = splitMultiplier(baseAsset);
+  if (contract === undefined) {
+    return { base, quote, settlement: quote, contractType: 'spot', multiplier };
+  }
+  return { base, quote, settlement, contractType: expiry ? 'delivery' : 'perpetual', multiplier, expiry };
+}
+
+// A pair apart from any market: BTC/USDT is BTCUSDT on Binance spot and
+// BTC-USDT-SWAP among OKX's linear swaps
+export type TradingPair = Pick<InstrumentSpec, 'base' | 'quote' | 'multiplier'>;
+
+/**
+ * The exchange's symbol for a pair in one of its markets: the pair itself on
+ * spot and its perpetual on the derivatives markets. Coin-margined perpetuals
+ * are quoted in USD whatever the pair's quote.
+ */
+export function getPairSymbol(exchange: Exchange, tradingType: TradingType, pair: TradingPair): string | undefined {
+  const { base, quote, multiplier } = pair;
+  const spec: InstrumentSpec = tradingType === 'spot'
+    ? { base, quote, settlement: quote, contractType: 'spot', multiplier }
+    : tradingType === 'inverse'
+      ? { base, quote: 'USD', settlement: base, contractType: 'perpetual', multiplier }
+      : { base, quote, settlement: quote, contractType: 'perpetual', multiplier };
+  return getExchangeAdapter(exchange).symbols?.format(spec);
+}
+
+function toInstrument(exchange: Exchange, tradingType: TradingType, venueSymbol: string, spec: InstrumentSpec): Instrument {
+  return { ...spec, id: formatInstrumentId(spec), exchange, tradingType, venueSymbol };
+}
+
+/**
+ * The instrument an exchange's instrument list describes. Preferred over
+ * parseVenueSymbol, since the list states what the symbol only implies.
+ */
+export function instrumentFromSymbolInfo(exchange: Exchange, tradingType: TradingType, info: SymbolInfo): Instrument {
+  const { base, multiplier } = splitMultiplier(info.baseAsset);
+  const contractType = info.contractType ?? 'spot';
+  const settlement = contractType === 'spot'
+    ? info.quoteAsset
+    : info.settleAsset ?? (tradingType === 'inverse' ? info.baseAsset : info.quoteAsset);
+
+  return toInstrument(exchange, tradingType, info.symbol, {
+    base,
+    quote: info.quoteAsset,
+    // Coin-margined contracts settle in the base asset, whatever its multiplier
+    settlement: settlement === info.baseAsset ? base : settlement,
+    contractType,
+    multiplier,
+    expiry: contractType === 'delivery' && info.deliveryTime !== undefined ? formatExpiry(info.deliveryTime) : undefined
+  });
+}
+
+/**
+ * Read an instrument from the exchange's naming alone; undefined when the
+ * exchange has no symbol codec or the symbol does not follow its naming
+ */
+export function parseVenueSymbol(exchange: Exchange, tradingType: TradingType, symbol: string): Instrument | undefined {
+  const spec = getExchangeAdapter(exchange).symbols?.parse(symbol, tradingType);
+  return spec ? toInstrument(exchange, tradingType, symbol, spec) : undefined;
+}
+
+/**
+ * The instrument under the exchange's symbol for it, by its naming alone. The
+ * exchange may still not list it; ExchangeAPI.findInstrument checks.
+ */
+export function toVenueInstrument(exchange: Exchange, instrument: InstrumentSpec | string): Instrument | undefined {
+  const spec = typeof instrument === 'string' ? parseInstrumentId(instrument) : instrument;
+  const symbol = getExchangeAdapter(exchange).symbols?.format(spec);
+  return symbol ? toInstrument(exchange, getTradingType(spec), symbol, spec) : undefined;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { KlineData } from '../types/exchange';
+import { detectGaps, normalizeKlines } from './klineNormalizer';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 5, 19);
+
+function candle(index: number, close: string = '100'): KlineData {
+  const openTime = START + index * HOUR;
+  return { openTime, open: '100', high: '101', low: '99', close, volume: '1', closeTime: openTime + HOUR - 1 };
+}
+
+describe('normalizeKlines', () => {
+  it('sorts newest-first candles, as Bybit and OKX send them, into ascending order', () => {
+    const { klines } = normalizeKlines([candle(2), candle(1), candle(0)], '1h', START + 10 * HOUR);
+
+    expect(klines.map(k => k.openTime)).toEqual([START, START + HOUR, START + 2 * HOUR]);
+  });
+
+  it('keeps one candle per openTime, the one received last', () => {
+    const { klines } = normalizeKlines([candle(0), candle(1, '100'), candle(1, '105'), candle(2)], '1h', START + 10 * HOUR);
+
+    expect(klines).toHaveLength(3);
+    expect(klines[1].close).toBe('105');
+  });
+
+  it('marks the forming candle as not closed', () => {
+    const { klines } = normalizeKlines([candle(0), candle(1), candle(2)], '1h', START + 2 * HOUR + 1);
+
+    expect(klines.map(k => k.isClosed)).toEqual([true, true, false]);
+  });
+
+  it('keeps a candle the exchange reports as unconfirmed open past its close time', () => {
+    const { klines } = normalizeKlines([candle(0), { ...candle(1), isClosed: false }], '1h', START + 10 * HOUR);
+
+    expect(klines.map(k => k.isClosed)).toEqual([true, false]);
+  });
+
+  it('reports missing candles between received ones', () => {
+    const { gaps } = normalizeKlines([candle(5), candle(0), candle(1), candle(2)], '1h', START + 10 * HOUR);
+
+    expect(gaps).toEqual([{ from: START + 3 * HOUR, to: START + 4 * HOUR, missing: 2 }]);
+  });
+});
+
+describe('detectGaps', () => {
+  it('finds nothing in a contiguous series', () => {
+    expect(detectGaps([candle(0), candle(1), candle(2)], '1h')).toEqual([]);
+  });
+
+  it('counts calendar months across a gap', () => {
+    const month = (year: number, month: number): KlineData => ({
+      ...candle(0),
+      openTime: Date.UTC(year, month, 1),
+      closeTime: Date.UTC(year, month + 1, 1) - 1
+    });
+
+    expect(detectGaps([month(2023, 11), month(2024, 3)], '1M')).toEqual([
+      { from: Date.UTC(2024, 0, 1), to: Date.UTC(2024, 2, 1), missing: 3 }
+    ]);
+  });
+});
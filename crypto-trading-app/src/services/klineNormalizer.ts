@@ -0,0 +1,49 @@
+import type { Timeframe, CustomTimeframe, KlineData, KlineGap, KlineSeries } from '../types/exchange';
+import { getNextOpenTime } from './timeframes';
+
+/**
+ * Normalize raw adapter output: ascending order, one candle per openTime,
+ * gaps reported against the timeframe, and `isClosed` set on every candle so
+ * the still-forming one is explicit. Exchanges disagree on ordering (Bybit and
+ * OKX return newest first), so strategies must only ever see normalized data.
+ */
+export function normalizeKlines(
+  klines: KlineData[],
+  timeframe: Timeframe | CustomTimeframe,
+  now: number = Date.now()
+): KlineSeries {
+  // Later duplicates win: they carry the most recent state of a candle
+  const byOpenTime = new Map<number, KlineData>();
+  for (const kline of klines) {
+    byOpenTime.set(kline.openTime, kline);
+  }
+  
+  const sorted = Array.from(byOpenTime.values())
+    .sort((a, b) => a.openTime - b.openTime)
+    .map(kline => ({ ...kline, isClosed: kline.isClosed !== false && kline.closeTime < now }));
+  
+  return { klines: sorted, gaps: detectGaps(sorted, timeframe) };
+}
+
+/**
+ * Find missing candles in an ascending, deduplicated series
+ */
+export function detectGaps(klines: KlineData[], timeframe: Timeframe | CustomTimeframe): KlineGap[] {
+  const gaps: KlineGap[] = [];
+  
+  for (let i = 1; i < klines.length; i++) {
+    const expected = getNextOpenTime(klines[i - 1].openTime, timeframe);
+    if (klines[i].openTime <= expected) continue;
+    
+    let missing = 0;
+    let last = expected;
+    for (let openTime = expected; openTime < klines[i].openTime; openTime = getNextOpenTime(openTime, timeframe)) {
+      missing++;
+      last = openTime;
+    }
+    
+    gaps.push({ from: expected, to: last, missing });
+  }
+  
+  return gaps;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { KlineData } from '../types/exchange';
+import { resampleKlines } from './klineResampler';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const MIDNIGHT = Date.UTC(2024, 5, 18);
+
+function candle(openTime: number, length: number, open: number, high: number, low: number, close: number, volume: number): KlineData {
+  return {
+    openTime,
+    open: String(open),
+    high: String(high),
+    low: String(low),
+    close: String(close),
+    volume: String(volume),
+    closeTime: openTime + length - 1,
+    quoteAssetVolume: String(volume * 100),
+    numberOfTrades: 10,
+    takerBuyBaseAssetVolume: String(volume / 2),
+    takerBuyQuoteAssetVolume: String(volume * 50),
+    isClosed: true
+  };
+}
+
+const quarterHours = (opens: number[]) => opens.map((open, i) =>
+  candle(MIDNIGHT + i * 15 * MINUTE, 15 * MINUTE, open, open + 5, open - 5, open + 1, i + 1)
+);
+
+describe('resampleKlines', () => {
+  it('builds 45m candles from three 15m candles each', () => {
+    const klines = quarterHours([100, 101, 102, 103, 104, 105]);
+
+    const resampled = resampleKlines(klines, '45m', MIDNIGHT + DAY);
+
+    expect(resampled).toEqual([
+      {
+        openTime: MIDNIGHT,
+        open: '100',
+        high: '107',
+        low: '95',
+        close: '103',
+        volume: '6',
+        closeTime: MIDNIGHT + 45 * MINUTE - 1,
+        quoteAssetVolume: '600',
+        numberOfTrades: 30,
+        takerBuyBaseAssetVolume: '3',
+        takerBuyQuoteAssetVolume: '300',
+        isClosed: true
+      },
+      expect.objectContaining({ openTime: MIDNIGHT + 45 * MINUTE, open: '103', close: '106', volume: '15', closeTime: MIDNIGHT + 90 * MINUTE - 1 })
+    ]);
+  });
+
+  it('builds 2d candles from daily ones on the epoch grid', () => {
+    // 18 June 2024 opens a 2d candle; 17 June belongs to the one before
+    const days = [-1, 0, 1, 2, 3].map(i => candle(MIDNIGHT + i * DAY, DAY, 60000 + i * 100, 60500 + i * 100, 59500 + i * 100, 60050 + i * 100, 10));
+
+    const resampled = resampleKlines(days, '2d', MIDNIGHT + 10 * DAY);
+
+    expect(resampled.map(k => [k.openTime, k.open, k.high, k.low, k.close, k.volume])).toEqual([
+      [MIDNIGHT, '60000', '60600', '59500', '60150', '20'],
+      [MIDNIGHT + 2 * DAY, '60200', '60800', '59700', '60350', '20']
+    ]);
+    expect(resampled[1].closeTime).toBe(MIDNIGHT + 4 * DAY - 1);
+  });
+
+  it('keeps a partial trailing bucket, still forming', () => {
+    const klines = quarterHours([100, 101, 102, 103]);
+    klines[3].isClosed = false;
+
+    const resampled = resampleKlines(klines, '45m', MIDNIGHT + 50 * MINUTE);
+
+    expect(resampled).toHaveLength(2);
+    expect(resampled[1]).toMatchObject({ openTime: MIDNIGHT + 45 * MINUTE, open: '103', close: '104', volume: '4', isClosed: false });
+  });
+
+  it('drops a leading bucket the input only covers in part', () => {
+    const resampled = resampleKlines(quarterHours([100, 101, 102, 103, 104, 105]).slice(1), '45m', MIDNIGHT + DAY);
+
+    expect(resampled.map(k => k.openTime)).toEqual([MIDNIGHT + 45 * MINUTE]);
+  });
+
+  it('leaves out fields some candles lack', () => {
+    const klines = quarterHours([100, 101, 102]).map(({ numberOfTrades, takerBuyBaseAssetVolume, ...rest }, i) =>
+      i === 1 ? rest : { ...rest, numberOfTrades, takerBuyBaseAssetVolume }
+    );
+
+    const [merged] = resampleKlines(klines, '45m', MIDNIGHT + DAY);
+
+    expect(merged).not.toHaveProperty('numberOfTrades');
+    expect(merged).not.toHaveProperty('takerBuyBaseAssetVolume');
+    expect(merged.takerBuyQuoteAssetVolume).toBe('300');
+  });
+});
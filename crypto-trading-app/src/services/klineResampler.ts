@@ -0,0 +1,74 @@
+import type { Timeframe, CustomTimeframe, KlineData } from '../types/exchange';
+import { getOpenTime, getNextOpenTime } from './timeframes';
+
+// Sum an optional field, or leave it out when any candle lacks it
+function sumField(klines: KlineData[], pick: (kline: KlineData) => string | undefined): string | undefined {
+  const values = klines.map(pick);
+  if (values.some(value => value === undefined)) return undefined;
+  return String(values.reduce((sum, value) => sum + parseFloat(value as string), 0));
+}
+
+function mergeBucket(openTime: number, klines: KlineData[], timeframe: Timeframe | CustomTimeframe, now: number): KlineData {
+  const first = klines[0];
+  const last = klines[klines.length - 1];
+  const closeTime = getNextOpenTime(openTime, timeframe) - 1;
+  const trades = klines.map(kline => kline.numberOfTrades);
+
+  const merged: KlineData = {
+    openTime,
+    open: first.open,
+    high: String(Math.max(...klines.map(kline => parseFloat(kline.high)))),
+    low: String(Math.min(...klines.map(kline => parseFloat(kline.low)))),
+    close: last.close,
+    volume: sumField(klines, kline => kline.volume) as string,
+    closeTime,
+    quoteAssetVolume: sumField(klines, kline => kline.quoteAssetVolume),
+    numberOfTrades: trades.every(count => count !== undefined)
+      ? trades.reduce((sum, count) => sum + (count as number), 0)
+      : undefined,
+    takerBuyBaseAssetVolume: sumField(klines, kline => kline.takerBuyBaseAssetVolume),
+    takerBuyQuoteAssetVolume: sumField(klines, kline => kline.takerBuyQuoteAssetVolume),
+    volumeUnit: first.volumeUnit,
+    baseVolume: sumField(klines, kline => kline.baseVolume),
+    isClosed: closeTime < now && last.isClosed !== false,
+    source: first.source
+  };
+
+  // Keep the candle shape the adapters produce: no keys for missing fields
+  for (const key of Object.keys(merged) as (keyof KlineData)[]) {
+    if (merged[key] === undefined) delete merged[key];
+  }
+
+  return merged;
+}
+
+/**
+ * Build candles of a higher timeframe from normalized lower-timeframe ones.
+ * The first bucket is dropped when the input starts partway through it, since
+ * its open, high and low would be wrong; the last one may still be forming.
+ */
+export function resampleKlines(
+  klines: KlineData[],
+  timeframe: Timeframe | CustomTimeframe,
+  now: number = Date.now()
+): KlineData[] {
+  const buckets = new Map<number, KlineData[]>();
+  for (const kline of klines) {
+    const openTime = getOpenTime(kline.openTime, timeframe);
+    const bucket = buckets.get(openTime);
+    if (bucket) {
+      bucket.push(kline);
+    } else {
+      buckets.set(openTime, [kline]);
+    }
+  }
+
+  const resampled = Array.from(buckets.entries())
+    .map(([openTime, bucket]) => mergeBucket(openTime, bucket, timeframe, now));
+
+  if (resampled.length > 0 && klines[0].openTime !== resampled[0].openTime) {
+    resampled.shift();
+  }
+
+  return resampled;
+}
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { InstrumentSnapshot, SymbolInfo } from '../types/exchange';
+import { ListingMonitor, diffSnapshots } from './listingMonitor';
+import { MemoryListingStore } from './listingStores';
+import './exchanges/registry';
+
+const NOW = Date.UTC(2024, 5, 19, 8);
+
+function symbol(base: string, status = 'TRADING'): SymbolInfo {
+  return { symbol: `${base}USDT`, baseAsset: base, quoteAsset: 'USDT', status, isTrading: status === 'TRADING' };
+}
+
+function snapshot(takenAt: number, instruments: SymbolInfo[]): InstrumentSnapshot {
+  return { exchange: 'binance', tradingType: 'spot', takenAt, instruments };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('diffSnapshots', () => {
+  it('reports listings, delistings and status changes between the two snapshots', () => {
+    const previous = snapshot(NOW - 60000, [symbol('BTC'), symbol('ETH'), symbol('LUNA')]);
+    const next = snapshot(NOW, [symbol('BTC'), symbol('ETH', 'HALT'), symbol('WIF')]);
+
+    expect(diffSnapshots(previous, next)).toEqual([
+      expect.objectContaining({ type: 'status-change', symbol: 'ETHUSDT', previousStatus: 'TRADING', status: 'HALT', isTrading: false }),
+      expect.objectContaining({ type: 'listing', symbol: 'WIFUSDT', status: 'TRADING', isTrading: true }),
+      expect.objectContaining({ type: 'delisting', symbol: 'LUNAUSDT', previousStatus: 'TRADING', isTrading: false })
+    ]);
+  });
+
+  it('dates each event between the snapshots and names its instrument', () => {
+    const [listing] = diffSnapshots(snapshot(NOW - 60000, []), snapshot(NOW, [symbol('WIF')]));
+
+    expect(listing).toMatchObject({
+      exchange: 'binance',
+      tradingType: 'spot',
+      since: NOW - 60000,
+      timestamp: NOW,
+      instrument: { id: 'WIF/USDT', base: 'WIF', quote: 'USDT', venueSymbol: 'WIFUSDT' }
+    });
+    expect(listing.status).toBe('TRADING');
+    expect(listing.previousStatus).toBeUndefined();
+  });
+
+  it('reports nothing when the snapshots agree', () => {
+    expect(diffSnapshots(snapshot(NOW - 60000, [symbol('BTC')]), snapshot(NOW, [symbol('BTC')]))).toEqual([]);
+  });
+});
+
+describe('ListingMonitor', () => {
+  it('takes the first snapshot as a baseline and reports changes after it', async () => {
+    const store = new MemoryListingStore();
+    const fetchInstruments = vi.fn()
+      .mockResolvedValueOnce([symbol('BTC')])
+      .mockResolvedValueOnce([symbol('BTC'), symbol('WIF')]);
+    const monitor = new ListingMonitor(store, fetchInstruments);
+    const listener = vi.fn();
+    monitor.onEvent(listener);
+
+    await expect(monitor.check('binance', 'spot')).resolves.toEqual([]);
+    vi.advanceTimersByTime(60000);
+    const events = await monitor.check('binance', 'spot');
+
+    expect(events.map(event => [event.type, event.symbol])).toEqual([['listing', 'WIFUSDT']]);
+    expect(listener).toHaveBeenCalledExactlyOnceWith(events[0]);
+    await expect(monitor.getHistory()).resolves.toEqual(events);
+    await expect(store.getSnapshot({ exchange: 'binance', tradingType: 'spot' })).resolves.toMatchObject({ takenAt: NOW + 60000 });
+  });
+
+  it('rejects an empty instrument list and keeps the previous snapshot', async () => {
+    const store = new MemoryListingStore();
+    const fetchInstruments = vi.fn()
+      .mockResolvedValueOnce([symbol('BTC')])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([symbol('BTC')]);
+    const monitor = new ListingMonitor(store, fetchInstruments);
+
+    await monitor.check('binance', 'spot');
+    await expect(monitor.check('binance', 'spot')).rejects.toThrow('binance:spot returned no instruments; keeping the previous snapshot');
+
+    await expect(store.getSnapshot({ exchange: 'binance', tradingType: 'spot' })).resolves.toMatchObject({ takenAt: NOW, instruments: [symbol('BTC')] });
+    // No delistings reported and then listed again
+    await expect(monitor.check('binance', 'spot')).resolves.toEqual([]);
+    await expect(monitor.getHistory()).resolves.toEqual([]);
+  });
+
+  it('stores the events before the snapshot that supersedes them', async () => {
+    const store = new MemoryListingStore();
+    const writes: string[] = [];
+    vi.spyOn(store, 'appendEvents').mockImplementation(async () => {
+      writes.push('events');
+    });
+    const setSnapshot = store.setSnapshot.bind(store);
+    vi.spyOn(store, 'setSnapshot').mockImplementation(async next => {
+      writes.push('snapshot');
+      await setSnapshot(next);
+    });
+    const fetchInstruments = vi.fn()
+      .mockResolvedValueOnce([symbol('BTC')])
+      .mockResolvedValueOnce([symbol('WIF')]);
+    const monitor = new ListingMonitor(store, fetchInstruments);
+
+    await monitor.check('binance', 'spot');
+    await monitor.check('binance', 'spot');
+
+    expect(writes).toEqual(['events', 'snapshot', 'events', 'snapshot']);
+  });
+
+  it('shares one poll between overlapping checks of a market', async () => {
+    const store = new MemoryListingStore();
+    await store.setSnapshot(snapshot(NOW - 60000, [symbol('BTC')]));
+    let answer: (instruments: SymbolInfo[]) => void = () => {};
+    const fetchInstruments = vi.fn(() => new Promise<SymbolInfo[]>(resolve => {
+      answer = resolve;
+    }));
+    const monitor = new ListingMonitor(store, fetchInstruments);
+    const listener = vi.fn();
+    monitor.onEvent(listener);
+
+    const first = monitor.check('binance', 'spot');
+    const second = monitor.check('binance', 'spot');
+    await vi.advanceTimersByTimeAsync(0);
+    answer([symbol('BTC'), symbol('WIF')]);
+
+    expect(await second).toBe(await first);
+    expect(fetchInstruments).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+    await expect(monitor.getHistory()).resolves.toHaveLength(1);
+  });
+
+  it('polls a watched market every interval until stopped', async () => {
+    const fetchInstruments = vi.fn().mockResolvedValue([symbol('BTC')]);
+    const monitor = new ListingMonitor(new MemoryListingStore(), fetchInstruments, { intervalMs: 60000 });
+
+    const unwatch = monitor.watch('binance', 'spot');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchInstruments).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(120000);
+    expect(fetchInstruments).toHaveBeenCalledTimes(3);
+
+    unwatch();
+    await vi.advanceTimersByTimeAsync(120000);
+    expect(fetchInstruments).toHaveBeenCalledTimes(3);
+  });
+});
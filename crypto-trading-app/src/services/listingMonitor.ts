@@ -0,0 +1,181 @@
+import type {
+  Exchange,
+  TradingType,
+  SymbolInfo,
+  ListingKey,
+  ListingEvent,
+  ListingHistoryStore,
+  InstrumentSnapshot
+} from '../types/exchange';
+import { getExchangeAdapter } from './exchanges/registry';
+import { instrumentFromSymbolInfo } from './instruments';
+import { getListingKey } from './listingStores';
+
+export interface ListingMonitorOptions {
+  // Between polls of each watched market
+  intervalMs?: number;
+}
+
+// Reads a market's full instrument list, listed and unlisted alike
+export type InstrumentSource = (exchange: Exchange, tradingType: TradingType) => Promise<SymbolInfo[]>;
+
+type ListingListener = (event: ListingEvent) => void;
+
+interface Watcher {
+  // Next poll; null while one is in flight
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Changes between two snapshots of the same market: symbols that appeared,
+ * disappeared, or whose exchange status changed
+ */
+export function diffSnapshots(previous: InstrumentSnapshot, next: InstrumentSnapshot): ListingEvent[] {
+  const { exchange, tradingType } = next;
+  const before = new Map(previous.instruments.map(info => [info.symbol, info]));
+  const after = new Map(next.instruments.map(info => [info.symbol, info]));
+  const events: ListingEvent[] = [];
+
+  const event = (type: ListingEvent['type'], info: SymbolInfo, fields: Partial<ListingEvent>): ListingEvent => ({
+    type,
+    exchange,
+    tradingType,
+    symbol: info.symbol,
+    instrument: instrumentFromSymbolInfo(exchange, tradingType, info),
+    since: previous.takenAt,
+    timestamp: next.takenAt,
+    isTrading: info.isTrading,
+    ...fields
+  });
+
+  after.forEach((info, symbol) => {
+    const old = before.get(symbol);
+    if (!old) {
+      events.push(event('listing', info, { status: info.status }));
+    } else if (old.status !== info.status) {
+      events.push(event('status-change', info, { previousStatus: old.status, status: info.status }));
+    }
+  });
+
+  before.forEach((info, symbol) => {
+    if (!after.has(symbol)) {
+      events.push(event('delisting', info, { previousStatus: info.status, isTrading: false }));
+    }
+  });
+
+  return events;
+}
+
+/**
+ * Watches exchanges' instrument lists for new listings, delistings and status
+ * changes. Each poll is diffed against the last snapshot in the store, so
+ * changes made while nothing was polling are reported on the next poll. The
+ * first snapshot of a market is only a baseline and reports nothing.
+ */
+export class ListingMonitor {
+  private readonly listeners = new Set<ListingListener>();
+  private readonly watchers = new Map<string, Watcher>();
+  // Polls in flight, so overlapping calls for a market share one diff
+  private readonly pending = new Map<string, Promise<ListingEvent[]>>();
+  private readonly intervalMs: number;
+
+  constructor(
+    private readonly store: ListingHistoryStore,
+    private readonly fetchInstruments: InstrumentSource,
+    options: ListingMonitorOptions = {}
+  ) {
+    this.intervalMs = options.intervalMs ?? 5 * 60 * 1000;
+  }
+
+  onEvent(listener: ListingListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Snapshot a market now and report what changed since the last snapshot
+   */
+  check(exchange: Exchange, tradingType: TradingType): Promise<ListingEvent[]> {
+    const key = getListingKey({ exchange, tradingType });
+    let poll = this.pending.get(key);
+    if (!poll) {
+      poll = this.poll({ exchange, tradingType }).finally(() => {
+        this.pending.delete(key);
+      });
+      this.pending.set(key, poll);
+    }
+    return poll;
+  }
+
+  /**
+   * Check a market now and every interval after. Returns a function that
+   * stops watching it.
+   */
+  watch(exchange: Exchange, tradingType: TradingType): () => void {
+    const adapter = getExchangeAdapter(exchange);
+    if (!adapter.capabilities.tradingTypes.includes(tradingType)) {
+      throw new Error(`${adapter.name} does not support ${tradingType} trading`);
+    }
+
+    const key = getListingKey({ exchange, tradingType });
+    let watcher = this.watchers.get(key);
+
+    if (!watcher) {
+      const current: Watcher = { timer: null };
+      const tick = () => {
+        current.timer = null;
+        this.check(exchange, tradingType)
+          .catch(error => console.warn(`Listing check failed for ${key}:`, error))
+          .finally(() => {
+            // Unless stopped meanwhile
+            if (this.watchers.get(key) === current) {
+              current.timer = setTimeout(tick, this.intervalMs);
+            }
+          });
+      };
+      current.timer = setTimeout(tick, 0);
+      this.watchers.set(key, current);
+      watcher = current;
+    }
+
+    const watched = watcher;
+    return () => {
+      if (this.watchers.get(key) !== watched) return;
+      if (watched.timer) clearTimeout(watched.timer);
+      this.watchers.delete(key);
+    };
+  }
+
+  stop(): void {
+    this.watchers.forEach(watcher => {
+      if (watcher.timer) clearTimeout(watcher.timer);
+    });
+    this.watchers.clear();
+  }
+
+  getHistory(key?: ListingKey, since?: number): Promise<ListingEvent[]> {
+    return this.store.getEvents(key, since);
+  }
+
+  private async poll(key: ListingKey): Promise<ListingEvent[]> {
+    const previous = await this.store.getSnapshot(key);
+    const instruments = await this.fetchInstruments(key.exchange, key.tradingType);
+
+    // An empty list is far likelier a bad response than every symbol delisted
+    if (instruments.length === 0 && previous && previous.instruments.length > 0) {
+      throw new Error(`${getListingKey(key)} returned no instruments; keeping the previous snapshot`);
+    }
+
+    const snapshot: InstrumentSnapshot = { ...key, takenAt: Date.now(), instruments };
+    const events = previous ? diffSnapshots(previous, snapshot) : [];
+
+    // Events first: a crash in between repeats them on the next poll rather than losing them
+    await this.store.appendEvents(events);
+    await this.store.setSnapshot(snapshot);
+
+    events.forEach(event => this.listeners.forEach(listener => listener(event)));
+    return events;
+  }
+}
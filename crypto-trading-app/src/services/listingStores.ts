@@ -0,0 +1,107 @@
+import type { ListingKey, ListingEvent, ListingHistoryStore, InstrumentSnapshot } from '../types/exchange';
+
+export function getListingKey(key: ListingKey): string {
+  return `${key.exchange}:${key.tradingType}`;
+}
+
+export function matchesListingFilter(event: ListingEvent, key?: ListingKey, since?: number): boolean {
+  if (key && (event.exchange !== key.exchange || event.tradingType !== key.tradingType)) return false;
+  return since === undefined || event.timestamp >= since;
+}
+
+/**
+ * In-process store; lost on reload
+ */
+export class MemoryListingStore implements ListingHistoryStore {
+  private readonly snapshots = new Map<string, InstrumentSnapshot>();
+  private readonly events: ListingEvent[] = [];
+
+  async getSnapshot(key: ListingKey): Promise<InstrumentSnapshot | undefined> {
+    return this.snapshots.get(getListingKey(key));
+  }
+
+  async setSnapshot(snapshot: InstrumentSnapshot): Promise<void> {
+    this.snapshots.set(getListingKey(snapshot), snapshot);
+  }
+
+  async appendEvents(events: ListingEvent[]): Promise<void> {
+    this.events.push(...events);
+  }
+
+  async getEvents(key?: ListingKey, since?: number): Promise<ListingEvent[]> {
+    return this.events.filter(event => matchesListingFilter(event, key, since));
+  }
+}
+
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshots';
+const EVENT_STORE = 'events';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Browser store backed by IndexedDB: one record per market snapshot and one
+ * per event
+ */
+export class IndexedDBListingStore implements ListingHistoryStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = 'crypto-signals-listings') {}
+
+  async getSnapshot(key: ListingKey): Promise<InstrumentSnapshot | undefined> {
+    const store = await this.getStore(SNAPSHOT_STORE, 'readonly');
+    return promisify<InstrumentSnapshot | undefined>(store.get(getListingKey(key)));
+  }
+
+  async setSnapshot(snapshot: InstrumentSnapshot): Promise<void> {
+    const store = await this.getStore(SNAPSHOT_STORE, 'readwrite');
+    await promisify(store.put(snapshot, getListingKey(snapshot)));
+  }
+
+  async appendEvents(events: ListingEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    // One transaction, so a batch is stored whole or not at all
+    const store = await this.getStore(EVENT_STORE, 'readwrite');
+    const done = new Promise<void>((resolve, reject) => {
+      store.transaction.oncomplete = () => resolve();
+      store.transaction.onerror = () => reject(store.transaction.error);
+      store.transaction.onabort = () => reject(store.transaction.error);
+    });
+    events.forEach(event => store.add(event));
+    await done;
+  }
+
+  async getEvents(key?: ListingKey, since?: number): Promise<ListingEvent[]> {
+    const store = await this.getStore(EVENT_STORE, 'readonly');
+    const events = await promisify<ListingEvent[]>(store.getAll());
+    return events.filter(event => matchesListingFilter(event, key, since));
+  }
+
+  private async getStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SNAPSHOT_STORE);
+        // Auto-incremented keys keep events in the order they were stored
+        request.result.createObjectStore(EVENT_STORE, { autoIncrement: true });
+      };
+      this.db = promisify(request);
+      // Allow a retry after a failed open
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,206 @@
+import type {
+  Exchange,
+  TradingType,
+  Timeframe,
+  CustomTimeframe,
+  KlineData,
+  KlineSeries,
+  TickerData,
+  SymbolInfo,
+  SymbolQuery,
+  Instrument,
+  ExchangeHealth,
+  DerivativesContext,
+  MarketDataMode,
+  MarketErrorBody
+} from '../types/exchange';
+import { ExchangeAPI, isExchangeError } from './exchangeAPI';
+import { ExchangeClock } from './exchangeClock';
+import { instrumentFromSymbolInfo, parseVenueSymbol } from './instruments';
+
+let mode: MarketDataMode = 'proxy';
+let apiBaseUrl = '';
+
+// Clocks synced through the backend in proxy mode
+const proxyClocks = new Map<string, ExchangeClock>();
+
+type QueryValue = string | number | boolean | string[] | undefined;
+
+// GET one of the backend's /api/market routes. Exchange errors come back as
+// JSON and are rethrown as they were raised on the server.
+async function request<T>(route: string, params: Record<string, QueryValue> = {}): Promise<T> {
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    search.set(name, Array.isArray(value) ? value.join(',') : String(value));
+  }
+
+  const response = await fetch(`${apiBaseUrl}/api/market/${route}?${search}`);
+  const body = await response.json().catch(() => undefined);
+
+  if (!response.ok) {
+    const error = (body as MarketErrorBody | undefined)?.error;
+    if (isExchangeError(error)) throw error;
+    throw new Error(error?.message ?? `Market API responded with HTTP ${response.status}`);
+  }
+
+  return body as T;
+}
+
+/**
+ * Market data for the browser. By default every call goes through the
+ * backend's /api/market routes, which reach the exchanges server-side; direct
+ * mode calls ExchangeAPI in the page instead, as fixture replay needs.
+ */
+export class MarketDataClient {
+  static setMode(next: MarketDataMode, baseUrl: string = ''): void {
+    mode = next;
+    apiBaseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  static getMode(): MarketDataMode {
+    return mode;
+  }
+
+  static async getKlineSeries(
+    exchange: Exchange,
+    tradingType: TradingType,
+    symbol: string,
+    timeframe: Timeframe | CustomTimeframe,
+    limit: number = 500
+  ): Promise<KlineSeries> {
+    if (mode === 'direct') {
+      return ExchangeAPI.getKlineSeries(exchange, tradingType, symbol, timeframe, limit);
+    }
+    return request<KlineSeries>('klines', { exchange, tradingType, symbol, timeframe, limit });
+  }
+
+  /**
+   * Klines with taker buy volume, see ExchangeAPI.getOrderFlowKlines
+   */
+  static async getOrderFlowKlines(
+    exchange: Exchange,
+    tradingType: TradingType,
+    symbol: string,
+    timeframe: Timeframe | CustomTimeframe,
+    limit: number = 500
+  ): Promise<KlineData[]> {
+    if (mode === 'direct') {
+      return ExchangeAPI.getOrderFlowKlines(exchange, tradingType, symbol, timeframe, limit);
+    }
+    const { klines } = await request<{ klines: KlineData[] }>('orderflow', { exchange, tradingType, symbol, timeframe, limit });
+    return klines;
+  }
+
+  static async getTicker(exchange: Exchange, tradingType: TradingType, symbol: string): Promise<TickerData> {
+    if (mode === 'direct') {
+      return ExchangeAPI.getTickerData(exchange, tradingType, symbol);
+    }
+    const { ticker } = await request<{ ticker: TickerData }>('ticker', { exchange, tradingType, symbol });
+    return ticker;
+  }
+
+  /**
+   * Tickers for the given symbols, or for every available symbol
+   */
+  static async getTickers(exchange: Exchange, tradingType: TradingType, symbols?: string[]): Promise<TickerData[]> {
+    if (mode === 'direct') {
+      return ExchangeAPI.getAllTickers(exchange, tradingType, symbols);
+    }
+    const { tickers } = await request<{ tickers: TickerData[] }>('ticker', { exchange, tradingType, symbols });
+    return tickers;
+  }
+
+  static async querySymbols(exchange: Exchange, tradingType: TradingType, query?: SymbolQuery): Promise<SymbolInfo[]> {
+    if (mode === 'direct') {
+      return ExchangeAPI.querySymbols(exchange, tradingType, query);
+    }
+    const { symbols } = await request<{ symbols: SymbolInfo[] }>('symbols', {
+      exchange,
+      tradingType,
+      quoteAssets: query?.quoteAssets,
+      includeBaseAssets: query?.includeBaseAssets,
+      excludeBaseAssets: query?.excludeBaseAssets,
+      minQuoteVolume: query?.minQuoteVolume,
+      contractTypes: query?.contractTypes,
+      includeNonTrading: query?.includeNonTrading
+    });
+    return symbols;
+  }
+
+  /**
+   * A listed symbol's filters, tick size and contract size
+   */
+  static async getSymbolInfo(exchange: Exchange, tradingType: TradingType, symbol: string): Promise<SymbolInfo | undefined> {
+    if (mode === 'direct') {
+      return ExchangeAPI.getSymbolInfo(exchange, tradingType, symbol);
+    }
+
+    // The backend caches the full list, so this is usually one cached request
+    const symbols = await this.querySymbols(exchange, tradingType, { includeNonTrading: true });
+    return symbols.find(s => s.symbol === symbol);
+  }
+
+  /**
+   * The canonical instrument behind a symbol, see ExchangeAPI.getInstrument
+   */
+  static async getInstrument(exchange: Exchange, tradingType: TradingType, symbol: string): Promise<Instrument> {
+    if (mode === 'direct') {
+      return ExchangeAPI.getInstrument(exchange, tradingType, symbol);
+    }
+
+    const info = await this.getSymbolInfo(exchange, tradingType, symbol);
+    const instrument = info
+      ? instrumentFromSymbolInfo(exchange, tradingType, info)
+      : parseVenueSymbol(exchange, tradingType, symbol);
+
+    if (!instrument) {
+      throw new Error(`${symbol} is not a ${tradingType} symbol on ${exchange}`);
+    }
+    return instrument;
+  }
+
+  /**
+   * Funding and open interest change for the crowded-long check, see
+   * ExchangeAPI.getDerivativesContext
+   */
+  static async getDerivativesContext(exchange: Exchange, tradingType: TradingType, symbol: string): Promise<DerivativesContext> {
+    if (mode === 'direct') {
+      return ExchangeAPI.getDerivativesContext(exchange, tradingType, symbol);
+    }
+    const { context } = await request<{ context: DerivativesContext }>('derivatives', { exchange, tradingType, symbol });
+    return context;
+  }
+
+  /**
+   * Estimate of the exchange's clock. In proxy mode it is measured through
+   * the backend, whose round trip to the exchange counts against the error bound.
+   */
+  static getClock(exchange: Exchange, tradingType: TradingType): ExchangeClock {
+    if (mode === 'direct') {
+      return ExchangeAPI.getClock(exchange, tradingType);
+    }
+
+    const key = `${exchange}:${tradingType}`;
+    let clock = proxyClocks.get(key);
+    if (!clock) {
+      clock = new ExchangeClock(`${exchange} ${tradingType}`, async () => {
+        const { serverTime } = await request<{ serverTime: number }>('time', { exchange, tradingType });
+        return serverTime;
+      });
+      proxyClocks.set(key, clock);
+    }
+    return clock;
+  }
+
+  /**
+   * Exchange health as seen by whichever side makes the requests
+   */
+  static async getHealth(): Promise<ExchangeHealth[]> {
+    if (mode === 'direct') {
+      return ExchangeAPI.getHealth();
+    }
+    const { exchanges } = await request<{ exchanges: ExchangeHealth[] }>('health');
+    return exchanges;
+  }
+}
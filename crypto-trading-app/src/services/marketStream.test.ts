@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { KlineStreamEvent, StreamStatus } from '../types/exchange';
+import { MarketStream } from './marketStream';
+import { WebSocketStandInServer } from './webSocketStandIn';
+
+const OPEN_TIME = 1718784000000;
+
+function klineMessage(openTime: number, close: string, isClosed: boolean) {
+  return {
+    e: 'kline',
+    E: openTime + 30000,
+    s: 'BTCUSDT',
+    k: {
+      t: openTime,
+      T: openTime + 59999,
+      s: 'BTCUSDT',
+      i: '1m',
+      o: '65000.0',
+      c: close,
+      h: '65050.0',
+      l: '64990.0',
+      v: '12.5',
+      n: 420,
+      x: isClosed,
+      q: '812500.0',
+      V: '6.1',
+      Q: '396500.0'
+    }
+  };
+}
+
+let server: WebSocketStandInServer;
+let stream: MarketStream;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  server = new WebSocketStandInServer();
+  stream = new MarketStream('binance', 'spot', {
+    createWebSocket: server.connect,
+    reconnectDelayMs: 1000,
+    heartbeatTimeoutMs: 5000
+  });
+});
+
+afterEach(() => {
+  stream.close();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('MarketStream subscriptions', () => {
+  it('connects on the first subscription and subscribes once the socket opens', () => {
+    stream.subscribeKlines('BTCUSDT', '1m', () => {});
+
+    expect(server.connections).toHaveLength(1);
+    expect(server.latest.url).toBe('wss://stream.binance.com:9443/ws');
+    expect(stream.getStatus()).toBe('connecting');
+
+    server.latest.open();
+
+    expect(stream.getStatus()).toBe('open');
+    expect(server.latest.sent).toEqual([
+      expect.objectContaining({ method: 'SUBSCRIBE', params: ['btcusdt@kline_1m'] })
+    ]);
+  });
+
+  it('subscribes and unsubscribes further topics on the open connection', () => {
+    stream.subscribeKlines('BTCUSDT', '1m', () => {});
+    server.latest.open();
+
+    const unsubscribe = stream.subscribeTicker('ETHUSDT', () => {});
+    unsubscribe();
+
+    expect(server.connections).toHaveLength(1);
+    expect(server.latest.sent.slice(1)).toEqual([
+      expect.objectContaining({ method: 'SUBSCRIBE', params: ['ethusdt@ticker'] }),
+      expect.objectContaining({ method: 'UNSUBSCRIBE', params: ['ethusdt@ticker'] })
+    ]);
+  });
+
+  it('resubscribes every active topic after a reconnect', () => {
+    const statuses: StreamStatus[] = [];
+    stream.onStatus(status => statuses.push(status));
+    stream.subscribeKlines('BTCUSDT', '1m', () => {});
+    stream.subscribeTicker('BTCUSDT', () => {});
+    server.latest.open();
+
+    server.latest.drop();
+    expect(stream.getStatus()).toBe('reconnecting');
+
+    // Backoff: nothing before the delay
+    vi.advanceTimersByTime(999);
+    expect(server.connections).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(server.connections).toHaveLength(2);
+
+    server.latest.open();
+
+    expect(server.latest.sent).toEqual([
+      expect.objectContaining({ method: 'SUBSCRIBE', params: ['btcusdt@kline_1m', 'btcusdt@ticker'] })
+    ]);
+    expect(statuses).toEqual(['connecting', 'open', 'reconnecting', 'open']);
+  });
+
+  it('backs off exponentially while reconnects keep failing', () => {
+    stream.subscribeKlines('BTCUSDT', '1m', () => {});
+    server.latest.drop();
+
+    vi.advanceTimersByTime(1000);
+    server.latest.drop();
+    vi.advanceTimersByTime(1999);
+    expect(server.connections).toHaveLength(2);
+    vi.advanceTimersByTime(1);
+    expect(server.connections).toHaveLength(3);
+  });
+});
+
+describe('MarketStream heartbeat watchdog', () => {
+  it('reconnects when the stream stays silent for the heartbeat timeout', () => {
+    stream.subscribeKlines('BTCUSDT', '1m', () => {});
+    const first = server.latest;
+    first.open();
+
+    vi.advanceTimersByTime(4999);
+    expect(first.closedByClient).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(first.closedByClient).toBe(true);
+    expect(stream.getStatus()).toBe('reconnecting');
+
+    vi.advanceTimersByTime(1000);
+    expect(server.connections).toHaveLength(2);
+  });
+
+  it('restarts the timeout on every message', () => {
+    stream.subscribeKlines('BTCUSDT', '1m', () => {});
+    const first = server.latest;
+    first.open();
+
+    vi.advanceTimersByTime(4000);
+    first.receive(klineMessage(OPEN_TIME, '65010.0', false));
+    vi.advanceTimersByTime(4000);
+
+    expect(first.closedByClient).toBe(false);
+    expect(server.connections).toHaveLength(1);
+  });
+});
+
+describe('MarketStream candles', () => {
+  it('tells in-progress updates from the close of a candle', () => {
+    const events: KlineStreamEvent[] = [];
+    stream.subscribeKlines('BTCUSDT', '1m', event => events.push(event));
+    server.latest.open();
+
+    server.latest.receive(klineMessage(OPEN_TIME, '65010.0', false));
+    server.latest.receive(klineMessage(OPEN_TIME, '65020.0', false));
+    server.latest.receive(klineMessage(OPEN_TIME, '65030.0', true));
+    server.latest.receive(klineMessage(OPEN_TIME + 60000, '65031.0', false));
+
+    expect(events.map(event => event.type)).toEqual(['candle_update', 'candle_update', 'candle_closed', 'candle_update']);
+
+    // Updates replace the candle in place until it closes
+    const closed = events[2];
+    expect(closed.kline).toMatchObject({ openTime: OPEN_TIME, close: '65030.0', isClosed: true, quoteAssetVolume: '812500.0' });
+    expect(closed.candles).toHaveLength(1);
+
+    const candles = stream.getCandles('BTCUSDT', '1m');
+    expect(candles.map(candle => [candle.openTime, candle.isClosed])).toEqual([
+      [OPEN_TIME, true],
+      [OPEN_TIME + 60000, false]
+    ]);
+  });
+
+  it('keeps seeded history and appends live candles to it', () => {
+    stream.seedCandles('BTCUSDT', '1m', [{
+      openTime: OPEN_TIME - 60000,
+      open: '64990.0',
+      high: '65005.0',
+      low: '64980.0',
+      close: '65000.0',
+      volume: '10.0',
+      closeTime: OPEN_TIME - 1
+    }]);
+    stream.subscribeKlines('BTCUSDT', '1m', () => {});
+    server.latest.open();
+
+    server.latest.receive(klineMessage(OPEN_TIME, '65010.0', false));
+
+    expect(stream.getCandles('BTCUSDT', '1m').map(candle => candle.openTime)).toEqual([OPEN_TIME - 60000, OPEN_TIME]);
+  });
+});
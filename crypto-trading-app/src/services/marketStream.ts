@@ -0,0 +1,372 @@
+import type {
+  Exchange,
+  TradingType,
+  Timeframe,
+  ExchangeStreamSpec,
+  KlineData,
+  TickerData,
+  KlineStreamEvent,
+  OrderBookDiff,
+  Trade,
+  StreamMessage,
+  StreamStatus
+} from '../types/exchange';
+import { getExchangeAdapter } from './exchanges/registry';
+
+// Minimal WebSocket surface, so tests can drive the stream with a local
+// stand-in (see WebSocketStandIn)
+export interface WebSocketLike {
+  readonly readyState: number;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface MarketStreamOptions {
+  createWebSocket?: (url: string) => WebSocketLike;
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  // Reconnect when nothing arrives for this long
+  heartbeatTimeoutMs?: number;
+  // Candles kept per symbol/timeframe series
+  maxCandles?: number;
+}
+
+type KlineListener = (event: KlineStreamEvent) => void;
+type TickerListener = (ticker: TickerData) => void;
+type DepthListener = (diff: OrderBookDiff) => void;
+type TradeListener = (trades: Trade[]) => void;
+type StatusListener = (status: StreamStatus) => void;
+
+const WS_OPEN = 1;
+
+function seriesKey(symbol: string, timeframe: Timeframe): string {
+  return `${symbol}:${timeframe}`;
+}
+
+/**
+ * Live kline, ticker, trade and order book stream for one exchange and trading type.
+ * Keeps an in-memory candle series per symbol/timeframe and resubscribes
+ * every active topic after a reconnect.
+ */
+export class MarketStream {
+  private readonly spec: ExchangeStreamSpec;
+  private readonly url: string;
+  private readonly options: Required<MarketStreamOptions>;
+
+  private socket: WebSocketLike | null = null;
+  private status: StreamStatus = 'idle';
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private watchdogTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private readonly klineListeners = new Map<string, Set<KlineListener>>();
+  private readonly tickerListeners = new Map<string, Set<TickerListener>>();
+  private readonly depthListeners = new Map<string, Set<DepthListener>>();
+  private readonly tradeListeners = new Map<string, Set<TradeListener>>();
+  private readonly statusListeners = new Set<StatusListener>();
+  private readonly candles = new Map<string, KlineData[]>();
+  private readonly tickers = new Map<string, TickerData>();
+  // Topic -> listener key, for every active subscription
+  private readonly topics = new Map<string, string>();
+
+  constructor(
+    readonly exchange: Exchange,
+    readonly tradingType: TradingType,
+    options: MarketStreamOptions = {}
+  ) {
+    const adapter = getExchangeAdapter(exchange);
+    if (!adapter.stream) {
+      throw new Error(`${adapter.name} does not support streaming`);
+    }
+
+    this.spec = adapter.stream;
+    this.url = adapter.stream.getUrl(tradingType);
+    this.options = {
+      createWebSocket: options.createWebSocket ?? (url => new WebSocket(url)),
+      reconnectDelayMs: options.reconnectDelayMs ?? 1000,
+      maxReconnectDelayMs: options.maxReconnectDelayMs ?? 30000,
+      heartbeatTimeoutMs: options.heartbeatTimeoutMs ?? 60000,
+      maxCandles: options.maxCandles ?? 1000
+    };
+  }
+
+  getStatus(): StreamStatus {
+    return this.status;
+  }
+
+  onStatus(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  /**
+   * Seed a series with REST history so indicators have data before the
+   * first live update arrives.
+   */
+  seedCandles(symbol: string, timeframe: Timeframe, klines: KlineData[]): void {
+    const key = seriesKey(symbol, timeframe);
+    const merged = [...klines];
+
+    for (const kline of this.candles.get(key) ?? []) {
+      this.upsertCandle(merged, kline);
+    }
+
+    this.candles.set(key, merged.slice(-this.options.maxCandles));
+  }
+
+  getCandles(symbol: string, timeframe: Timeframe): KlineData[] {
+    return [...(this.candles.get(seriesKey(symbol, timeframe)) ?? [])];
+  }
+
+  getTicker(symbol: string): TickerData | undefined {
+    return this.tickers.get(symbol);
+  }
+
+  subscribeKlines(symbol: string, timeframe: Timeframe, listener: KlineListener): () => void {
+    const key = seriesKey(symbol, timeframe);
+    return this.addSubscription(this.spec.klineTopic(symbol, timeframe), key, this.klineListeners, listener);
+  }
+
+  subscribeTicker(symbol: string, listener: TickerListener): () => void {
+    return this.addSubscription(this.spec.tickerTopic(symbol), symbol, this.tickerListeners, listener);
+  }
+
+  subscribeTrades(symbol: string, listener: TradeListener): () => void {
+    if (!this.spec.tradeTopic) {
+      throw new Error(`${getExchangeAdapter(this.exchange).name} does not stream trades`);
+    }
+    return this.addSubscription(this.spec.tradeTopic(symbol), symbol, this.tradeListeners, listener);
+  }
+
+  /**
+   * Raw order book diffs. OrderBookKeeper turns them into a local book.
+   */
+  subscribeDepth(symbol: string, listener: DepthListener): () => void {
+    return this.addSubscription(this.getDepthTopic(symbol), symbol, this.depthListeners, listener);
+  }
+
+  /**
+   * Subscribe to a symbol's depth topic again, for exchanges that start every
+   * depth subscription with a snapshot
+   */
+  resubscribeDepth(symbol: string): void {
+    const topic = this.getDepthTopic(symbol);
+    if (!this.topics.has(topic)) return;
+
+    this.send(this.spec.unsubscribeMessage([topic]));
+    this.send(this.spec.subscribeMessage([topic]));
+  }
+
+  close(): void {
+    this.topics.clear();
+    this.klineListeners.clear();
+    this.tickerListeners.clear();
+    this.depthListeners.clear();
+    this.tradeListeners.clear();
+    this.clearTimers();
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.setStatus('closed');
+  }
+
+  private addSubscription<L>(
+    topic: string,
+    key: string,
+    listeners: Map<string, Set<L>>,
+    listener: L
+  ): () => void {
+    const set = listeners.get(key) ?? new Set<L>();
+    listeners.set(key, set);
+    set.add(listener);
+
+    if (!this.topics.has(topic)) {
+      this.topics.set(topic, key);
+      this.send(this.spec.subscribeMessage([topic]));
+    }
+
+    this.connect();
+
+    return () => {
+      set.delete(listener);
+      if (set.size > 0) return;
+
+      listeners.delete(key);
+      this.topics.delete(topic);
+      this.send(this.spec.unsubscribeMessage([topic]));
+    };
+  }
+
+  private getDepthTopic(symbol: string): string {
+    if (!this.spec.depthTopic) {
+      throw new Error(`${getExchangeAdapter(this.exchange).name} does not stream order book updates`);
+    }
+    return this.spec.depthTopic(symbol);
+  }
+
+  private connect(): void {
+    if (this.socket || this.reconnectTimer || this.topics.size === 0) return;
+
+    this.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    const socket = this.options.createWebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setStatus('open');
+
+      if (this.topics.size > 0) {
+        socket.send(this.spec.subscribeMessage(Array.from(this.topics.keys())));
+      }
+
+      if (this.spec.ping) {
+        const { message, intervalMs } = this.spec.ping;
+        this.pingTimer = setInterval(() => this.send(message), intervalMs);
+      }
+
+      this.resetWatchdog();
+    };
+
+    socket.onmessage = event => {
+      this.resetWatchdog();
+
+      let messages: StreamMessage[];
+      try {
+        const raw = typeof event.data === 'string' ? event.data : String(event.data);
+        messages = this.spec.parseMessage(raw, this.tradingType);
+      } catch (error) {
+        console.warn(`Failed to parse ${this.exchange} stream message:`, error);
+        return;
+      }
+
+      messages.forEach(message => this.handleMessage(message));
+    };
+
+    socket.onerror = error => {
+      console.warn(`${this.exchange} stream error:`, error);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return; // Closed deliberately
+
+      this.socket = null;
+      this.clearTimers();
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (this.topics.size === 0) {
+      this.setStatus('closed');
+      return;
+    }
+
+    // Exponential backoff capped at maxReconnectDelayMs
+    const delay = Math.min(
+      this.options.reconnectDelayMs * 2 ** this.reconnectAttempts,
+      this.options.maxReconnectDelayMs
+    );
+    this.reconnectAttempts++;
+    this.setStatus('reconnecting');
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private resetWatchdog(): void {
+    if (this.watchdogTimer) clearTimeout(this.watchdogTimer);
+
+    this.watchdogTimer = setTimeout(() => {
+      console.warn(`${this.exchange} stream silent for ${this.options.heartbeatTimeoutMs}ms, reconnecting`);
+      this.socket?.close();
+    }, this.options.heartbeatTimeoutMs);
+  }
+
+  private clearTimers(): void {
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    if (this.watchdogTimer) clearTimeout(this.watchdogTimer);
+    this.pingTimer = null;
+    this.watchdogTimer = null;
+  }
+
+  private send(message: string): void {
+    if (this.socket && this.socket.readyState === WS_OPEN) {
+      this.socket.send(message);
+    }
+  }
+
+  private handleMessage(message: StreamMessage): void {
+    if (message.type === 'kline') {
+      const key = seriesKey(message.symbol, message.timeframe);
+      const series = this.candles.get(key) ?? [];
+      const kline = { ...message.kline, isClosed: message.isClosed };
+
+      this.upsertCandle(series, kline);
+      if (series.length > this.options.maxCandles) {
+        series.splice(0, series.length - this.options.maxCandles);
+      }
+      this.candles.set(key, series);
+
+      const event: KlineStreamEvent = {
+        type: message.isClosed ? 'candle_closed' : 'candle_update',
+        symbol: message.symbol,
+        timeframe: message.timeframe,
+        kline,
+        candles: [...series]
+      };
+      this.klineListeners.get(key)?.forEach(listener => listener(event));
+      return;
+    }
+
+    if (message.type === 'depth') {
+      this.depthListeners.get(message.symbol)?.forEach(listener => listener(message.diff));
+      return;
+    }
+
+    if (message.type === 'trade') {
+      this.tradeListeners.get(message.symbol)?.forEach(listener => listener(message.trades));
+      return;
+    }
+
+    // Merge deltas onto the last full ticker
+    const previous = this.tickers.get(message.symbol);
+    const ticker = { ...previous, ...message.ticker } as TickerData;
+    this.tickers.set(message.symbol, ticker);
+    this.tickerListeners.get(message.symbol)?.forEach(listener => listener(ticker));
+  }
+
+  // Replace the candle with the same openTime or append a newer one
+  private upsertCandle(series: KlineData[], kline: KlineData): void {
+    const last = series[series.length - 1];
+
+    if (!last || kline.openTime > last.openTime) {
+      series.push(kline);
+      return;
+    }
+
+    const index = series.findIndex(candle => candle.openTime === kline.openTime);
+    if (index !== -1) {
+      series[index] = kline;
+    }
+  }
+
+  private setStatus(status: StreamStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Exchange, OrderBookEntry, TradingType } from '../types/exchange';
+import { MarketStream } from './marketStream';
+import { OrderBookKeeper } from './orderBook';
+import { WebSocketStandInServer } from './webSocketStandIn';
+import { setHttpTransport } from './exchanges/http';
+
+const NOW = Date.UTC(2024, 5, 19, 8);
+
+let server: WebSocketStandInServer;
+let stream: MarketStream;
+let book: OrderBookKeeper;
+let snapshots: Array<(body: unknown) => void>;
+let snapshotUrls: string[];
+
+// REST snapshots stay pending until the test answers them
+function holdSnapshots() {
+  snapshots = [];
+  snapshotUrls = [];
+  setHttpTransport(url => {
+    snapshotUrls.push(url);
+    return new Promise(resolve => {
+      snapshots.push(body => resolve(Response.json(body)));
+    });
+  });
+}
+
+async function answerSnapshot(lastUpdateId: number, bids: OrderBookEntry[], asks: OrderBookEntry[]) {
+  const answer = snapshots.shift();
+  if (!answer) throw new Error('No snapshot was requested');
+  answer({ lastUpdateId, E: NOW, T: NOW, bids, asks });
+  await vi.advanceTimersByTimeAsync(0);
+}
+
+function connect(exchange: Exchange, tradingType: TradingType, retryDelayMs?: number) {
+  stream = new MarketStream(exchange, tradingType, { createWebSocket: server.connect });
+  book = new OrderBookKeeper(stream, 'BTCUSDT', { retryDelayMs });
+  book.start();
+  server.latest.open();
+}
+
+function binanceDiff(U: number, u: number, b: OrderBookEntry[], a: OrderBookEntry[], pu?: number) {
+  server.latest.receive({ e: 'depthUpdate', E: NOW, T: NOW, s: 'BTCUSDT', U, u, pu, b, a });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  server = new WebSocketStandInServer();
+  holdSnapshots();
+});
+
+afterEach(() => {
+  book.stop();
+  stream.close();
+  setHttpTransport(null);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('OrderBookKeeper on Binance spot', () => {
+  it('replays diffs that arrived while the snapshot loaded, skipping those it already holds', async () => {
+    connect('binance', 'spot');
+    expect(snapshotUrls).toEqual(['https://api.binance.com/api/v3/depth?symbol=BTCUSDT&limit=1000']);
+
+    binanceDiff(95, 100, [['64990.0', '9.0']], []);
+    binanceDiff(101, 103, [['65000.0', '2.5']], [['65010.0', '0']]);
+    binanceDiff(104, 105, [], [['65020.0', '4.0']]);
+    expect(book.isSynced()).toBe(false);
+
+    await answerSnapshot(102, [['65000.0', '1.0'], ['64990.0', '3.0']], [['65010.0', '1.5'], ['65020.0', '2.0']]);
+
+    expect(book.isSynced()).toBe(true);
+    expect(book.getSequence()).toBe(105);
+    expect(book.getTopLevels()).toEqual({
+      bids: [{ price: 65000, quantity: 2.5 }, { price: 64990, quantity: 3 }],
+      asks: [{ price: 65020, quantity: 4 }]
+    });
+  });
+
+  it('accepts a first diff that only overlaps the snapshot, then requires each to follow on', async () => {
+    connect('binance', 'spot');
+    await answerSnapshot(102, [['65000.0', '1.0']], [['65010.0', '1.5']]);
+    const updates = vi.fn();
+    book.onUpdate(updates);
+
+    binanceDiff(98, 106, [['65000.0', '1.2']], []);
+    binanceDiff(107, 108, [['64995.0', '0.4']], []);
+
+    expect(book.getSequence()).toBe(108);
+    expect(book.getBestBid()).toEqual({ price: 65000, quantity: 1.2 });
+    expect(updates).toHaveBeenCalledTimes(2);
+    expect(snapshotUrls).toHaveLength(1);
+  });
+
+  it('retries a snapshot older than the stream after retryDelayMs', async () => {
+    connect('binance', 'spot', 500);
+    await answerSnapshot(100, [['65000.0', '1.0']], [['65010.0', '1.5']]);
+
+    // Updates 101 to 149 never reach the book
+    binanceDiff(150, 160, [['65001.0', '0.5']], []);
+    expect(book.isSynced()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(snapshotUrls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(snapshotUrls).toHaveLength(2);
+
+    await answerSnapshot(155, [['65000.0', '1.0']], [['65010.0', '1.5']]);
+
+    expect(book.isSynced()).toBe(true);
+    expect(book.getSequence()).toBe(160);
+    expect(book.getBestBid()).toEqual({ price: 65001, quantity: 0.5 });
+  });
+
+  it('loads a new snapshot straight away on a gap once in sync', async () => {
+    connect('binance', 'spot', 500);
+    await answerSnapshot(100, [['65000.0', '1.0']], [['65010.0', '1.5']]);
+    binanceDiff(101, 102, [], []);
+
+    binanceDiff(110, 111, [], []);
+
+    expect(book.isSynced()).toBe(false);
+    expect(snapshotUrls).toHaveLength(2);
+  });
+});
+
+describe('OrderBookKeeper on Binance futures', () => {
+  it('resyncs when pu does not match the last update id', async () => {
+    connect('binance', 'futures');
+    expect(snapshotUrls[0]).toBe('https://fapi.binance.com/fapi/v1/depth?symbol=BTCUSDT&limit=1000');
+    await answerSnapshot(200, [['65000.0', '1.0']], [['65010.0', '1.5']]);
+
+    binanceDiff(195, 205, [['65000.0', '2.0']], [], 190);
+    binanceDiff(206, 210, [], [['65010.0', '0.5']], 205);
+    expect(book.getSequence()).toBe(210);
+
+    // Update ids follow on, but pu says an event in between was lost
+    binanceDiff(211, 214, [['64000.0', '9.0']], [], 212);
+
+    expect(book.isSynced()).toBe(false);
+    expect(snapshotUrls).toHaveLength(2);
+
+    await answerSnapshot(216, [['65000.0', '3.0']], [['65010.0', '0.5']]);
+    binanceDiff(215, 218, [], [], 214);
+
+    expect(book.isSynced()).toBe(true);
+    expect(book.getSequence()).toBe(218);
+    expect(book.getTopLevels().bids).toEqual([{ price: 65000, quantity: 3 }]);
+  });
+});
+
+describe('OrderBookKeeper on Bybit', () => {
+  function bybitDepth(type: 'snapshot' | 'delta', u: number, b: OrderBookEntry[], a: OrderBookEntry[]) {
+    server.latest.receive({ topic: 'orderbook.200.BTCUSDT', type, ts: NOW, data: { s: 'BTCUSDT', b, a, u, seq: u * 10 } });
+  }
+
+  it('takes its snapshot from the stream and resyncs by resubscribing', () => {
+    connect('bybit', 'futures');
+    expect(snapshotUrls).toEqual([]);
+    expect(server.latest.sent).toEqual([{ op: 'subscribe', args: ['orderbook.200.BTCUSDT'] }]);
+
+    bybitDepth('snapshot', 5000, [['65000.0', '1.0']], [['65010.0', '1.5']]);
+    bybitDepth('delta', 5001, [['65000.0', '0']], [['65005.0', '0.3']]);
+    expect(book.getTopLevels()).toEqual({ bids: [], asks: [{ price: 65005, quantity: 0.3 }, { price: 65010, quantity: 1.5 }] });
+
+    // 5002 went missing
+    bybitDepth('delta', 5003, [['64990.0', '2.0']], []);
+
+    expect(book.isSynced()).toBe(false);
+    expect(server.latest.sent.slice(1)).toEqual([
+      { op: 'unsubscribe', args: ['orderbook.200.BTCUSDT'] },
+      { op: 'subscribe', args: ['orderbook.200.BTCUSDT'] }
+    ]);
+    expect(snapshotUrls).toEqual([]);
+
+    bybitDepth('snapshot', 5004, [['64990.0', '2.0']], [['65010.0', '1.5']]);
+
+    expect(book.isSynced()).toBe(true);
+    expect(book.getSequence()).toBe(5004);
+  });
+
+  it('treats update id 1 as a fresh snapshot after a service restart', () => {
+    connect('bybit', 'spot');
+    bybitDepth('snapshot', 5000, [['65000.0', '1.0']], []);
+
+    bybitDepth('delta', 1, [['64000.0', '1.0']], []);
+
+    expect(book.isSynced()).toBe(true);
+    expect(book.getTopLevels().bids).toEqual([{ price: 64000, quantity: 1 }]);
+  });
+});
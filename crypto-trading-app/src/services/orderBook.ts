@@ -0,0 +1,270 @@
+import type {
+  ExchangeAdapter,
+  OrderBookEntry,
+  OrderBookSnapshot,
+  OrderBookDiff,
+  OrderBookLevel,
+  OrderBookDepth,
+  DepthLevel
+} from '../types/exchange';
+import type { MarketStream } from './marketStream';
+import { getExchangeAdapter } from './exchanges/registry';
+import { describeExchangeError } from './exchanges/errors';
+
+export interface OrderBookOptions {
+  // Levels per side requested for REST snapshots
+  snapshotDepth?: number;
+  // Diffs held while a snapshot loads; the oldest are dropped beyond this
+  maxBufferedDiffs?: number;
+  // Wait before retrying a failed snapshot
+  retryDelayMs?: number;
+}
+
+type BookListener = (book: OrderBookKeeper) => void;
+
+function applyEntries(side: Map<number, number>, entries: OrderBookEntry[]): void {
+  for (const [price, quantity] of entries) {
+    const size = parseFloat(quantity);
+    if (size === 0) {
+      side.delete(parseFloat(price));
+    } else {
+      side.set(parseFloat(price), size);
+    }
+  }
+}
+
+function sortLevels(side: Map<number, number>, descending: boolean, limit: number): OrderBookLevel[] {
+  return Array.from(side, ([price, quantity]) => ({ price, quantity }))
+    .sort((a, b) => descending ? b.price - a.price : a.price - b.price)
+    .slice(0, limit);
+}
+
+function accumulate(levels: OrderBookLevel[]): DepthLevel[] {
+  let cumulativeQuantity = 0;
+  let cumulativeNotional = 0;
+
+  return levels.map(level => {
+    cumulativeQuantity += level.quantity;
+    cumulativeNotional += level.quantity * level.price;
+    return { ...level, cumulativeQuantity, cumulativeNotional };
+  });
+}
+
+/**
+ * Local order book for one symbol, kept current from a MarketStream's depth
+ * diffs. Every diff must continue the update id sequence of the one before;
+ * on a gap the book is marked out of sync and rebuilt from a fresh snapshot,
+ * over REST or, where the exchange sends one on subscribe, over the stream.
+ */
+export class OrderBookKeeper {
+  private readonly adapter: ExchangeAdapter;
+  private readonly options: Required<OrderBookOptions>;
+
+  private readonly bids = new Map<number, number>();
+  private readonly asks = new Map<number, number>();
+  private readonly listeners = new Set<BookListener>();
+
+  private sequence = 0;
+  private synced = false;
+  // The first diff after a snapshot only has to overlap it
+  private awaitingFirstDiff = false;
+  private updatedAt?: number;
+  private buffer: OrderBookDiff[] = [];
+  private loadingSnapshot = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    readonly stream: MarketStream,
+    readonly symbol: string,
+    options: OrderBookOptions = {}
+  ) {
+    this.adapter = getExchangeAdapter(stream.exchange);
+    if (!this.adapter.getOrderBook || !this.adapter.stream?.depthTopic) {
+      throw new Error(`${this.adapter.name} does not support order books`);
+    }
+
+    this.options = {
+      snapshotDepth: options.snapshotDepth ?? Math.min(1000, this.adapter.capabilities.maxDepthLimit ?? 1000),
+      maxBufferedDiffs: options.maxBufferedDiffs ?? 1000,
+      retryDelayMs: options.retryDelayMs ?? 2000
+    };
+  }
+
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.stream.subscribeDepth(this.symbol, diff => this.handleDiff(diff));
+    if (!this.adapter.stream?.depthSnapshotOnSubscribe) {
+      this.loadSnapshot();
+    }
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.synced = false;
+    this.buffer = [];
+  }
+
+  /**
+   * Called after every change while the book is in sync
+   */
+  onUpdate(listener: BookListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  isSynced(): boolean {
+    return this.synced;
+  }
+
+  // Update id of the last change applied
+  getSequence(): number {
+    return this.sequence;
+  }
+
+  getUpdatedAt(): number | undefined {
+    return this.updatedAt;
+  }
+
+  getBestBid(): OrderBookLevel | undefined {
+    return sortLevels(this.bids, true, 1)[0];
+  }
+
+  getBestAsk(): OrderBookLevel | undefined {
+    return sortLevels(this.asks, false, 1)[0];
+  }
+
+  /**
+   * The best `limit` levels on each side
+   */
+  getTopLevels(limit: number = 20): OrderBookDepth {
+    return {
+      bids: sortLevels(this.bids, true, limit),
+      asks: sortLevels(this.asks, false, limit)
+    };
+  }
+
+  /**
+   * The best `limit` levels on each side with running totals from the top
+   */
+  getCumulativeDepth(limit: number = 20): OrderBookDepth<DepthLevel> {
+    const { bids, asks } = this.getTopLevels(limit);
+    return { bids: accumulate(bids), asks: accumulate(asks) };
+  }
+
+  /**
+   * Every level priced within [low, high], best first
+   */
+  getLevelsInRange(low: number, high: number): OrderBookDepth {
+    const inRange = (level: OrderBookLevel) => level.price >= low && level.price <= high;
+    return {
+      bids: sortLevels(this.bids, true, this.bids.size).filter(inRange),
+      asks: sortLevels(this.asks, false, this.asks.size).filter(inRange)
+    };
+  }
+
+  private handleDiff(diff: OrderBookDiff): void {
+    if (diff.isSnapshot) {
+      this.reset(diff.bids, diff.asks, diff.lastSequence, diff.timestamp);
+      return;
+    }
+
+    if (!this.synced) {
+      this.buffer.push(diff);
+      if (this.buffer.length > this.options.maxBufferedDiffs) this.buffer.shift();
+      return;
+    }
+
+    // Already part of the snapshot
+    if (diff.lastSequence <= this.sequence) return;
+
+    if (!this.continuesBook(diff)) {
+      console.warn(`${this.adapter.name} ${this.symbol} order book missed updates after ${this.sequence}, resyncing`);
+      this.resync(diff);
+      return;
+    }
+
+    applyEntries(this.bids, diff.bids);
+    applyEntries(this.asks, diff.asks);
+    this.sequence = diff.lastSequence;
+    this.awaitingFirstDiff = false;
+    this.updatedAt = diff.timestamp;
+    this.notify();
+  }
+
+  private continuesBook(diff: OrderBookDiff): boolean {
+    if (this.awaitingFirstDiff) return diff.firstSequence <= this.sequence + 1;
+    if (diff.previousSequence !== undefined) return diff.previousSequence === this.sequence;
+    return diff.firstSequence === this.sequence + 1;
+  }
+
+  private reset(bids: OrderBookEntry[], asks: OrderBookEntry[], sequence: number, timestamp: number): void {
+    this.bids.clear();
+    this.asks.clear();
+    applyEntries(this.bids, bids);
+    applyEntries(this.asks, asks);
+    this.sequence = sequence;
+    this.synced = true;
+    this.awaitingFirstDiff = true;
+    this.updatedAt = timestamp;
+
+    // Replay what arrived while the snapshot was on its way
+    const buffered = this.buffer;
+    this.buffer = [];
+    this.notify();
+    buffered.forEach(diff => this.handleDiff(diff));
+  }
+
+  private resync(pending: OrderBookDiff): void {
+    // A gap right after a snapshot means the snapshot was older than the stream
+    const staleSnapshot = this.awaitingFirstDiff;
+    this.synced = false;
+
+    if (this.adapter.stream?.depthSnapshotOnSubscribe) {
+      this.buffer = [];
+      this.stream.resubscribeDepth(this.symbol);
+    } else if (staleSnapshot) {
+      this.buffer = [pending];
+      this.scheduleSnapshot();
+    } else {
+      this.buffer = [pending];
+      this.loadSnapshot();
+    }
+  }
+
+  private scheduleSnapshot(): void {
+    if (this.retryTimer || !this.unsubscribe) return;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.loadSnapshot();
+    }, this.options.retryDelayMs);
+  }
+
+  private async loadSnapshot(): Promise<void> {
+    if (this.loadingSnapshot || !this.adapter.getOrderBook) return;
+    this.loadingSnapshot = true;
+
+    let snapshot: OrderBookSnapshot;
+    try {
+      snapshot = await this.adapter.getOrderBook(this.symbol, this.stream.tradingType, this.options.snapshotDepth);
+    } catch (error) {
+      console.warn(`Order book snapshot failed: ${describeExchangeError(error, this.symbol)}`);
+      this.scheduleSnapshot();
+      return;
+    } finally {
+      this.loadingSnapshot = false;
+    }
+
+    if (!this.unsubscribe) return; // Stopped meanwhile
+    this.reset(snapshot.bids, snapshot.asks, snapshot.sequence, snapshot.timestamp);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this));
+  }
+}
@@ -0,0 +1,42 @@
+export type RoundingMode = 'down' | 'up' | 'nearest';
+
+// Decimal places implied by an exchange increment such as "0.0100"
+function getDecimals(increment: string): number {
+  const [, fraction = ''] = increment.split('.');
+  return fraction.replace(/0+$/, '').length;
+}
+
+/**
+ * Round a value to a multiple of an exchange increment (tick size or step
+ * size). Increments are strings as exchanges report them, which keeps the
+ * result free of floating point noise.
+ */
+export function roundToIncrement(value: number, increment: string, mode: RoundingMode = 'nearest'): number {
+  const step = parseFloat(increment);
+  if (!(step > 0)) return value;
+  
+  // Tolerate representation error such as 0.30000000000000004 / 0.1
+  const units = value / step;
+  const rounded = mode === 'down'
+    ? Math.floor(units + 1e-9)
+    : mode === 'up'
+      ? Math.ceil(units - 1e-9)
+      : Math.round(units);
+  
+  return parseFloat((rounded * step).toFixed(getDecimals(increment)));
+}
+
+/**
+ * Sum of exchange-reported decimal strings at the precision of the most
+ * precise one, so balances add up without floating point noise
+ */
+export function sumDecimals(values: string[]): string {
+  const decimals = Math.max(0, ...values.map(getDecimals));
+  const sum = values.reduce((total, value) => total + parseFloat(value), 0);
+  // Rounding residue can leave "-0.00"
+  return (Math.abs(sum) < 0.5 * 10 ** -decimals ? 0 : sum).toFixed(decimals);
+}
+
+export function subtractDecimals(value: string, subtrahend: string): string {
+  return sumDecimals([value, subtrahend.startsWith('-') ? subtrahend.slice(1) : `-${subtrahend}`]);
+}
@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import type { KlineData, SymbolInfo } from '../types/exchange';
+import { readFixtureFile } from '../backend/fixtureFiles';
+import { replayFixtures } from './exchanges/fixtures';
+import { ExchangeAPI } from './exchangeAPI';
+import { parseVenueSymbol } from './instruments';
+import { EXTREME_FUNDING_RATE, OPEN_INTEREST_SPIKE, TechnicalAnalysisService } from './technicalAnalysis';
+
+// 260 hourly BTCUSDT candles: a long climb, a pullback, a rally with a hammer
+// at candle 244, then a shallow dip into the hammer's range
+const FIXTURES = fileURLToPath(new URL('./exchanges/__fixtures__/strategy.json', import.meta.url));
+
+const HOUR = 60 * 60 * 1000;
+const FIRST_OPEN = 1717200000000;
+const closeOf = (index: number) => FIRST_OPEN + (index + 1) * HOUR - 1;
+
+const instrument = parseVenueSymbol('binance', 'spot', 'BTCUSDT')!;
+
+let restore: () => void;
+let klines: KlineData[];
+let symbolInfo: SymbolInfo | undefined;
+
+beforeAll(async () => {
+  restore = replayFixtures(await readFixtureFile(FIXTURES));
+  klines = (await ExchangeAPI.getKlineSeries('binance', 'spot', 'BTCUSDT', '1h', 260)).klines;
+  symbolInfo = await ExchangeAPI.getSymbolInfo('binance', 'spot', 'BTCUSDT');
+});
+
+afterAll(() => restore());
+
+describe('analyzeData on recorded candles', () => {
+  it('replays the whole series in order', () => {
+    expect(klines).toHaveLength(260);
+    expect(klines[0].openTime).toBe(FIRST_OPEN);
+    expect(klines[259].closeTime).toBe(closeOf(259));
+    expect(symbolInfo?.tickSize).toBe('0.01000000');
+  });
+
+  it('buys the bounce off EMA 9 after the cross back above EMA 20', () => {
+    const { emaBounceSignals } = TechnicalAnalysisService.analyzeData(instrument, '1h', klines, symbolInfo);
+
+    expect(emaBounceSignals).toHaveLength(1);
+    const [signal] = emaBounceSignals;
+    expect(signal).toMatchObject({ timestamp: closeOf(244), type: 'buy', price: 69132.7 });
+    expect(signal.ema9).toBeGreaterThan(signal.ema20);
+    expect(signal.ema20).toBeGreaterThan(signal.ema200);
+    expect(signal.price).toBeGreaterThan(signal.vwap);
+    expect(signal.macdLine).toBeGreaterThan(signal.macdSignal);
+    expect(signal.confidence).toBeCloseTo(99.22, 2);
+  });
+
+  it('finds the hammer as a strong demand zone', () => {
+    const { supplyDemandZones } = TechnicalAnalysisService.analyzeData(instrument, '1h', klines, symbolInfo);
+
+    expect(supplyDemandZones.map(zone => [zone.timestamp, zone.type, zone.strength])).toEqual([
+      [closeOf(14), 'supply', 'strong'],
+      [closeOf(125), 'demand', 'strong'],
+      [closeOf(244), 'demand', 'strong']
+    ]);
+    expect(supplyDemandZones[2]).toMatchObject({ low: 67989.6, high: 69132.7, zoneType: 'DBR' });
+  });
+
+  it('buys inside the demand zone with stop and target on the tick grid', () => {
+    const { supplyDemandSignals } = TechnicalAnalysisService.analyzeData(instrument, '1h', klines, symbolInfo);
+
+    expect(supplyDemandSignals.length).toBeGreaterThan(0);
+    expect(supplyDemandSignals.every(signal => signal.type === 'buy')).toBe(true);
+
+    const atHammer = supplyDemandSignals.find(signal => signal.timestamp === closeOf(244));
+    expect(atHammer).toMatchObject({ price: 69132.7, confidence: 100 });
+    // 1% under the zone and twice its height above it, rounded down to 0.01
+    expect(atHammer?.stopLoss).toBeCloseTo(67309.70, 2);
+    expect(atHammer?.takeProfit).toBeCloseTo(71418.89, 2);
+  });
+
+  it('keeps unrounded levels without symbol info', () => {
+    const { supplyDemandSignals } = TechnicalAnalysisService.analyzeData(instrument, '1h', klines);
+
+    expect(supplyDemandSignals[0].stopLoss).toBeCloseTo(67309.704, 6);
+  });
+
+  it('tags every signal with the instrument and the candles\' source', () => {
+    const { allSignals, source } = TechnicalAnalysisService.analyzeData(instrument, '1h', klines, symbolInfo);
+
+    expect(source).toEqual({ exchange: 'binance', tradingType: 'spot', symbol: 'BTCUSDT' });
+    expect(allSignals.filter(signal => signal.strategy === 'ema_bounce').map(signal => signal.id)).toEqual([`ema_${closeOf(244)}`]);
+    expect(allSignals.every(signal => signal.instrument.id === 'BTC/USDT' && signal.source === source)).toBe(true);
+  });
+
+  it('drops an EMA-bounce buy on the latest candle into crowded longs', () => {
+    const derivatives = { fundingRate: EXTREME_FUNDING_RATE, openInterestChange: OPEN_INTEREST_SPIKE };
+    const { emaBounceSignals } = TechnicalAnalysisService.analyzeData(instrument, '1h', klines.slice(0, 245), symbolInfo, derivatives);
+
+    expect(emaBounceSignals).toEqual([]);
+  });
+
+  it('keeps earlier EMA-bounce buys, which today\'s derivatives data says nothing about', () => {
+    const derivatives = { fundingRate: EXTREME_FUNDING_RATE, openInterestChange: OPEN_INTEREST_SPIKE };
+    const { emaBounceSignals, supplyDemandSignals } = TechnicalAnalysisService.analyzeData(instrument, '1h', klines, symbolInfo, derivatives);
+
+    expect(emaBounceSignals.map(signal => signal.timestamp)).toEqual([closeOf(244)]);
+    expect(supplyDemandSignals.length).toBeGreaterThan(0);
+  });
+
+  it('keeps the latest buy when funding is extreme but open interest is flat', () => {
+    const derivatives = { fundingRate: EXTREME_FUNDING_RATE, openInterestChange: OPEN_INTEREST_SPIKE / 2 };
+    const { emaBounceSignals } = TechnicalAnalysisService.analyzeData(instrument, '1h', klines.slice(0, 245), symbolInfo, derivatives);
+
+    expect(emaBounceSignals.map(signal => signal.timestamp)).toEqual([closeOf(244)]);
+  });
+});
+
+describe('analyzeData after a failover', () => {
+  // The same candles as served by OKX in place of Binance
+  const source = { exchange: 'okx' as const, tradingType: 'spot' as const, symbol: 'BTC-USDT' };
+  const okxInfo: SymbolInfo = {
+    symbol: 'BTC-USDT',
+    baseAsset: 'BTC',
+    quoteAsset: 'USDT',
+    status: 'live',
+    isTrading: true,
+    contractType: 'spot',
+    tickSize: '0.5'
+  };
+
+  it('rounds stops and targets to the tick size of the exchange that served the candles', () => {
+    const failedOver = klines.map(kline => ({ ...kline, source }));
+    const { supplyDemandSignals, source: reported } = TechnicalAnalysisService.analyzeData(instrument, '1h', failedOver, okxInfo);
+
+    expect(reported).toEqual(source);
+    expect(supplyDemandSignals[0].stopLoss).toBe(67309.5);
+    expect(supplyDemandSignals[0].takeProfit).toBe(71418.5);
+  });
+
+  it('does not round to the requested exchange\'s tick size', () => {
+    const failedOver = klines.map(kline => ({ ...kline, source }));
+    const { supplyDemandSignals } = TechnicalAnalysisService.analyzeData(instrument, '1h', failedOver, symbolInfo);
+
+    expect(supplyDemandSignals[0].stopLoss).toBeCloseTo(67309.704, 6);
+  });
+});
@@ -3,14 +3,21 @@ import type {
   EMAData,
   VWAPData,
   MACDData,
+  VolumeDeltaData,
   SupplyDemandZone,
   EMABounceSignal,
   SupplyDemandSignal,
   TradingSignal,
-  Exchange,
-  TradingType,
-  Timeframe
+  Instrument,
+  Timeframe,
+  CustomTimeframe,
+  SymbolInfo,
+  KlineSource,
+  DerivativesContext,
+  OrderBookDepth,
+  ZoneLiquidity
 } from '../types/exchange';
+import { roundToIncrement } from './precision';
 
 // Technical Analysis Calculations
 
@@ -37,9 +44,10 @@ export function calculateEMA(data: number[], period: number): number[] {
 }
 
 /**
- * Calculate VWAP (Volume Weighted Average Price)
+ * Calculate VWAP (Volume Weighted Average Price). Inverse-contract volume is
+ * converted to base quantity, using contractSize when a candle has no baseVolume.
  */
-export function calculateVWAP(klineData: KlineData[]): VWAPData[] {
+export function calculateVWAP(klineData: KlineData[], contractSize?: string): VWAPData[] {
   const vwapData: VWAPData[] = [];
   let cumulativeTPV = 0; // Typical Price * Volume
   let cumulativeVolume = 0;
@@ -48,9 +56,9 @@ export function calculateVWAP(klineData: KlineData[]): VWAPData[] {
     const high = parseFloat(candle.high);
     const low = parseFloat(candle.low);
     const close = parseFloat(candle.close);
-    const volume = parseFloat(candle.volume);
-    
     const typicalPrice = (high + low + close) / 3;
+    const volume = getBaseVolume(candle, typicalPrice, contractSize);
+    
     const tpv = typicalPrice * volume;
     
     cumulativeTPV += tpv;
@@ -68,15 +76,60 @@ export function calculateVWAP(klineData: KlineData[]): VWAPData[] {
   return vwapData;
 }
 
+// Inverse contracts are worth a fixed amount of USD, so their count is not a
+// quantity of the base asset. Weight by the base amount instead.
+function getBaseVolume(candle: KlineData, price: number, contractSize?: string): number {
+  if (candle.volumeUnit !== 'contracts') return parseFloat(candle.volume);
+  if (candle.baseVolume !== undefined) return parseFloat(candle.baseVolume);
+  
+  const contracts = parseFloat(candle.volume);
+  return contractSize && price > 0 ? (contracts * parseFloat(contractSize)) / price : contracts;
+}
+
+/**
+ * Per-candle taker buy and sell volume, their difference, and its running
+ * total (cumulative volume delta). Candles without taker buy volume are
+ * skipped; ExchangeAPI.getOrderFlowKlines fills it where the exchange does not.
+ */
+export function calculateVolumeDelta(klineData: KlineData[]): VolumeDeltaData[] {
+  const deltaData: VolumeDeltaData[] = [];
+  let cumulativeDelta = 0;
+  
+  for (const candle of klineData) {
+    if (candle.takerBuyBaseAssetVolume === undefined) continue;
+    
+    // Taker buy volume is always in the base asset; so must the total be
+    const total = candle.volumeUnit === 'contracts' ? candle.baseVolume : candle.volume;
+    if (total === undefined) continue;
+    
+    const buyVolume = parseFloat(candle.takerBuyBaseAssetVolume);
+    const sellVolume = Math.max(parseFloat(total) - buyVolume, 0);
+    const delta = buyVolume - sellVolume;
+    cumulativeDelta += delta;
+    
+    deltaData.push({
+      timestamp: candle.closeTime,
+      buyVolume,
+      sellVolume,
+      delta,
+      cumulativeDelta
+    });
+  }
+  
+  return deltaData;
+}
+
 /**
- * Calculate MACD (Moving Average Convergence Divergence)
+ * Calculate MACD (Moving Average Convergence Divergence) on closing prices,
+ * each value stamped with the close time of its candle
  */
 export function calculateMACD(
-  prices: number[], 
+  klineData: KlineData[], 
   fastPeriod: number = 12, 
   slowPeriod: number = 26, 
   signalPeriod: number = 9
 ): MACDData[] {
+  const prices = klineData.map(k => parseFloat(k.close));
   const fastEMA = calculateEMA(prices, fastPeriod);
   const slowEMA = calculateEMA(prices, slowPeriod);
   
@@ -96,10 +149,13 @@ export function calculateMACD(
   const macdData: MACDData[] = [];
   const signalStartIndex = macdLine.length - signalLine.length;
   
+  // The last signal value belongs to the last candle
+  const candleOffset = klineData.length - signalLine.length;
+  
   for (let i = 0; i < signalLine.length; i++) {
     const macdIndex = i + signalStartIndex;
     macdData.push({
-      timestamp: Date.now() - (signalLine.length - i - 1) * 60000, // Approximate timestamp
+      timestamp: klineData[candleOffset + i].closeTime,
       macd: macdLine[macdIndex],
       signal: signalLine[i],
       histogram: macdLine[macdIndex] - signalLine[i]
@@ -118,4 +174,531 @@ export function detectSupplyDemandZones(klineData: KlineData[]): SupplyDemandZon
   if (klineData.length < 10) return zones;
   
   for (let i = 2; i < klineData.length - 2; i++) {
-    const current = klineData[i];\n    const prev = klineData[i - 1];\n    const next = klineData[i + 1];\n    const prev2 = klineData[i - 2];\n    const next2 = klineData[i + 1];\n    \n    // Convert price strings to numbers\n    const currentHigh = parseFloat(current.high);\n    const currentLow = parseFloat(current.low);\n    const currentOpen = parseFloat(current.open);\n    const currentClose = parseFloat(current.close);\n    \n    const prevHigh = parseFloat(prev.high);\n    const prevLow = parseFloat(prev.low);\n    const prevClose = parseFloat(prev.close);\n    \n    const nextHigh = parseFloat(next.high);\n    const nextLow = parseFloat(next.low);\n    \n    // Detect Bullish Engulfing (Strong Demand Zone)\n    if (prevClose < currentOpen && currentClose > prevHigh) {\n      zones.push({\n        type: 'demand',\n        high: currentHigh,\n        low: Math.min(currentLow, prevLow),\n        timestamp: current.closeTime,\n        strength: 'strong',\n        zoneType: 'DBR', // Drop-Base-Rally reversal pattern\n        isValid: true\n      });\n    }\n    \n    // Detect Bearish Engulfing (Strong Supply Zone)\n    if (prevClose > currentOpen && currentClose < prevLow) {\n      zones.push({\n        type: 'supply',\n        high: Math.max(currentHigh, prevHigh),\n        low: currentLow,\n        timestamp: current.closeTime,\n        strength: 'strong',\n        zoneType: 'RBD', // Rally-Base-Drop reversal pattern\n        isValid: true\n      });\n    }\n    \n    // Detect Pin Bar patterns\n    const bodySize = Math.abs(currentClose - currentOpen);\n    const upperWick = currentHigh - Math.max(currentOpen, currentClose);\n    const lowerWick = Math.min(currentOpen, currentClose) - currentLow;\n    const totalRange = currentHigh - currentLow;\n    \n    // Bullish Pin Bar (Demand Zone)\n    if (lowerWick > bodySize * 2 && lowerWick > upperWick * 2 && totalRange > 0) {\n      zones.push({\n        type: 'demand',\n        high: Math.max(currentOpen, currentClose),\n        low: currentLow,\n        timestamp: current.closeTime,\n        strength: lowerWick > bodySize * 3 ? 'strong' : 'medium',\n        zoneType: 'DBR',\n        isValid: true\n      });\n    }\n    \n    // Bearish Pin Bar (Supply Zone)\n    if (upperWick > bodySize * 2 && upperWick > lowerWick * 2 && totalRange > 0) {\n      zones.push({\n        type: 'supply',\n        high: currentHigh,\n        low: Math.min(currentOpen, currentClose),\n        timestamp: current.closeTime,\n        strength: upperWick > bodySize * 3 ? 'strong' : 'medium',\n        zoneType: 'RBD',\n        isValid: true\n      });\n    }\n  }\n  \n  // Remove overlapping zones and keep the strongest\n  return consolidateZones(zones);\n}\n\n/**\n * Consolidate overlapping zones and keep the strongest ones\n */\nfunction consolidateZones(zones: SupplyDemandZone[]): SupplyDemandZone[] {\n  const consolidated: SupplyDemandZone[] = [];\n  \n  for (const zone of zones) {\n    let shouldAdd = true;\n    \n    for (let i = consolidated.length - 1; i >= 0; i--) {\n      const existingZone = consolidated[i];\n      \n      // Check if zones overlap\n      const overlap = (\n        zone.type === existingZone.type &&\n        ((zone.low <= existingZone.high && zone.high >= existingZone.low))\n      );\n      \n      if (overlap) {\n        // Keep the stronger zone\n        const zoneStrength = getZoneStrengthValue(zone.strength);\n        const existingStrength = getZoneStrengthValue(existingZone.strength);\n        \n        if (zoneStrength > existingStrength) {\n          consolidated[i] = zone;\n        }\n        shouldAdd = false;\n        break;\n      }\n    }\n    \n    if (shouldAdd) {\n      consolidated.push(zone);\n    }\n  }\n  \n  return consolidated.slice(-20); // Keep only the 20 most recent zones\n}\n\nfunction getZoneStrengthValue(strength: 'weak' | 'medium' | 'strong'): number {\n  return { weak: 1, medium: 2, strong: 3 }[strength];\n}\n\n/**\n * EMA Bounce Strategy Implementation\n */\nexport function detectEMABounceSignal(\n  klineData: KlineData[],\n  vwapData: VWAPData[],\n  fastLen: number = 9,\n  medLen: number = 20,\n  slowLen: number = 200,\n  macdFast: number = 12,\n  macdSlow: number = 26,\n  macdSig: number = 9,\n  tolPct: number = 0.05,\n  maxWait: number = 30\n): EMABounceSignal[] {\n  if (klineData.length < slowLen) return [];\n  \n  const closePrices = klineData.map(k => parseFloat(k.close));\n  const lowPrices = klineData.map(k => parseFloat(k.low));\n  \n  const ema9 = calculateEMA(closePrices, fastLen);\n  const ema20 = calculateEMA(closePrices, medLen);\n  const ema200 = calculateEMA(closePrices, slowLen);\n  const macdData = calculateMACD(closePrices, macdFast, macdSlow, macdSig);\n  \n  const signals: EMABounceSignal[] = [];\n  \n  // We need to align all arrays to the same length\n  const minLength = Math.min(ema200.length, macdData.length, vwapData.length);\n  const startIndex = klineData.length - minLength;\n  \n  let waitBounce = false;\n  let barsWaited = 0;\n  \n  for (let i = 1; i < minLength; i++) {\n    const currentIndex = startIndex + i;\n    const prevIndex = startIndex + i - 1;\n    \n    const current = klineData[currentIndex];\n    const currentClose = parseFloat(current.close);\n    const currentLow = parseFloat(current.low);\n    \n    const currentEma9 = ema9[ema9.length - minLength + i];\n    const currentEma20 = ema20[ema20.length - minLength + i];\n    const currentEma200 = ema200[i];\n    const prevEma9 = ema9[ema9.length - minLength + i - 1];\n    const prevEma20 = ema20[ema20.length - minLength + i - 1];\n    \n    const currentVwap = vwapData[vwapData.length - minLength + i]?.vwap || 0;\n    const currentMacd = macdData[i];\n    \n    // Check bullish stack alignment\n    const bullStack = currentEma9 > currentEma20 && currentEma20 > currentEma200;\n    \n    // Check for EMA cross (fast crossing above medium, both above slow)\n    const emaCrossUp = prevEma9 <= prevEma20 && currentEma9 > currentEma20 && currentEma9 > currentEma200;\n    \n    // Bounce definition\n    const tolPrice = currentEma9 * (1 + tolPct / 100);\n    const bounce = currentLow <= tolPrice && currentClose > currentEma9;\n    \n    // Filters\n    const priceAboveVWAP = currentClose > currentVwap;\n    const macdBull = currentMacd.macd > currentMacd.signal;\n    \n    // State machine logic\n    if (emaCrossUp) {\n      waitBounce = true;\n      barsWaited = 0;\n    } else if (waitBounce) {\n      barsWaited++;\n    }\n    \n    // Abort waiting if conditions break\n    if (!bullStack || (maxWait > 0 && barsWaited > maxWait)) {\n      waitBounce = false;\n      barsWaited = 0;\n    }\n    \n    // Generate buy signal\n    const buySignal = waitBounce && bounce && priceAboveVWAP && macdBull;\n    \n    if (buySignal) {\n      const confidence = calculateSignalConfidence({\n        bullStack,\n        priceAboveVWAP,\n        macdBull,\n        bounceQuality: (tolPrice - currentLow) / tolPrice,\n        volumeConfirmation: parseFloat(current.volume) > 0\n      });\n      \n      signals.push({\n        timestamp: current.closeTime,\n        type: 'buy',\n        price: currentClose,\n        ema9: currentEma9,\n        ema20: currentEma20,\n        ema200: currentEma200,\n        vwap: currentVwap,\n        macdLine: currentMacd.macd,\n        macdSignal: currentMacd.signal,\n        bullishStack: bullStack,\n        priceAboveVWAP,\n        macdBullish: macdBull,\n        bounceConfirmed: bounce,\n        confidence\n      });\n      \n      waitBounce = false;\n      barsWaited = 0;\n    }\n  }\n  \n  return signals;\n}\n\nfunction calculateSignalConfidence(factors: {\n  bullStack: boolean;\n  priceAboveVWAP: boolean;\n  macdBull: boolean;\n  bounceQuality: number;\n  volumeConfirmation: boolean;\n}): number {\n  let confidence = 0;\n  \n  if (factors.bullStack) confidence += 25;\n  if (factors.priceAboveVWAP) confidence += 20;\n  if (factors.macdBull) confidence += 20;\n  if (factors.volumeConfirmation) confidence += 15;\n  \n  // Bounce quality (closer to EMA9 = higher confidence)\n  confidence += Math.max(0, 20 - (factors.bounceQuality * 100));\n  \n  return Math.min(100, Math.max(0, confidence));\n}\n\n/**\n * Supply & Demand Strategy Signal Detection\n */\nexport function detectSupplyDemandSignals(\n  klineData: KlineData[],\n  zones: SupplyDemandZone[]\n): SupplyDemandSignal[] {\n  const signals: SupplyDemandSignal[] = [];\n  \n  if (klineData.length === 0 || zones.length === 0) return signals;\n  \n  const recentCandles = klineData.slice(-50); // Check last 50 candles\n  \n  for (const candle of recentCandles) {\n    const currentPrice = parseFloat(candle.close);\n    const currentLow = parseFloat(candle.low);\n    const currentHigh = parseFloat(candle.high);\n    \n    for (const zone of zones) {\n      if (!zone.isValid) continue;\n      \n      // Check if price is interacting with zone\n      const priceInZone = currentLow <= zone.high && currentHigh >= zone.low;\n      \n      if (priceInZone) {\n        if (zone.type === 'demand' && currentPrice > zone.low) {\n          // Buy signal from demand zone\n          const stopLoss = zone.low * 0.99; // 1% below zone\n          const takeProfit = zone.high + (zone.high - zone.low) * 2; // 2:1 R:R\n          const riskReward = (takeProfit - currentPrice) / (currentPrice - stopLoss);\n          \n          signals.push({\n            timestamp: candle.closeTime,\n            type: 'buy',\n            price: currentPrice,\n            zone,\n            entryReason: `Price bounced from ${zone.zoneType} demand zone`,\n            stopLoss,\n            takeProfit,\n            riskReward,\n            confidence: getZoneConfidence(zone)\n          });\n        } else if (zone.type === 'supply' && currentPrice < zone.high) {\n          // Sell signal from supply zone\n          const stopLoss = zone.high * 1.01; // 1% above zone\n          const takeProfit = zone.low - (zone.high - zone.low) * 2; // 2:1 R:R\n          const riskReward = (currentPrice - takeProfit) / (stopLoss - currentPrice);\n          \n          signals.push({\n            timestamp: candle.closeTime,\n            type: 'sell',\n            price: currentPrice,\n            zone,\n            entryReason: `Price rejected from ${zone.zoneType} supply zone`,\n            stopLoss,\n            takeProfit,\n            riskReward,\n            confidence: getZoneConfidence(zone)\n          });\n        }\n      }\n    }\n  }\n  \n  return signals;\n}\n\nfunction getZoneConfidence(zone: SupplyDemandZone): number {\n  let confidence = 50; // Base confidence\n  \n  // Zone strength factor\n  if (zone.strength === 'strong') confidence += 30;\n  else if (zone.strength === 'medium') confidence += 15;\n  \n  // Zone type factor (reversals are stronger)\n  if (zone.zoneType === 'DBR' || zone.zoneType === 'RBD') confidence += 20;\n  \n  return Math.min(100, confidence);\n}\n\n/**\n * Main Technical Analysis Service\n */\nexport class TechnicalAnalysisService {\n  static analyzeData(\n    exchange: Exchange,\n    tradingType: TradingType,\n    symbol: string,\n    timeframe: Timeframe,\n    klineData: KlineData[]\n  ): {\n    emaData: EMAData[];\n    vwapData: VWAPData[];\n    macdData: MACDData[];\n    supplyDemandZones: SupplyDemandZone[];\n    emaBounceSignals: EMABounceSignal[];\n    supplyDemandSignals: SupplyDemandSignal[];\n    allSignals: TradingSignal[];\n  } {\n    // Calculate technical indicators\n    const closePrices = klineData.map(k => parseFloat(k.close));\n    \n    const ema9 = calculateEMA(closePrices, 9);\n    const ema20 = calculateEMA(closePrices, 20);\n    const ema200 = calculateEMA(closePrices, 200);\n    \n    const emaData: EMAData[] = [];\n    const minLength = Math.min(ema9.length, ema20.length, ema200.length);\n    const startIndex = klineData.length - minLength;\n    \n    for (let i = 0; i < minLength; i++) {\n      emaData.push({\n        timestamp: klineData[startIndex + i].closeTime,\n        ema9: ema9[ema9.length - minLength + i],\n        ema20: ema20[ema20.length - minLength + i],\n        ema200: ema200[i]\n      });\n    }\n    \n    const vwapData = calculateVWAP(klineData);\n    const macdData = calculateMACD(closePrices);\n    const supplyDemandZones = detectSupplyDemandZones(klineData);\n    \n    // Generate trading signals\n    const emaBounceSignals = detectEMABounceSignal(klineData, vwapData);\n    const supplyDemandSignals = detectSupplyDemandSignals(klineData, supplyDemandZones);\n    \n    // Combine all signals\n    const allSignals: TradingSignal[] = [\n      ...emaBounceSignals.map(signal => ({\n        id: `ema_${signal.timestamp}`,\n        symbol,\n        exchange,\n        tradingType,\n        timeframe,\n        timestamp: signal.timestamp,\n        type: signal.type,\n        price: signal.price,\n        strategy: 'ema_bounce' as const,\n        signalData: signal,\n        isActive: true,\n        confidence: signal.confidence\n      })),\n      ...supplyDemandSignals.map(signal => ({\n        id: `sd_${signal.timestamp}`,\n        symbol,\n        exchange,\n        tradingType,\n        timeframe,\n        timestamp: signal.timestamp,\n        type: signal.type,\n        price: signal.price,\n        strategy: 'supply_demand' as const,\n        signalData: signal,\n        isActive: true,\n        confidence: signal.confidence\n      }))\n    ];\n    \n    return {\n      emaData,\n      vwapData,\n      macdData,\n      supplyDemandZones,\n      emaBounceSignals,\n      supplyDemandSignals,\n      allSignals\n    };\n  }\n}
\ No newline at end of file
+    const current = klineData[i];
+    const prev = klineData[i - 1];
+    const next = klineData[i + 1];
+    const prev2 = klineData[i - 2];
+    const next2 = klineData[i + 1];
+    
+    // Convert price strings to numbers
+    const currentHigh = parseFloat(current.high);
+    const currentLow = parseFloat(current.low);
+    const currentOpen = parseFloat(current.open);
+    const currentClose = parseFloat(current.close);
+    
+    const prevHigh = parseFloat(prev.high);
+    const prevLow = parseFloat(prev.low);
+    const prevClose = parseFloat(prev.close);
+    
+    const nextHigh = parseFloat(next.high);
+    const nextLow = parseFloat(next.low);
+    
+    // Detect Bullish Engulfing (Strong Demand Zone)
+    if (prevClose < currentOpen && currentClose > prevHigh) {
+      zones.push({
+        type: 'demand',
+        high: currentHigh,
+        low: Math.min(currentLow, prevLow),
+        timestamp: current.closeTime,
+        strength: 'strong',
+        zoneType: 'DBR', // Drop-Base-Rally reversal pattern
+        isValid: true
+      });
+    }
+    
+    // Detect Bearish Engulfing (Strong Supply Zone)
+    if (prevClose > currentOpen && currentClose < prevLow) {
+      zones.push({
+        type: 'supply',
+        high: Math.max(currentHigh, prevHigh),
+        low: currentLow,
+        timestamp: current.closeTime,
+        strength: 'strong',
+        zoneType: 'RBD', // Rally-Base-Drop reversal pattern
+        isValid: true
+      });
+    }
+    
+    // Detect Pin Bar patterns
+    const bodySize = Math.abs(currentClose - currentOpen);
+    const upperWick = currentHigh - Math.max(currentOpen, currentClose);
+    const lowerWick = Math.min(currentOpen, currentClose) - currentLow;
+    const totalRange = currentHigh - currentLow;
+    
+    // Bullish Pin Bar (Demand Zone)
+    if (lowerWick > bodySize * 2 && lowerWick > upperWick * 2 && totalRange > 0) {
+      zones.push({
+        type: 'demand',
+        high: Math.max(currentOpen, currentClose),
+        low: currentLow,
+        timestamp: current.closeTime,
+        strength: lowerWick > bodySize * 3 ? 'strong' : 'medium',
+        zoneType: 'DBR',
+        isValid: true
+      });
+    }
+    
+    // Bearish Pin Bar (Supply Zone)
+    if (upperWick > bodySize * 2 && upperWick > lowerWick * 2 && totalRange > 0) {
+      zones.push({
+        type: 'supply',
+        high: currentHigh,
+        low: Math.min(currentOpen, currentClose),
+        timestamp: current.closeTime,
+        strength: upperWick > bodySize * 3 ? 'strong' : 'medium',
+        zoneType: 'RBD',
+        isValid: true
+      });
+    }
+  }
+  
+  // Remove overlapping zones and keep the strongest
+  return consolidateZones(zones);
+}
+
+/**
+ * Consolidate overlapping zones and keep the strongest ones
+ */
+function consolidateZones(zones: SupplyDemandZone[]): SupplyDemandZone[] {
+  const consolidated: SupplyDemandZone[] = [];
+  
+  for (const zone of zones) {
+    let shouldAdd = true;
+    
+    for (let i = consolidated.length - 1; i >= 0; i--) {
+      const existingZone = consolidated[i];
+      
+      // Check if zones overlap
+      const overlap = (
+        zone.type === existingZone.type &&
+        ((zone.low <= existingZone.high && zone.high >= existingZone.low))
+      );
+      
+      if (overlap) {
+        // Keep the stronger zone
+        const zoneStrength = getZoneStrengthValue(zone.strength);
+        const existingStrength = getZoneStrengthValue(existingZone.strength);
+        
+        if (zoneStrength > existingStrength) {
+          consolidated[i] = zone;
+        }
+        shouldAdd = false;
+        break;
+      }
+    }
+    
+    if (shouldAdd) {
+      consolidated.push(zone);
+    }
+  }
+  
+  return consolidated.slice(-20); // Keep only the 20 most recent zones
+}
+
+function getZoneStrengthValue(strength: 'weak' | 'medium' | 'strong'): number {
+  return { weak: 1, medium: 2, strong: 3 }[strength];
+}
+
+/**
+ * EMA Bounce Strategy Implementation
+ */
+export function detectEMABounceSignal(
+  klineData: KlineData[],
+  vwapData: VWAPData[],
+  fastLen: number = 9,
+  medLen: number = 20,
+  slowLen: number = 200,
+  macdFast: number = 12,
+  macdSlow: number = 26,
+  macdSig: number = 9,
+  tolPct: number = 0.05,
+  maxWait: number = 30
+): EMABounceSignal[] {
+  if (klineData.length < slowLen) return [];
+  
+  const closePrices = klineData.map(k => parseFloat(k.close));
+  const lowPrices = klineData.map(k => parseFloat(k.low));
+  
+  const ema9 = calculateEMA(closePrices, fastLen);
+  const ema20 = calculateEMA(closePrices, medLen);
+  const ema200 = calculateEMA(closePrices, slowLen);
+  const macdData = calculateMACD(klineData, macdFast, macdSlow, macdSig);
+  
+  const signals: EMABounceSignal[] = [];
+  
+  // We need to align all arrays to the same length
+  const minLength = Math.min(ema200.length, macdData.length, vwapData.length);
+  const startIndex = klineData.length - minLength;
+  
+  let waitBounce = false;
+  let barsWaited = 0;
+  
+  for (let i = 1; i < minLength; i++) {
+    const currentIndex = startIndex + i;
+    const prevIndex = startIndex + i - 1;
+    
+    const current = klineData[currentIndex];
+    const currentClose = parseFloat(current.close);
+    const currentLow = parseFloat(current.low);
+    
+    const currentEma9 = ema9[ema9.length - minLength + i];
+    const currentEma20 = ema20[ema20.length - minLength + i];
+    const currentEma200 = ema200[i];
+    const prevEma9 = ema9[ema9.length - minLength + i - 1];
+    const prevEma20 = ema20[ema20.length - minLength + i - 1];
+    
+    const currentVwap = vwapData[vwapData.length - minLength + i]?.vwap || 0;
+    const currentMacd = macdData[i];
+    
+    // Check bullish stack alignment
+    const bullStack = currentEma9 > currentEma20 && currentEma20 > currentEma200;
+    
+    // Check for EMA cross (fast crossing above medium, both above slow)
+    const emaCrossUp = prevEma9 <= prevEma20 && currentEma9 > currentEma20 && currentEma9 > currentEma200;
+    
+    // Bounce definition
+    const tolPrice = currentEma9 * (1 + tolPct / 100);
+    const bounce = currentLow <= tolPrice && currentClose > currentEma9;
+    
+    // Filters
+    const priceAboveVWAP = currentClose > currentVwap;
+    const macdBull = currentMacd.macd > currentMacd.signal;
+    
+    // State machine logic
+    if (emaCrossUp) {
+      waitBounce = true;
+      barsWaited = 0;
+    } else if (waitBounce) {
+      barsWaited++;
+    }
+    
+    // Abort waiting if conditions break
+    if (!bullStack || (maxWait > 0 && barsWaited > maxWait)) {
+      waitBounce = false;
+      barsWaited = 0;
+    }
+    
+    // Generate buy signal
+    const buySignal = waitBounce && bounce && priceAboveVWAP && macdBull;
+    
+    if (buySignal) {
+      const confidence = calculateSignalConfidence({
+        bullStack,
+        priceAboveVWAP,
+        macdBull,
+        bounceQuality: (tolPrice - currentLow) / tolPrice,
+        volumeConfirmation: parseFloat(current.volume) > 0
+      });
+      
+      signals.push({
+        timestamp: current.closeTime,
+        type: 'buy',
+        price: currentClose,
+        ema9: currentEma9,
+        ema20: currentEma20,
+        ema200: currentEma200,
+        vwap: currentVwap,
+        macdLine: currentMacd.macd,
+        macdSignal: currentMacd.signal,
+        bullishStack: bullStack,
+        priceAboveVWAP,
+        macdBullish: macdBull,
+        bounceConfirmed: bounce,
+        confidence
+      });
+      
+      waitBounce = false;
+      barsWaited = 0;
+    }
+  }
+  
+  return signals;
+}
+
+function calculateSignalConfidence(factors: {
+  bullStack: boolean;
+  priceAboveVWAP: boolean;
+  macdBull: boolean;
+  bounceQuality: number;
+  volumeConfirmation: boolean;
+}): number {
+  let confidence = 0;
+  
+  if (factors.bullStack) confidence += 25;
+  if (factors.priceAboveVWAP) confidence += 20;
+  if (factors.macdBull) confidence += 20;
+  if (factors.volumeConfirmation) confidence += 15;
+  
+  // Bounce quality (closer to EMA9 = higher confidence)
+  confidence += Math.max(0, 20 - (factors.bounceQuality * 100));
+  
+  return Math.min(100, Math.max(0, confidence));
+}
+
+// Confidence added when the reacting candle's delta agrees with the signal,
+// and removed when it disagrees
+const ORDER_FLOW_CONFIRMATION_BONUS = 10;
+const ORDER_FLOW_DIVERGENCE_PENALTY = 15;
+
+function applyOrderFlow(confidence: number, type: 'buy' | 'sell', delta: number | undefined): number {
+  if (delta === undefined || delta === 0) return confidence;
+  const agrees = type === 'buy' ? delta > 0 : delta < 0;
+  const adjusted = agrees ? confidence + ORDER_FLOW_CONFIRMATION_BONUS : confidence - ORDER_FLOW_DIVERGENCE_PENALTY;
+  return Math.max(0, Math.min(100, adjusted));
+}
+
+/**
+ * Supply & Demand Strategy Signal Detection.
+ * With symbol info, stop-loss and take-profit are rounded to the exchange tick
+ * size: away from entry for the stop, toward entry for the target. With volume
+ * delta, reactions backed by taker flow gain confidence and ones against it lose some.
+ */
+export function detectSupplyDemandSignals(
+  klineData: KlineData[],
+  zones: SupplyDemandZone[],
+  symbolInfo?: SymbolInfo,
+  volumeDelta: VolumeDeltaData[] = []
+): SupplyDemandSignal[] {
+  const signals: SupplyDemandSignal[] = [];
+  
+  if (klineData.length === 0 || zones.length === 0) return signals;
+  
+  const recentCandles = klineData.slice(-50); // Check last 50 candles
+  const deltaByTime = new Map(volumeDelta.map(data => [data.timestamp, data.delta]));
+  
+  for (const candle of recentCandles) {
+    const currentPrice = parseFloat(candle.close);
+    const currentLow = parseFloat(candle.low);
+    const currentHigh = parseFloat(candle.high);
+    const delta = deltaByTime.get(candle.closeTime);
+    
+    for (const zone of zones) {
+      if (!zone.isValid) continue;
+      
+      // Check if price is interacting with zone
+      const priceInZone = currentLow <= zone.high && currentHigh >= zone.low;
+      
+      if (priceInZone) {
+        if (zone.type === 'demand' && currentPrice > zone.low) {
+          // Buy signal from demand zone
+          const stopLoss = roundToTick(zone.low * 0.99, symbolInfo, 'down'); // 1% below zone
+          const takeProfit = roundToTick(zone.high + (zone.high - zone.low) * 2, symbolInfo, 'down'); // 2:1 R:R
+          const riskReward = (takeProfit - currentPrice) / (currentPrice - stopLoss);
+          
+          signals.push({
+            timestamp: candle.closeTime,
+            type: 'buy',
+            price: currentPrice,
+            zone,
+            entryReason: `Price bounced from ${zone.zoneType} demand zone`,
+            stopLoss,
+            takeProfit,
+            riskReward,
+            confidence: applyOrderFlow(getZoneConfidence(zone), 'buy', delta),
+            delta
+          });
+        } else if (zone.type === 'supply' && currentPrice < zone.high) {
+          // Sell signal from supply zone
+          const stopLoss = roundToTick(zone.high * 1.01, symbolInfo, 'up'); // 1% above zone
+          const takeProfit = roundToTick(zone.low - (zone.high - zone.low) * 2, symbolInfo, 'up'); // 2:1 R:R
+          const riskReward = (currentPrice - takeProfit) / (stopLoss - currentPrice);
+          
+          signals.push({
+            timestamp: candle.closeTime,
+            type: 'sell',
+            price: currentPrice,
+            zone,
+            entryReason: `Price rejected from ${zone.zoneType} supply zone`,
+            stopLoss,
+            takeProfit,
+            riskReward,
+            confidence: applyOrderFlow(getZoneConfidence(zone), 'sell', delta),
+            delta
+          });
+        }
+      }
+    }
+  }
+  
+  return signals;
+}
+
+function roundToTick(price: number, symbolInfo: SymbolInfo | undefined, mode: 'down' | 'up'): number {
+  return symbolInfo?.tickSize ? roundToIncrement(price, symbolInfo.tickSize, mode) : price;
+}
+
+function getZoneConfidence(zone: SupplyDemandZone): number {
+  let confidence = 50; // Base confidence
+  
+  // Zone strength factor
+  if (zone.strength === 'strong') confidence += 30;
+  else if (zone.strength === 'medium') confidence += 15;
+  
+  // Zone type factor (reversals are stronger)
+  if (zone.zoneType === 'DBR' || zone.zoneType === 'RBD') confidence += 20;
+  
+  return Math.min(100, confidence);
+}
+
+// A resting level this many times the side's median level is a wall
+export const LIQUIDITY_WALL_MULTIPLE = 3;
+
+// How far outside a zone, as a fraction of its edge, liquidity still backs it
+export const ZONE_LIQUIDITY_TOLERANCE = 0.002;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Resting liquidity behind a zone: asks for supply, bids for demand. A zone
+ * is confirmed when a wall sits between just below zone.low and just above
+ * zone.high.
+ */
+export function checkZoneLiquidity(zone: SupplyDemandZone, depth: OrderBookDepth): ZoneLiquidity {
+  const levels = zone.type === 'supply' ? depth.asks : depth.bids;
+  const low = zone.low * (1 - ZONE_LIQUIDITY_TOLERANCE);
+  const high = zone.high * (1 + ZONE_LIQUIDITY_TOLERANCE);
+  const threshold = median(levels.map(level => level.quantity)) * LIQUIDITY_WALL_MULTIPLE;
+  
+  const resting = levels.filter(level => level.price >= low && level.price <= high);
+  const walls = resting.filter(level => level.quantity >= threshold);
+  
+  return {
+    restingQuantity: resting.reduce((sum, level) => sum + level.quantity, 0),
+    restingNotional: resting.reduce((sum, level) => sum + level.quantity * level.price, 0),
+    walls,
+    confirmed: walls.length > 0
+  };
+}
+
+// Funding per interval above which longs are paying heavily (0.01% is the usual baseline)
+export const EXTREME_FUNDING_RATE = 0.0005;
+
+// Open interest growth over the lookback that counts as a spike
+export const OPEN_INTEREST_SPIKE = 0.1;
+
+/**
+ * Longs are crowded when funding is extremely positive while open interest
+ * is spiking; buying into that risks a long squeeze.
+ */
+export function isCrowdedLong(context: DerivativesContext): boolean {
+  return context.fundingRate >= EXTREME_FUNDING_RATE && context.openInterestChange >= OPEN_INTEREST_SPIKE;
+}
+
+/**
+ * Main Technical Analysis Service
+ */
+export class TechnicalAnalysisService {
+  /**
+   * `symbolInfo` describes the market the candles came from, which after a
+   * failover is not the instrument's own: stops and targets go on that
+   * market's tick grid, and VWAP reads its contract size.
+   */
+  static analyzeData(
+    instrument: Instrument,
+    timeframe: Timeframe | CustomTimeframe,
+    klineData: KlineData[],
+    symbolInfo?: SymbolInfo,
+    derivatives?: DerivativesContext
+  ): {
+    emaData: EMAData[];
+    vwapData: VWAPData[];
+    macdData: MACDData[];
+    volumeDeltaData: VolumeDeltaData[];
+    supplyDemandZones: SupplyDemandZone[];
+    emaBounceSignals: EMABounceSignal[];
+    supplyDemandSignals: SupplyDemandSignal[];
+    allSignals: TradingSignal[];
+    source: KlineSource;
+  } {
+    // Candles fetched through ExchangeAPI say where they came from, which
+    // differs from the instrument's exchange after a failover
+    const source: KlineSource = klineData[klineData.length - 1]?.source ?? {
+      exchange: instrument.exchange,
+      tradingType: instrument.tradingType,
+      symbol: instrument.venueSymbol
+    };
+    // Info for any other symbol, e.g. the requested one, has the wrong tick size
+    const sourceInfo = symbolInfo?.symbol === source.symbol ? symbolInfo : undefined;
+    
+    // Calculate technical indicators
+    const closePrices = klineData.map(k => parseFloat(k.close));
+    
+    const ema9 = calculateEMA(closePrices, 9);
+    const ema20 = calculateEMA(closePrices, 20);
+    const ema200 = calculateEMA(closePrices, 200);
+    
+    const emaData: EMAData[] = [];
+    const minLength = Math.min(ema9.length, ema20.length, ema200.length);
+    const startIndex = klineData.length - minLength;
+    
+    for (let i = 0; i < minLength; i++) {
+      emaData.push({
+        timestamp: klineData[startIndex + i].closeTime,
+        ema9: ema9[ema9.length - minLength + i],
+        ema20: ema20[ema20.length - minLength + i],
+        ema200: ema200[i]
+      });
+    }
+    
+    const vwapData = calculateVWAP(klineData, sourceInfo?.contractSize);
+    const macdData = calculateMACD(klineData);
+    const volumeDeltaData = calculateVolumeDelta(klineData);
+    const supplyDemandZones = detectSupplyDemandZones(klineData);
+    
+    // Generate trading signals
+    // Skip an EMA-bounce buy into crowded longs. The derivatives context is
+    // the market as it is now, so it only judges the latest closed candle.
+    const crowdedLong = derivatives !== undefined && isCrowdedLong(derivatives);
+    const latestClose = klineData.filter(kline => kline.isClosed !== false).pop()?.closeTime;
+    const emaBounceSignals = detectEMABounceSignal(klineData, vwapData)
+      .filter(signal => !(crowdedLong && signal.type === 'buy' && signal.timestamp === latestClose));
+    const supplyDemandSignals = detectSupplyDemandSignals(klineData, supplyDemandZones, sourceInfo, volumeDeltaData);
+    
+    // Combine all signals
+    const allSignals: TradingSignal[] = [
+      ...emaBounceSignals.map(signal => ({
+        id: `ema_${signal.timestamp}`,
+        instrument,
+        timeframe,
+        timestamp: signal.timestamp,
+        type: signal.type,
+        price: signal.price,
+        strategy: 'ema_bounce' as const,
+        signalData: signal,
+        isActive: true,
+        confidence: signal.confidence,
+        source
+      })),
+      ...supplyDemandSignals.map(signal => ({
+        id: `sd_${signal.timestamp}`,
+        instrument,
+        timeframe,
+        timestamp: signal.timestamp,
+        type: signal.type,
+        price: signal.price,
+        strategy: 'supply_demand' as const,
+        signalData: signal,
+        isActive: true,
+        confidence: signal.confidence,
+        source
+      }))
+    ];
+    
+    return {
+      emaData,
+      vwapData,
+      macdData,
+      volumeDeltaData,
+      supplyDemandZones,
+      emaBounceSignals,
+      supplyDemandSignals,
+      allSignals,
+      source
+    };
+  }
+}
\ No newline at end of file
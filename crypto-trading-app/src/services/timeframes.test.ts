@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { canResample, countCandles, getNextOpenTime, getOpenTime, parseTimeframe, shiftOpenTime } from './timeframes';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+describe('monthly candles', () => {
+  it('open on the first of the month and close at the end of February', () => {
+    const leapDay = Date.UTC(2024, 1, 29, 18, 30);
+
+    expect(getOpenTime(leapDay, '1M')).toBe(Date.UTC(2024, 1, 1));
+    expect(getNextOpenTime(Date.UTC(2024, 1, 1), '1M')).toBe(Date.UTC(2024, 2, 1));
+    expect(getNextOpenTime(Date.UTC(2023, 1, 1), '1M')).toBe(Date.UTC(2023, 2, 1));
+    expect(getOpenTime(Date.UTC(2024, 2, 1), '1M')).toBe(Date.UTC(2024, 2, 1));
+    expect(getOpenTime(Date.UTC(2024, 2, 1) - 1, '1M')).toBe(Date.UTC(2024, 1, 1));
+  });
+
+  it('roll over from December into January', () => {
+    expect(getNextOpenTime(Date.UTC(2023, 11, 1), '1M')).toBe(Date.UTC(2024, 0, 1));
+    expect(shiftOpenTime(Date.UTC(2024, 0, 1), '1M', -1)).toBe(Date.UTC(2023, 11, 1));
+    expect(shiftOpenTime(Date.UTC(2023, 10, 1), '1M', 3)).toBe(Date.UTC(2024, 1, 1));
+  });
+
+  it('group several months from January 1970', () => {
+    // Quarters open in January, April, July and October
+    expect(getOpenTime(Date.UTC(2024, 1, 14), '3M')).toBe(Date.UTC(2024, 0, 1));
+    expect(shiftOpenTime(Date.UTC(2024, 0, 1), '3M', -1)).toBe(Date.UTC(2023, 9, 1));
+    expect(countCandles(Date.UTC(2023, 9, 1), Date.UTC(2024, 3, 1), '3M')).toBe(3);
+  });
+});
+
+describe('weekly candles', () => {
+  it('open on Monday at 00:00 UTC', () => {
+    // Sunday 16 June 2024, the last minute of the week
+    const sunday = Date.UTC(2024, 5, 16, 23, 59);
+    const monday = Date.UTC(2024, 5, 17);
+
+    expect(getOpenTime(sunday, '1w')).toBe(Date.UTC(2024, 5, 10));
+    expect(getOpenTime(monday, '1w')).toBe(monday);
+    expect(getNextOpenTime(Date.UTC(2024, 5, 10), '1w')).toBe(monday);
+    expect(shiftOpenTime(monday, '1w', -2)).toBe(Date.UTC(2024, 5, 3));
+  });
+});
+
+describe('custom timeframes', () => {
+  it('parses counts and units', () => {
+    expect(parseTimeframe('45m')).toEqual({ count: 45, unit: 'm' });
+    expect(parseTimeframe('2d')).toEqual({ count: 2, unit: 'd' });
+    expect(() => parseTimeframe('0h')).toThrow('Invalid timeframe: 0h');
+  });
+
+  it('align 45m candles on a grid from the epoch', () => {
+    const midnight = Date.UTC(2024, 5, 19);
+
+    expect(getOpenTime(midnight + 50 * MINUTE, '45m')).toBe(midnight + 45 * MINUTE);
+    expect(getNextOpenTime(midnight + 45 * MINUTE, '45m')).toBe(midnight + 90 * MINUTE);
+    expect(countCandles(midnight, midnight + 3 * HOUR, '45m')).toBe(5);
+  });
+
+  it('align 2d candles on a grid from the epoch', () => {
+    expect(getOpenTime(Date.UTC(2024, 5, 19, 12), '2d')).toBe(Date.UTC(2024, 5, 18));
+    expect(getNextOpenTime(Date.UTC(2024, 5, 18), '2d')).toBe(Date.UTC(2024, 5, 20));
+  });
+
+  it('resample only from timeframes that fit whole', () => {
+    expect(canResample('15m', '45m')).toBe(true);
+    expect(canResample('1d', '2d')).toBe(true);
+    expect(canResample('1h', '1w')).toBe(true);
+    expect(canResample('1h', '1M')).toBe(true);
+    expect(canResample('30m', '45m')).toBe(false);
+    expect(canResample('7h', '1w')).toBe(false);
+    expect(canResample('1w', '2w')).toBe(true);
+    expect(canResample('1w', '1M')).toBe(false);
+  });
+});
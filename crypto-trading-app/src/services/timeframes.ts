@@ -0,0 +1,137 @@
+import type { Timeframe, CustomTimeframe, TimeframeUnit } from '../types/exchange';
+
+const UNIT_MS: Record<Exclude<TimeframeUnit, 'M'>, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+// 1970-01-01 was a Thursday; weekly candles open on Monday
+const WEEK_OFFSET_MS = 4 * UNIT_MS.d;
+
+// Remainder that stays positive for timestamps before the epoch
+function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
+
+/**
+ * Split a timeframe such as 45m or 2d into its count and unit
+ */
+export function parseTimeframe(timeframe: string): { count: number; unit: TimeframeUnit } {
+  const match = /^([1-9]\d*)([mhdwM])$/.exec(timeframe);
+  if (!match) {
+    throw new Error(`Invalid timeframe: ${timeframe}`);
+  }
+  return { count: parseInt(match[1]), unit: match[2] as TimeframeUnit };
+}
+
+export function isValidTimeframe(timeframe: string): timeframe is CustomTimeframe {
+  return /^([1-9]\d*)([mhdwM])$/.test(timeframe);
+}
+
+// Length of one candle, or undefined for calendar months
+function getFixedLength(timeframe: Timeframe | CustomTimeframe): number | undefined {
+  const { count, unit } = parseTimeframe(timeframe);
+  return unit === 'M' ? undefined : count * UNIT_MS[unit];
+}
+
+// Months since January 1970
+function getMonthIndex(time: number): number {
+  const date = new Date(time);
+  return date.getUTCFullYear() * 12 + date.getUTCMonth() - 1970 * 12;
+}
+
+function getMonthStart(monthIndex: number): number {
+  return Date.UTC(1970, monthIndex, 1);
+}
+
+/**
+ * Nominal length of a timeframe in milliseconds, for sizing and display.
+ * Months are counted as 30 days; use getNextOpenTime and shiftOpenTime for
+ * calendar-correct arithmetic.
+ */
+export function getTimeframeMs(timeframe: Timeframe | CustomTimeframe): number {
+  const { count } = parseTimeframe(timeframe);
+  return getFixedLength(timeframe) ?? count * 30 * UNIT_MS.d;
+}
+
+// Reverse lookup of a native exchange interval string
+export function findTimeframe(
+  mapping: Partial<Record<Timeframe, string>>,
+  interval: string
+): Timeframe | undefined {
+  return (Object.keys(mapping) as Timeframe[]).find(timeframe => mapping[timeframe] === interval);
+}
+
+/**
+ * Open time of the candle containing `time`
+ */
+export function getOpenTime(time: number, timeframe: Timeframe | CustomTimeframe): number {
+  const { count, unit } = parseTimeframe(timeframe);
+
+  if (unit === 'M') {
+    const monthIndex = getMonthIndex(time);
+    return getMonthStart(monthIndex - mod(monthIndex, count));
+  }
+
+  const length = count * UNIT_MS[unit];
+  const offset = unit === 'w' ? WEEK_OFFSET_MS : 0;
+  return time - mod(time - offset, length);
+}
+
+/**
+ * Open time `candles` candles after (or, when negative, before) the candle
+ * that opens at openTime. Monthly candles follow calendar months.
+ */
+export function shiftOpenTime(openTime: number, timeframe: Timeframe | CustomTimeframe, candles: number): number {
+  const length = getFixedLength(timeframe);
+  if (length === undefined) {
+    return getMonthStart(getMonthIndex(openTime) + candles * parseTimeframe(timeframe).count);
+  }
+  return openTime + candles * length;
+}
+
+// Open time of the candle following the one that opens at openTime
+export function getNextOpenTime(openTime: number, timeframe: Timeframe | CustomTimeframe): number {
+  return shiftOpenTime(openTime, timeframe, 1);
+}
+
+/**
+ * Number of candles whose openTime falls within [start, end]
+ */
+export function countCandles(start: number, end: number, timeframe: Timeframe | CustomTimeframe): number {
+  let first = getOpenTime(start, timeframe);
+  if (first < start) first = getNextOpenTime(first, timeframe);
+  const last = getOpenTime(end, timeframe);
+  if (last < first) return 0;
+
+  const length = getFixedLength(timeframe);
+  if (length === undefined) {
+    return (getMonthIndex(last) - getMonthIndex(first)) / parseTimeframe(timeframe).count + 1;
+  }
+  return Math.round((last - first) / length) + 1;
+}
+
+/**
+ * Whether every `target` candle is made of whole `base` candles, so `target`
+ * can be built by resampling `base`
+ */
+export function canResample(base: Timeframe | CustomTimeframe, target: Timeframe | CustomTimeframe): boolean {
+  const baseUnit = parseTimeframe(base).unit;
+  const targetUnit = parseTimeframe(target).unit;
+  const baseLength = getFixedLength(base);
+  const targetLength = getFixedLength(target);
+
+  if (baseLength === undefined) {
+    return targetUnit === 'M' && parseTimeframe(target).count % parseTimeframe(base).count === 0;
+  }
+
+  // Months and weeks do not start on a fixed grid from the epoch, but always on a day
+  if (targetLength === undefined || (targetUnit === 'w' && baseUnit !== 'w')) {
+    return UNIT_MS.d % baseLength === 0;
+  }
+  if (baseUnit === 'w' && targetUnit !== 'w') return false;
+
+  return targetLength % baseLength === 0;
+}
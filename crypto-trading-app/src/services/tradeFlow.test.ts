@@ -0,0 +1,128 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import type { KlineData, Trade } from '../types/exchange';
+import { readFixtureFile } from '../backend/fixtureFiles';
+import { replayFixtures } from './exchanges/fixtures';
+import { ExchangeAPI } from './exchangeAPI';
+import { calculateVolumeDelta } from './technicalAnalysis';
+import { applyTradeFlow } from './tradeFlow';
+
+// Three 1m BTCUSDT candles from 08:00 on each exchange, and Bybit's trade
+// tape reaching back to the middle of the first
+const FIXTURES = fileURLToPath(new URL('./exchanges/__fixtures__/orderFlow.json', import.meta.url));
+
+const MINUTE = 60 * 1000;
+const FIRST_OPEN = 1718784000000;
+const closeOf = (index: number) => FIRST_OPEN + (index + 1) * MINUTE - 1;
+
+function candle(index: number, volume: string, fields: Partial<KlineData> = {}): KlineData {
+  return {
+    openTime: FIRST_OPEN + index * MINUTE,
+    open: '65000',
+    high: '65000',
+    low: '65000',
+    close: '65000',
+    volume,
+    closeTime: closeOf(index),
+    ...fields
+  };
+}
+
+function trade(time: number, side: Trade['side'], quantity: string, fields: Partial<Trade> = {}): Trade {
+  return { id: `${time}`, symbol: 'BTCUSDT', price: '65000', quantity, side, time, ...fields };
+}
+
+describe('applyTradeFlow', () => {
+  it('sums taker buys into the candle each trade falls in, whatever order they arrive in', () => {
+    const klines = [candle(0, '3'), candle(1, '2')];
+    const trades = [
+      trade(closeOf(1), 'buy', '0.5'),
+      trade(FIRST_OPEN, 'buy', '1'),
+      trade(closeOf(0), 'buy', '0.25'),
+      trade(FIRST_OPEN + MINUTE, 'sell', '1.5')
+    ];
+
+    expect(applyTradeFlow(klines, trades).map(kline => kline.takerBuyBaseAssetVolume)).toEqual(['1.25', '0.5']);
+  });
+
+  it('leaves candles older than the tape, and those that have taker volume, alone', () => {
+    const klines = [candle(0, '3'), candle(1, '2', { takerBuyBaseAssetVolume: '1.9' }), candle(2, '1')];
+
+    const filled = applyTradeFlow(klines, [trade(FIRST_OPEN + 30000, 'buy', '1'), trade(FIRST_OPEN + 2 * MINUTE, 'sell', '1')]);
+
+    expect(filled[0]).toBe(klines[0]);
+    expect(filled[1]).toBe(klines[1]);
+    expect(filled[2].takerBuyBaseAssetVolume).toBe('0');
+  });
+
+  it('counts inverse trades by their base amount', () => {
+    const klines = [candle(0, '130000', { volumeUnit: 'contracts', baseVolume: '2' })];
+    const trades = [trade(FIRST_OPEN, 'buy', '65000', { baseQuantity: '1' })];
+
+    expect(applyTradeFlow(klines, trades)[0].takerBuyBaseAssetVolume).toBe('1');
+  });
+
+  it('returns the candles unchanged without trades', () => {
+    const klines = [candle(0, '3')];
+    expect(applyTradeFlow(klines, [])).toBe(klines);
+  });
+});
+
+describe('calculateVolumeDelta', () => {
+  it('takes the rest of each candle\'s volume as selling and keeps a running total', () => {
+    const klines = [
+      candle(0, '10', { takerBuyBaseAssetVolume: '6' }),
+      candle(1, '8', { takerBuyBaseAssetVolume: '2' }),
+      candle(2, '5', { takerBuyBaseAssetVolume: '5' })
+    ];
+
+    expect(calculateVolumeDelta(klines)).toEqual([
+      { timestamp: closeOf(0), buyVolume: 6, sellVolume: 4, delta: 2, cumulativeDelta: 2 },
+      { timestamp: closeOf(1), buyVolume: 2, sellVolume: 6, delta: -4, cumulativeDelta: -2 },
+      { timestamp: closeOf(2), buyVolume: 5, sellVolume: 0, delta: 5, cumulativeDelta: 3 }
+    ]);
+  });
+
+  it('measures inverse candles in base volume and skips candles without taker volume', () => {
+    const klines = [
+      candle(0, '3'),
+      candle(1, '130000', { volumeUnit: 'contracts', baseVolume: '2', takerBuyBaseAssetVolume: '1.5' })
+    ];
+
+    expect(calculateVolumeDelta(klines)).toEqual([
+      { timestamp: closeOf(1), buyVolume: 1.5, sellVolume: 0.5, delta: 1, cumulativeDelta: 1 }
+    ]);
+  });
+});
+
+describe('order flow from recorded responses', () => {
+  let restore: () => void;
+
+  beforeAll(async () => {
+    restore = replayFixtures(await readFixtureFile(FIXTURES));
+  });
+
+  afterAll(() => restore());
+
+  it('reads taker buy volume from Binance candles', async () => {
+    const klines = await ExchangeAPI.getOrderFlowKlines('binance', 'spot', 'BTCUSDT', '1m', 3);
+
+    expect(klines.map(kline => kline.takerBuyBaseAssetVolume)).toEqual(['6.000', '2.000', '5.000']);
+    expect(calculateVolumeDelta(klines).map(({ delta, cumulativeDelta }) => [delta, cumulativeDelta])).toEqual([
+      [2, 2],
+      [-4, -2],
+      [5, 3]
+    ]);
+  });
+
+  it('assigns Bybit trades to the candles they fall in', async () => {
+    const klines = await ExchangeAPI.getOrderFlowKlines('bybit', 'futures', 'BTCUSDT', '1m', 3);
+
+    // The tape starts halfway through the first candle, which stays unfilled
+    expect(klines.map(kline => kline.takerBuyBaseAssetVolume)).toEqual([undefined, '1.75', '0.5']);
+    expect(calculateVolumeDelta(klines)).toEqual([
+      { timestamp: closeOf(1), buyVolume: 1.75, sellVolume: 0.5, delta: 1.25, cumulativeDelta: 1.25 },
+      { timestamp: closeOf(2), buyVolume: 0.5, sellVolume: 1, delta: -0.5, cumulativeDelta: 0.75 }
+    ]);
+  });
+});
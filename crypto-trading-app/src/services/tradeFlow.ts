@@ -0,0 +1,32 @@
+import type { KlineData, Trade } from '../types/exchange';
+
+// Inverse trades are counted by their base amount when the adapter derives one
+function getBaseQuantity(trade: Trade): number {
+  return parseFloat(trade.baseQuantity ?? trade.quantity);
+}
+
+/**
+ * Fill takerBuyBaseAssetVolume from the trade tape on candles that lack it,
+ * as Bybit's do. Only candles opening at or after the oldest trade are
+ * filled; earlier ones would be missing part of their trades.
+ */
+export function applyTradeFlow(klines: KlineData[], trades: Trade[]): KlineData[] {
+  if (trades.length === 0) return klines;
+
+  const sorted = [...trades].sort((a, b) => a.time - b.time);
+  const oldest = sorted[0].time;
+  let index = 0;
+
+  return klines.map(kline => {
+    if (kline.takerBuyBaseAssetVolume !== undefined || kline.openTime < oldest) return kline;
+
+    while (index < sorted.length && sorted[index].time < kline.openTime) index++;
+
+    let takerBuy = 0;
+    for (let i = index; i < sorted.length && sorted[i].time <= kline.closeTime; i++) {
+      if (sorted[i].side === 'buy') takerBuy += getBaseQuantity(sorted[i]);
+    }
+
+    return { ...kline, takerBuyBaseAssetVolume: takerBuy.toString() };
+  });
+}
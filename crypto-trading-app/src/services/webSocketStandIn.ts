@@ -0,0 +1,95 @@
+import type { WebSocketLike } from './marketStream';
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+// Node only has CloseEvent from version 23
+function createCloseEvent(code: number, reason: string): CloseEvent {
+  if (typeof CloseEvent === 'function') {
+    return new CloseEvent('close', { code, reason, wasClean: code === 1000 });
+  }
+  return Object.assign(new Event('close'), { code, reason, wasClean: code === 1000 }) as CloseEvent;
+}
+
+/**
+ * One in-process WebSocket connection, driven by the test playing the
+ * exchange: open it, push messages and drop it, and read what the client sent.
+ */
+export class WebSocketStandIn implements WebSocketLike {
+  readyState = CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  // Every message the client sent, parsed when it is JSON
+  readonly sent: unknown[] = [];
+  // Set once the client closes the connection itself
+  closedByClient = false;
+
+  constructor(readonly url: string) {}
+
+  send(data: string): void {
+    if (this.readyState !== OPEN) {
+      throw new Error('WebSocket is not open');
+    }
+    try {
+      this.sent.push(JSON.parse(data));
+    } catch {
+      this.sent.push(data);
+    }
+  }
+
+  close(): void {
+    if (this.readyState === CLOSED) return;
+    this.closedByClient = true;
+    this.finish(1000, 'Closed by client');
+  }
+
+  // The exchange accepts the connection
+  open(): void {
+    this.readyState = OPEN;
+    this.onopen?.(new Event('open'));
+  }
+
+  // The exchange sends a message, e.g. a kline update
+  receive(message: unknown): void {
+    const data = typeof message === 'string' ? message : JSON.stringify(message);
+    this.onmessage?.(new MessageEvent('message', { data }));
+  }
+
+  // The exchange or the network ends the connection
+  drop(code: number = 1006, reason: string = ''): void {
+    if (this.readyState === CLOSED) return;
+    this.onerror?.(new Event('error'));
+    this.finish(code, reason);
+  }
+
+  private finish(code: number, reason: string): void {
+    this.readyState = CLOSED;
+    this.onclose?.(createCloseEvent(code, reason));
+  }
+}
+
+/**
+ * Hands out stand-in connections in place of real sockets, e.g.
+ * `new MarketStream('binance', 'spot', { createWebSocket: server.connect })`,
+ * and keeps every one for inspection.
+ */
+export class WebSocketStandInServer {
+  readonly connections: WebSocketStandIn[] = [];
+
+  readonly connect = (url: string): WebSocketStandIn => {
+    const socket = new WebSocketStandIn(url);
+    this.connections.push(socket);
+    return socket;
+  };
+
+  // The most recent connection
+  get latest(): WebSocketStandIn {
+    const socket = this.connections[this.connections.length - 1];
+    if (!socket) throw new Error('No connection has been made');
+    return socket;
+  }
+}
@@ -1,8 +1,27 @@
 // Exchange types and interfaces
 
-export type Exchange = 'binance' | 'bybit';
-export type TradingType = 'spot' | 'futures';
-export type Timeframe = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d' | '1w' | '1M';
+// Built-in exchanges. Private venue integrations add their own ids to this map
+// through declaration merging, which makes them valid `Exchange` values.
+export interface ExchangeIdMap {
+  binance: true;
+  bybit: true;
+  okx: true;
+}
+
+export type Exchange = keyof ExchangeIdMap;
+// futures: linear (USDT/USDC-margined) contracts. inverse: coin-margined
+// contracts, quoted in USD and settled in the base coin. Both markets list
+// perpetual and dated delivery contracts; SymbolInfo.contractType tells them apart.
+export type TradingType = 'spot' | 'futures' | 'inverse';
+export type Timeframe =
+  | '1m' | '3m' | '5m' | '15m' | '30m'
+  | '1h' | '2h' | '4h' | '6h' | '8h' | '12h'
+  | '1d' | '3d' | '1w' | '1M';
+// M counts calendar months; weeks open on Monday, everything else on the epoch
+export type TimeframeUnit = 'm' | 'h' | 'd' | 'w' | 'M';
+// Any whole number of units, e.g. 45m or 2d. Timeframes an exchange does not
+// offer natively are resampled locally from a lower one it does offer.
+export type CustomTimeframe = `${number}${TimeframeUnit}`;
 
 export interface ExchangeConfig {
   exchange: Exchange;
@@ -10,11 +29,122 @@ export interface ExchangeConfig {
   baseUrl: string;
   endpoints: {
     klines: string;
+    historyKlines?: string;
     ticker: string;
+    allTickers?: string;
     symbols: string;
+    orderBook?: string;
+    trades?: string;
+    // Derivatives market data
+    fundingRate?: string;
+    premiumIndex?: string;
+    openInterestHistory?: string;
+    markPriceKlines?: string;
+    indexPriceKlines?: string;
+    // Exchange clock and signed account data
+    serverTime?: string;
+    balances?: string;
+    positions?: string;
+    openOrders?: string;
   };
+  rateLimit: RateLimitPolicy;
+}
+
+// Request budget for one API host
+export interface RateLimitPolicy {
+  maxWeight: number;
+  windowMs: number;
+  maxConcurrent?: number;
+  // Usage reported by the exchange in response headers
+  readUsage?(headers: Headers): RateLimitUsage | undefined;
+}
+
+export interface RateLimitUsage {
+  used: number;
+  limit?: number;
+  resetAt?: number;
 }
 
+// Exchange adapter interface
+export interface ExchangeCapabilities {
+  tradingTypes: TradingType[];
+  maxKlineLimit: number;
+  // Per-request maximum when a time range is given, if lower than maxKlineLimit
+  maxKlineRangeLimit?: number;
+  // Deepest order book snapshot, for exchanges with getOrderBook
+  maxDepthLimit?: number;
+}
+
+// Inclusive bounds on candle openTime, in milliseconds
+export interface KlineRange {
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface ExchangeAdapter {
+  id: Exchange;
+  name: string;
+  capabilities: ExchangeCapabilities;
+  // Native interval string per supported timeframe
+  timeframes: Partial<Record<Timeframe, string>>;
+  getKlines(symbol: string, timeframe: Timeframe, tradingType: TradingType, limit: number, range?: KlineRange): Promise<KlineData[]>;
+  getTicker(symbol: string, tradingType: TradingType): Promise<TickerData>;
+  // Every ticker in one request, for exchanges with a bulk endpoint
+  getAllTickers?(tradingType: TradingType): Promise<TickerData[]>;
+  getInstruments(tradingType: TradingType): Promise<SymbolInfo[]>;
+  // Order book snapshot of up to `limit` levels per side
+  getOrderBook?(symbol: string, tradingType: TradingType, limit: number): Promise<OrderBookSnapshot>;
+  // Up to `limit` of the latest trades, in any order; capped at what the exchange allows
+  getRecentTrades?(symbol: string, tradingType: TradingType, limit: number): Promise<Trade[]>;
+  // Recognize the exchange's error payloads, including ones sent with HTTP 200
+  classifyError?: ErrorClassifier;
+  // Funding, open interest and mark/index prices for derivatives markets
+  derivatives?: DerivativesDataAdapter;
+  // The exchange's clock, in milliseconds
+  getServerTime?(tradingType: TradingType): Promise<number>;
+  // Signed account endpoints; only ever called server-side
+  account?: AccountDataAdapter;
+  // Maps the exchange's symbol naming to and from canonical instruments
+  symbols?: SymbolCodec;
+  // Optional WebSocket support
+  stream?: ExchangeStreamSpec;
+}
+
+// Streaming types
+export type StreamMessage =
+  | { type: 'kline'; symbol: string; timeframe: Timeframe; kline: KlineData; isClosed: boolean }
+  | { type: 'ticker'; symbol: string; ticker: Partial<TickerData> } // Partial for delta updates
+  | { type: 'depth'; symbol: string; diff: OrderBookDiff }
+  | { type: 'trade'; symbol: string; trades: Trade[] };
+
+export interface ExchangeStreamSpec {
+  getUrl(tradingType: TradingType): string;
+  klineTopic(symbol: string, timeframe: Timeframe): string;
+  tickerTopic(symbol: string): string;
+  // Order book diffs, for exchanges that stream them
+  depthTopic?(symbol: string): string;
+  // Subscribing to depthTopic starts with a full snapshot (Bybit); otherwise
+  // the book is seeded from getOrderBook
+  depthSnapshotOnSubscribe?: boolean;
+  // Public trades, for exchanges that stream them
+  tradeTopic?(symbol: string): string;
+  subscribeMessage(topics: string[]): string;
+  unsubscribeMessage(topics: string[]): string;
+  // Application-level ping for venues that require one
+  ping?: { message: string; intervalMs: number };
+  parseMessage(raw: string, tradingType: TradingType): StreamMessage[];
+}
+
+export interface KlineStreamEvent {
+  type: 'candle_update' | 'candle_closed';
+  symbol: string;
+  timeframe: Timeframe;
+  kline: KlineData;
+  candles: KlineData[];
+}
+
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
 export interface KlineData {
   openTime: number;
   open: string;
@@ -27,6 +157,58 @@ export interface KlineData {
   numberOfTrades?: number;
   takerBuyBaseAssetVolume?: string;
   takerBuyQuoteAssetVolume?: string;
+  // 'contracts' for inverse markets, where volume counts fixed-notional
+  // contracts rather than base asset; baseVolume then holds the base amount
+  volumeUnit?: 'base' | 'contracts';
+  baseVolume?: string;
+  // False for the still-forming candle; set by kline normalization
+  isClosed?: boolean;
+  // Where the candle was fetched; differs from the requested exchange after a failover
+  source?: KlineSource;
+}
+
+export interface KlineSource {
+  exchange: Exchange;
+  tradingType: TradingType;
+  // Symbol in that exchange's own format
+  symbol: string;
+}
+
+/**
+ * When a market data request fails with one of `onErrors`, retry it on the
+ * listed exchanges in order, using the equivalent instrument on each.
+ */
+export interface FailoverPolicy {
+  exchanges: Exchange[];
+  onErrors?: ExchangeErrorKind[];
+}
+
+// Missing candles between two received ones; openTimes of the first and last missing candle
+export interface KlineGap {
+  from: number;
+  to: number;
+  missing: number;
+}
+
+export interface KlineSeries {
+  klines: KlineData[];
+  gaps: KlineGap[];
+  // Set by ExchangeAPI; see KlineData.source
+  source?: KlineSource;
+}
+
+// Persistent candle storage keyed by exchange/type/symbol/timeframe
+export interface CandleCacheKey {
+  exchange: Exchange;
+  tradingType: TradingType;
+  symbol: string;
+  timeframe: Timeframe;
+}
+
+export interface CandleStore {
+  get(key: CandleCacheKey): Promise<KlineData[] | undefined>;
+  set(key: CandleCacheKey, klines: KlineData[]): Promise<void>;
+  delete(key: CandleCacheKey): Promise<void>;
 }
 
 export interface TickerData {
@@ -46,11 +228,214 @@ export interface TickerData {
   lastUpdateId?: number;
 }
 
+// Derivatives market data (futures and inverse only)
+
+// A settled funding payment; positive means longs pay shorts
+export interface FundingRate {
+  symbol: string;
+  fundingTime: number;
+  fundingRate: string;
+  markPrice?: string;
+}
+
+// Funding rate that will settle at nextFundingTime, with current mark and index
+export interface PredictedFunding {
+  symbol: string;
+  fundingRate: string;
+  nextFundingTime: number;
+  markPrice: string;
+  indexPrice: string;
+  timestamp: number;
+}
+
+export type OpenInterestPeriod = '5m' | '15m' | '30m' | '1h' | '4h' | '1d';
+
+export interface OpenInterest {
+  symbol: string;
+  timestamp: number;
+  // Contracts for inverse markets, base asset otherwise
+  openInterest: string;
+  // In the quote currency, when the exchange reports it
+  openInterestValue?: string;
+}
+
+export type PriceKlineType = 'mark' | 'index';
+
+export interface DerivativesDataAdapter {
+  getFundingRateHistory(symbol: string, tradingType: TradingType, limit: number, range?: KlineRange): Promise<FundingRate[]>;
+  getPredictedFunding(symbol: string, tradingType: TradingType): Promise<PredictedFunding>;
+  // `instruments` reads the cached instrument list, for exchanges that address
+  // some contracts by more than their symbol
+  getOpenInterestHistory(
+    symbol: string,
+    tradingType: TradingType,
+    period: OpenInterestPeriod,
+    limit: number,
+    range?: KlineRange,
+    instruments?: () => Promise<SymbolInfo[]>
+  ): Promise<OpenInterest[]>;
+  // Mark or index price candles; volume fields are zero
+  getPriceKlines(
+    symbol: string,
+    timeframe: Timeframe,
+    tradingType: TradingType,
+    type: PriceKlineType,
+    limit: number,
+    range?: KlineRange
+  ): Promise<KlineData[]>;
+  maxFundingLimit: number;
+  maxOpenInterestLimit: number;
+}
+
+// Order book
+
+// [price, quantity] as the exchange sent them; quantity 0 removes the level
+export type OrderBookEntry = [string, string];
+
+export interface OrderBookSnapshot {
+  symbol: string;
+  bids: OrderBookEntry[];
+  asks: OrderBookEntry[];
+  // Update id the snapshot reflects; diffs continue from it
+  sequence: number;
+  timestamp: number;
+}
+
+export interface OrderBookDiff {
+  symbol: string;
+  bids: OrderBookEntry[];
+  asks: OrderBookEntry[];
+  // Update ids covered by this diff
+  firstSequence: number;
+  lastSequence: number;
+  // lastSequence of the previous diff, for exchanges that send it (Binance futures)
+  previousSequence?: number;
+  // Replaces the whole book rather than updating it
+  isSnapshot: boolean;
+  timestamp: number;
+}
+
+export interface OrderBookLevel {
+  price: number;
+  quantity: number;
+}
+
+// A level with the totals from the best price through it
+export interface DepthLevel extends OrderBookLevel {
+  cumulativeQuantity: number;
+  cumulativeNotional: number;
+}
+
+// Best first on both sides
+export interface OrderBookDepth<L extends OrderBookLevel = OrderBookLevel> {
+  bids: L[];
+  asks: L[];
+}
+
+// Trades
+
+export interface Trade {
+  id: string;
+  symbol: string;
+  price: string;
+  // Base asset, or contracts for inverse markets
+  quantity: string;
+  // Base amount of an inverse trade, when the adapter can derive it
+  baseQuantity?: string;
+  // The taker's side: buy lifted an ask, sell hit a bid
+  side: 'buy' | 'sell';
+  time: number;
+}
+
+// Account data (signed requests, backend only)
+
+// API key and secret as configured on the backend
+export interface ApiKeyPair {
+  apiKey: string;
+  apiSecret: string;
+}
+
+// The secret is only held as a non-extractable HMAC key, so it cannot be
+// read back out once imported
+export interface AccountCredentials {
+  apiKey: string;
+  signingKey: CryptoKey;
+}
+
+// What an adapter needs to sign one request
+export interface SigningContext extends AccountCredentials {
+  // Current time on the exchange's clock
+  now(): number;
+  // How long after its timestamp the exchange may still accept a request
+  recvWindow: number;
+}
+
+export interface AccountBalance {
+  asset: string;
+  // Available to trade or withdraw
+  free: string;
+  // Held by open orders or as margin
+  locked: string;
+  total: string;
+  // Derivatives wallets only
+  unrealizedPnl?: string;
+}
+
+export interface Position {
+  symbol: string;
+  side: 'long' | 'short';
+  // Base asset, or contracts for inverse markets; always positive
+  quantity: string;
+  entryPrice: string;
+  markPrice: string;
+  unrealizedPnl: string;
+  leverage?: string;
+  liquidationPrice?: string;
+  marginMode: 'cross' | 'isolated';
+  updatedAt: number;
+}
+
+export interface OpenOrder {
+  id: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: string; // As reported by the exchange, e.g. LIMIT or Market
+  // 0 for market orders
+  price: string;
+  quantity: string;
+  filledQuantity: string;
+  status: string;
+  reduceOnly: boolean;
+  createdAt: number;
+}
+
+export interface AccountDataAdapter {
+  // Default recvWindow for signed requests
+  recvWindow: number;
+  getBalances(context: SigningContext, tradingType: TradingType): Promise<AccountBalance[]>;
+  // Open positions only; spot has none
+  getPositions(context: SigningContext, tradingType: TradingType): Promise<Position[]>;
+  getOpenOrders(context: SigningContext, tradingType: TradingType, symbol?: string): Promise<OpenOrder[]>;
+}
+
+export type ContractType = 'spot' | 'perpetual' | 'delivery';
+
 export interface SymbolInfo {
   symbol: string;
   baseAsset: string;
   quoteAsset: string;
-  status: string;
+  status: string; // As reported by the exchange
+  isTrading: boolean;
+  contractType?: ContractType;
+  // As the exchange names it, e.g. Binance's CURRENT_QUARTER
+  venueContractType?: string;
+  // Derivatives only
+  margin?: 'linear' | 'inverse';
+  settleAsset?: string;
+  // Value of one contract: base asset for linear, quote currency (USD) for inverse
+  contractSize?: string;
+  deliveryTime?: number; // Delivery contracts only
+  tickSize?: string;
   minPrice?: string;
   maxPrice?: string;
   stepSize?: string;
@@ -58,6 +443,83 @@ export interface SymbolInfo {
   maxQty?: string;
 }
 
+// Canonical instruments. The same market has the same id on every venue:
+// BTC/USDT for spot, BTC/USDT:USDT for a USDT-margined perpetual, BTC/USD:BTC
+// for a coin-margined one, BTC/USDT:USDT-250627 for a contract delivering on
+// 27 June 2025, and 1000PEPE/USDT:USDT for a contract on 1000 PEPE.
+export interface InstrumentSpec {
+  base: string; // Without the multiplier: PEPE for 1000PEPEUSDT
+  quote: string;
+  // Asset margin and profit are held in; the quote asset for spot
+  settlement: string;
+  contractType: ContractType;
+  // Units of the base asset one unit of the instrument stands for
+  multiplier: number;
+  expiry?: string; // Delivery contracts only: YYMMDD, UTC
+}
+
+export interface Instrument extends InstrumentSpec {
+  id: string;
+  exchange: Exchange;
+  tradingType: TradingType;
+  venueSymbol: string;
+}
+
+// Reads and writes an exchange's symbols without its instrument list. The
+// list stays authoritative; codecs cover symbols looked up without it.
+export interface SymbolCodec {
+  // Undefined when the symbol does not follow the exchange's naming for the trading type
+  parse(symbol: string, tradingType: TradingType): InstrumentSpec | undefined;
+  // Undefined when the exchange has no naming for such an instrument
+  format(spec: InstrumentSpec): string | undefined;
+}
+
+// Symbol discovery filters. Unset fields do not filter.
+export interface SymbolQuery {
+  quoteAssets?: string[];
+  includeBaseAssets?: string[]; // Allow list
+  excludeBaseAssets?: string[]; // Deny list
+  minQuoteVolume?: number; // 24h volume in the quote asset
+  contractTypes?: ContractType[];
+  includeNonTrading?: boolean;
+}
+
+// Listing history: instrument lists snapshotted per market and diffed
+export interface ListingKey {
+  exchange: Exchange;
+  tradingType: TradingType;
+}
+
+export interface InstrumentSnapshot extends ListingKey {
+  takenAt: number;
+  instruments: SymbolInfo[];
+}
+
+export type ListingEventType = 'listing' | 'delisting' | 'status-change';
+
+export interface ListingEvent extends ListingKey {
+  type: ListingEventType;
+  symbol: string;
+  instrument: Instrument;
+  // The change happened after `since` (the previous snapshot) and was seen at
+  // `timestamp`; exchanges do not say exactly when
+  since: number;
+  timestamp: number;
+  // Exchange status before and after; a delisted symbol has no status after
+  previousStatus?: string;
+  status?: string;
+  isTrading: boolean;
+}
+
+// Persistent listing history: the latest snapshot per market and every event
+export interface ListingHistoryStore {
+  getSnapshot(key: ListingKey): Promise<InstrumentSnapshot | undefined>;
+  setSnapshot(snapshot: InstrumentSnapshot): Promise<void>;
+  appendEvents(events: ListingEvent[]): Promise<void>;
+  // Oldest first; all markets unless a key is given
+  getEvents(key?: ListingKey, since?: number): Promise<ListingEvent[]>;
+}
+
 // Technical Analysis Types
 export interface EMAData {
   timestamp: number;
@@ -79,6 +541,15 @@ export interface MACDData {
   histogram: number;
 }
 
+// Taker buy and sell volume per candle, in the base asset
+export interface VolumeDeltaData {
+  timestamp: number;
+  buyVolume: number;
+  sellVolume: number;
+  delta: number; // buyVolume - sellVolume
+  cumulativeDelta: number;
+}
+
 export interface SupplyDemandZone {
   type: 'supply' | 'demand';
   high: number;
@@ -89,6 +560,22 @@ export interface SupplyDemandZone {
   isValid: boolean;
 }
 
+// Resting liquidity in and around a supply/demand zone
+export interface ZoneLiquidity {
+  // Asks for supply zones, bids for demand zones
+  restingQuantity: number;
+  restingNotional: number;
+  // Levels far larger than the book's typical level
+  walls: OrderBookLevel[];
+  confirmed: boolean;
+}
+
+// Positioning snapshot used to veto crowded entries
+export interface DerivativesContext {
+  fundingRate: number; // Predicted, per funding interval
+  openInterestChange: number; // Fractional change over the lookback, e.g. 0.12 = +12%
+}
+
 // Signal Types
 export interface EMABounceSignal {
   timestamp: number;
@@ -117,14 +604,15 @@ export interface SupplyDemandSignal {
   takeProfit: number;
   riskReward: number;
   confidence: number; // 0-100
+  // Volume delta of the reacting candle, when taker volume is known
+  delta?: number;
 }
 
 export interface TradingSignal {
   id: string;
-  symbol: string;
-  exchange: Exchange;
-  tradingType: TradingType;
-  timeframe: Timeframe;
+  // As requested; after a failover the candles came from `source`
+  instrument: Instrument;
+  timeframe: Timeframe | CustomTimeframe;
   timestamp: number;
   type: 'buy' | 'sell';
   price: number;
@@ -132,28 +620,273 @@ export interface TradingSignal {
   signalData: EMABounceSignal | SupplyDemandSignal;
   isActive: boolean;
   confidence: number;
+  // Exchange whose candles produced the signal
+  source?: KlineSource;
 }
 
 // API Response Types
-export interface BinanceKlineResponse {
-  openTime: number;
-  open: string;
-  high: string;
-  low: string;
-  close: string;
-  volume: string;
-  closeTime: number;
-  quoteAssetVolume: string;
-  numberOfTrades: number;
-  takerBuyBaseAssetVolume: string;
-  takerBuyQuoteAssetVolume: string;
-  ignore: string;
-}
+// [openTime, open, high, low, close, volume, closeTime, quoteAssetVolume,
+//  numberOfTrades, takerBuyBaseAssetVolume, takerBuyQuoteAssetVolume, ignore]
+export type BinanceKlineResponse = [number, string, string, string, string, string, number, string, number, string, string, string];
 
 export interface BybitKlineResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    symbol: string;
+    category: string;
+    list: Array<[string, string, string, string, string, string, string]>; // [startTime, open, high, low, close, volume, turnover], newest first
+  };
+}
+
+export interface BinanceFundingRateResponse {
+  symbol: string;
+  fundingTime: number;
+  fundingRate: string;
+  markPrice?: string; // USDⓈ-M only
+}
+
+export interface BinancePremiumIndexResponse {
   symbol: string;
-  category: string;
-  list: Array<[string, string, string, string, string, string, string]>; // [startTime, open, high, low, close, volume, turnover]
+  markPrice: string;
+  indexPrice: string;
+  lastFundingRate: string; // Rate for the upcoming settlement
+  nextFundingTime: number;
+  time: number;
+}
+
+export interface BinanceOpenInterestResponse {
+  symbol?: string; // USDⓈ-M
+  pair?: string; // COIN-M
+  sumOpenInterest: string;
+  sumOpenInterestValue: string;
+  timestamp: number;
+}
+
+export interface BybitFundingRateResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    category: string;
+    list: Array<{
+      symbol: string;
+      fundingRate: string;
+      fundingRateTimestamp: string;
+    }>; // Newest first
+  };
+}
+
+export interface BybitDerivativesTickerResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    category: string;
+    list: Array<{
+      symbol: string;
+      markPrice: string;
+      indexPrice: string;
+      fundingRate: string;
+      nextFundingTime: string;
+      openInterest: string;
+      openInterestValue: string;
+    }>;
+  };
+  time: number;
+}
+
+export interface BybitOpenInterestResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    symbol: string;
+    category: string;
+    list: Array<{ openInterest: string; timestamp: string }>; // Newest first
+    nextPageCursor?: string;
+  };
+}
+
+// Levels are [price, quantity]; E and T are sent by futures only
+export interface BinanceDepthResponse {
+  lastUpdateId: number;
+  E?: number;
+  T?: number;
+  bids: Array<[string, string]>;
+  asks: Array<[string, string]>;
+}
+
+export interface BybitOrderBookResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    s: string;
+    b: Array<[string, string]>; // Bids, best first
+    a: Array<[string, string]>; // Asks, best first
+    ts: number;
+    u: number; // Update id
+    seq: number;
+  };
+}
+
+// Aggregate trades; m is true when the buyer was the maker, i.e. a taker sell
+export interface BinanceAggTradeResponse {
+  a: number; // Aggregate trade id
+  p: string;
+  q: string; // Contracts on COIN-M
+  f: number;
+  l: number;
+  T: number;
+  m: boolean;
+}
+
+// side is the taker's side; newest first
+export interface BybitRecentTradeResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    category: string;
+    list: Array<{
+      execId: string;
+      symbol: string;
+      price: string;
+      size: string; // Contracts on inverse
+      side: 'Buy' | 'Sell';
+      time: string;
+      isBlockTrade: boolean;
+    }>;
+  };
+}
+
+export interface BinanceServerTimeResponse {
+  serverTime: number;
+}
+
+export interface BybitServerTimeResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    timeSecond: string;
+    timeNano: string;
+  };
+  time: number;
+}
+
+// Spot /account; every asset the account has ever held unless omitZeroBalances is set
+export interface BinanceSpotAccountResponse {
+  balances: Array<{
+    asset: string;
+    free: string;
+    locked: string;
+  }>;
+  updateTime: number;
+}
+
+// USDⓈ-M and COIN-M /balance, one entry per margin asset
+export interface BinanceFuturesBalanceResponse {
+  asset: string;
+  balance: string;
+  crossUnPnl: string;
+  availableBalance: string;
+  updateTime: number;
+}
+
+// positionAmt is negative for shorts and contracts on COIN-M; flat symbols are listed too
+export interface BinancePositionRiskResponse {
+  symbol: string;
+  positionAmt: string;
+  entryPrice: string;
+  markPrice: string;
+  unRealizedProfit: string;
+  liquidationPrice: string;
+  leverage: string;
+  marginType: string;
+  updateTime: number;
+}
+
+// reduceOnly is sent by futures only
+export interface BinanceOpenOrderResponse {
+  symbol: string;
+  orderId: number;
+  price: string;
+  origQty: string;
+  executedQty: string;
+  status: string;
+  type: string;
+  side: 'BUY' | 'SELL';
+  reduceOnly?: boolean;
+  time: number;
+}
+
+// Unified account: one wallet backs spot, linear and inverse
+export interface BybitWalletBalanceResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    list: Array<{
+      accountType: string;
+      coin: Array<{
+        coin: string;
+        walletBalance: string;
+        locked: string; // Spot orders
+        totalOrderIM: string; // Derivatives orders
+        totalPositionIM: string;
+        unrealisedPnl: string;
+      }>;
+    }>;
+  };
+}
+
+// side is '' for a flat position in one-way mode; tradeMode 1 is isolated margin
+export interface BybitPositionResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    category: string;
+    list: Array<{
+      symbol: string;
+      side: 'Buy' | 'Sell' | '';
+      size: string;
+      avgPrice: string;
+      markPrice: string;
+      unrealisedPnl: string;
+      leverage: string;
+      liqPrice: string;
+      tradeMode: number;
+      updatedTime: string;
+    }>;
+    nextPageCursor: string;
+  };
+}
+
+export interface BybitOpenOrderResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    category: string;
+    list: Array<{
+      orderId: string;
+      symbol: string;
+      side: 'Buy' | 'Sell';
+      orderType: string;
+      price: string;
+      qty: string;
+      cumExecQty: string;
+      orderStatus: string;
+      reduceOnly: boolean;
+      createdTime: string;
+    }>;
+    nextPageCursor: string;
+  };
+}
+
+// Mark and index price klines: [startTime, open, high, low, close], newest first
+export interface BybitPriceKlineResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    symbol: string;
+    category: string;
+    list: Array<[string, string, string, string, string]>;
+  };
 }
 
 export interface BinanceTickerResponse {
@@ -161,18 +894,19 @@ export interface BinanceTickerResponse {
   priceChange: string;
   priceChangePercent: string;
   weightedAvgPrice: string;
-  prevClosePrice: string;
+  prevClosePrice?: string; // Spot only
   lastPrice: string;
   lastQty: string;
-  bidPrice: string;
-  bidQty: string;
-  askPrice: string;
-  askQty: string;
+  bidPrice?: string; // Spot only
+  bidQty?: string;
+  askPrice?: string; // Spot only
+  askQty?: string;
   openPrice: string;
   highPrice: string;
   lowPrice: string;
-  volume: string;
-  quoteVolume: string;
+  volume: string; // Contracts on COIN-M
+  quoteVolume?: string; // Not reported by COIN-M
+  baseVolume?: string; // COIN-M only
   openTime: number;
   closeTime: number;
   firstId: number;
@@ -198,17 +932,309 @@ export interface BybitTickerResponse {
       lowPrice24h: string;
       turnover24h: string;
       volume24h: string;
-      usdIndexPrice: string;
-      change24h: string;
+      usdIndexPrice?: string; // Spot only
     }>;
   };
 }
 
+export interface BinanceExchangeInfoResponse {
+  symbols: Array<{
+    symbol: string;
+    status?: string; // Spot and USDT-M
+    contractStatus?: string; // COIN-M
+    baseAsset: string;
+    quoteAsset: string;
+    contractType?: string; // Futures: PERPETUAL, CURRENT_QUARTER, ...
+    marginAsset?: string;
+    contractSize?: number; // COIN-M: USD per contract
+    deliveryDate?: number;
+    filters: Array<{
+      filterType: string; // PRICE_FILTER, LOT_SIZE, ...
+      minPrice?: string;
+      maxPrice?: string;
+      tickSize?: string;
+      minQty?: string;
+      maxQty?: string;
+      stepSize?: string;
+    }>;
+  }>;
+}
+
+export interface BybitInstrumentsResponse {
+  retCode: number;
+  retMsg: string;
+  result: {
+    category: string;
+    list: Array<{
+      symbol: string;
+      status: string;
+      baseCoin: string;
+      quoteCoin: string;
+      contractType?: string; // Derivatives: LinearPerpetual, LinearFutures, InversePerpetual, InverseFutures
+      settleCoin?: string;
+      deliveryTime?: string; // '0' for perpetuals
+      priceFilter: {
+        minPrice?: string; // Derivatives only
+        maxPrice?: string;
+        tickSize: string;
+      };
+      lotSizeFilter: {
+        minOrderQty: string;
+        maxOrderQty: string;
+        qtyStep?: string; // Derivatives
+        basePrecision?: string; // Spot
+      };
+    }>;
+    nextPageCursor?: string; // Derivatives paginate
+  };
+}
+
+export interface OkxResponse<T> {
+  code: string; // '0' on success
+  msg: string;
+  data: T;
+}
+
+// [ts, open, high, low, close, vol, volCcy, volCcyQuote, confirm], newest first
+export type OkxKlineResponse = OkxResponse<Array<[string, string, string, string, string, string, string, string, string]>>;
+
+export type OkxTickerResponse = OkxResponse<Array<{
+  instType: string;
+  instId: string;
+  last: string;
+  lastSz: string;
+  askPx: string;
+  askSz: string;
+  bidPx: string;
+  bidSz: string;
+  open24h: string;
+  high24h: string;
+  low24h: string;
+  volCcy24h: string; // Quote volume for SPOT, base volume for SWAP
+  vol24h: string; // Base volume for SPOT, contracts for SWAP
+  ts: string;
+  sodUtc0: string;
+  sodUtc8: string;
+}>>;
+
+export type OkxInstrumentsResponse = OkxResponse<Array<{
+  instType: string;
+  instId: string;
+  uly: string;
+  baseCcy: string; // Empty for SWAP
+  quoteCcy: string; // Empty for SWAP
+  settleCcy: string;
+  ctVal: string;
+  ctValCcy: string;
+  ctType: string; // 'linear' | 'inverse' for SWAP
+  tickSz: string;
+  lotSz: string;
+  minSz: string;
+  maxLmtSz: string;
+  state: string;
+}>>;
+
+// ts in milliseconds
+export type OkxServerTimeResponse = OkxResponse<Array<{ ts: string }>>;
+
+// WebSocket payloads
+export interface BinanceKlineStreamMessage {
+  e: 'kline';
+  E: number;
+  s: string;
+  k: {
+    t: number; // Open time
+    T: number; // Close time
+    s: string;
+    i: string; // Interval
+    o: string;
+    c: string;
+    h: string;
+    l: string;
+    v: string;
+    n: number;
+    x: boolean; // Is this kline closed?
+    q: string;
+    V: string;
+    Q: string;
+  };
+}
+
+export interface BinanceTickerStreamMessage {
+  e: '24hrTicker';
+  E: number;
+  s: string;
+  p: string; // Price change
+  P: string; // Price change percent
+  w: string; // Weighted average price
+  x: string; // Previous close
+  c: string; // Last price
+  b: string; // Best bid
+  a: string; // Best ask
+  o: string;
+  h: string;
+  l: string;
+  v: string;
+  q: string;
+}
+
+// Diff of every level that changed between update ids U and u
+export interface BinanceDepthStreamMessage {
+  e: 'depthUpdate';
+  E: number;
+  T?: number;
+  s: string;
+  U: number; // First update id
+  u: number; // Final update id
+  pu?: number; // Final update id of the previous event; futures only
+  b: Array<[string, string]>;
+  a: Array<[string, string]>;
+}
+
+export interface BinanceAggTradeStreamMessage extends BinanceAggTradeResponse {
+  e: 'aggTrade';
+  E: number;
+  s: string;
+}
+
+export interface BybitStreamMessage<T> {
+  topic: string;
+  type: 'snapshot' | 'delta';
+  ts: number;
+  data: T;
+}
+
+export type BybitKlineStreamMessage = BybitStreamMessage<Array<{
+  start: number;
+  end: number;
+  interval: string;
+  open: string;
+  close: string;
+  high: string;
+  low: string;
+  volume: string;
+  turnover: string;
+  confirm: boolean;
+  timestamp: number;
+}>>;
+
+// A snapshot on subscribe, then deltas; u is reset to 1 after a service restart
+export type BybitOrderBookStreamMessage = BybitStreamMessage<{
+  s: string;
+  b: Array<[string, string]>;
+  a: Array<[string, string]>;
+  u: number;
+  seq: number;
+}>;
+
+export type BybitTradeStreamMessage = BybitStreamMessage<Array<{
+  T: number;
+  s: string;
+  S: 'Buy' | 'Sell'; // Taker side
+  v: string;
+  p: string;
+  i: string; // Trade id
+  BT: boolean;
+}>>;
+
+// Linear deltas only carry the fields that changed
+export type BybitTickerStreamMessage = BybitStreamMessage<Partial<BybitTickerResponse['result']['list'][number]>>;
+
+// HTTP transport used for every REST call; swapped out to record or replay fixtures
+export type HttpTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+// Adds authentication to a request just before each attempt is sent, so
+// retries carry a fresh timestamp
+export type RequestSigner = (url: string) => Promise<{ url: string; headers: Record<string, string> }>;
+
+// One REST response as the exchange sent it
+export interface RecordedResponse {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  // Parsed JSON, or the raw text when the body was not JSON
+  body?: unknown;
+  recordedAt: number;
+}
+
+export interface FixtureSet {
+  version: 1;
+  responses: RecordedResponse[];
+}
+
 // Error handling
+
+// Why a request failed; decides whether and how long to wait before retrying
+export type ExchangeErrorKind =
+  | 'network'               // No response, timeout or transient 5xx
+  | 'rate-limited'          // Over the request budget; retry after the given delay
+  | 'banned'                // IP banned for ignoring rate limits; do not retry
+  | 'invalid-symbol'        // Symbol not listed on this exchange or market
+  | 'exchange-maintenance'  // Exchange or endpoint temporarily down
+  | 'schema-mismatch'       // Response format changed
+  | 'circuit-open'          // Not sent: the endpoint has been failing, see CircuitBreaker
+  | 'unauthorized'          // API key invalid, expired, IP-restricted or lacking permission
+  | 'clock-skew'            // Signed timestamp outside the exchange's recvWindow
+  | 'rejected';             // Any other error the exchange reported
+
 export interface ExchangeError {
+  kind: ExchangeErrorKind;
   exchange: Exchange;
   endpoint: string;
   message: string;
+  // HTTP status or the exchange's own error code
   code?: number;
+  // Location of the offending field when a response fails validation
+  path?: string;
+  retryAfterMs?: number;
+  attempts?: number;
   timestamp: number;
-}
\ No newline at end of file
+}
+
+// An exchange's reading of one response; undefined when it is not an error
+export interface ClassifiedError {
+  kind: ExchangeErrorKind;
+  message: string;
+  code?: number;
+  retryAfterMs?: number;
+}
+
+export type ErrorClassifier = (status: number, body: unknown) => ClassifiedError | undefined;
+
+// Health monitoring
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type HealthStatus = 'unknown' | 'healthy' | 'degraded' | 'down';
+
+export interface EndpointHealth {
+  endpoint: string;
+  state: CircuitState;
+  // Over the rolling window
+  requests: number;
+  errorRate: number;
+  avgLatencyMs: number;
+  p95LatencyMs: number;
+  lastError?: string;
+  lastSuccessAt?: number;
+  // When an open circuit lets the next probe through
+  retryAt?: number;
+}
+
+export interface ExchangeHealth {
+  exchange: Exchange;
+  status: HealthStatus;
+  errorRate: number;
+  avgLatencyMs: number;
+  lastSuccessAt?: number;
+  endpoints: EndpointHealth[];
+}
+// Market data API (src/backend/api.ts)
+export type MarketDataMode = 'proxy' | 'direct';
+
+// Body of every failed /api/market or /api/account request
+export interface MarketErrorBody {
+  error: ExchangeError | {
+    kind: 'bad-request' | 'not-found' | 'forbidden' | 'not-configured' | 'internal';
+    message: string;
+  };
+}
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // URL of a recorded fixture file to replay instead of calling the exchanges
+  readonly VITE_EXCHANGE_FIXTURES?: string
+  // Origin of the market data API; defaults to the page's own
+  readonly VITE_MARKET_API_URL?: string
+  // 'direct' calls the exchanges from the browser instead of through the API
+  readonly VITE_MARKET_DATA?: string
+}